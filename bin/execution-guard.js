@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+// `shell: execution-guard {0}` — see src/shell.ts. Built into dist/shell by `npm run build:shell`,
+// which `prepare` runs on install.
+require('../dist/shell/index.js');
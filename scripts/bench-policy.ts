@@ -0,0 +1,100 @@
+/**
+ * Policy index benchmark — per-proposal policy work, uncached vs compiled.
+ *
+ *   npm run bench:policy [-- --rules 400 --proposals 1000 --uncached 10]
+ *
+ * Each proposal performs the policy accesses of one OpenClaw call: canonical
+ * proposal hash and executable resolution (argv[0] → path + SHA256, here the
+ * node binary), pipeline hash, environment fingerprint, evaluate() (which
+ * also yields the matched rule's scope) and kernel step 5 hash. "uncached" clears the compiled policy
+ * and executable hash caches before every access — what each of them cost before the caches;
+ * "compiled" shares one CompiledPolicy and one binary hash across all of them. Kernel
+ * step 8 re-hashes the binary once per execution, not per proposal, and is not measured. The uncached run
+ * is slow by design, so it gets its own (small) proposal count; both are
+ * compared per proposal.
+ *
+ * The policy is generated: a base file with half the rules, extended by the
+ * root file with the other half, spread over rules/4 commands.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseArgs } from 'util';
+import { stringify } from 'yaml';
+import { evaluate } from '../src/core/evaluate.js';
+import { clearPolicyCache } from '../src/core/policy_index.js';
+import { hashPolicyFile } from '../src/canonical_proposal.js';
+import { clearExecutableCache, EXECUTABLE_NOT_FOUND, resolveExecutable } from '../src/executable_resolver.js';
+import { buildEnvironmentFingerprint } from '../src/environment_fingerprint.js';
+
+const { values } = parseArgs({
+  options: {
+    rules: { type: 'string', default: '400' },
+    proposals: { type: 'string', default: '1000' },
+    uncached: { type: 'string', default: '10' }
+  }
+});
+const ruleCount = Number(values.rules);
+const commandCount = Math.max(1, Math.floor(ruleCount / 4));
+
+function rules(from: number, to: number): object[] {
+  const out: object[] = [];
+  for (let i = from; i < to; i++) {
+    out.push({
+      id: `rule-${i}`,
+      command: `tool-${i % commandCount}`,
+      args: [`sub-${i}`, { glob: 'src/**' }, { optional: { enum: ['--dry-run', '--verbose'] } }],
+      scope: 'safe'
+    });
+  }
+  return out;
+}
+
+const dir = mkdtempSync(join(tmpdir(), 'guard-bench-'));
+const half = Math.floor(ruleCount / 2);
+writeFileSync(join(dir, 'base.yaml'), stringify({ default: 'DENY', rules: rules(0, half) }), 'utf8');
+writeFileSync(join(dir, 'policy.yaml'), stringify({ extends: './base.yaml', rules: rules(half, ruleCount) }), 'utf8');
+const policyPath = join(dir, 'policy.yaml');
+
+function proposal(n: number, cold: boolean): void {
+  const access = <T>(fn: () => T): T => {
+    if (cold) {
+      clearPolicyCache();
+      clearExecutableCache();
+    }
+    return fn();
+  };
+  const i = n % ruleCount;
+  const command = `tool-${i % commandCount}`;
+  access(() => hashPolicyFile(policyPath));
+  const executable = access(() => resolveExecutable(process.execPath));
+  if (executable.sha256 === EXECUTABLE_NOT_FOUND) throw new Error(`benchmark could not resolve ${process.execPath}`);
+  access(() => hashPolicyFile(policyPath));
+  access(() => buildEnvironmentFingerprint(policyPath));
+  const result = access(() => evaluate({ command, args: [`sub-${i}`, 'src/index.ts'], policyPath }));
+  if (result.verdict !== 'ALLOW') throw new Error(`benchmark policy did not allow ${command}: ${result.reason}`);
+  access(() => hashPolicyFile(policyPath));
+}
+
+/** Mean ms per proposal. */
+function run(label: string, cold: boolean, proposals: number): number {
+  clearPolicyCache();
+  clearExecutableCache();
+  proposal(0, cold); // warm-up: module init, first compile
+  const start = process.hrtime.bigint();
+  for (let n = 1; n <= proposals; n++) proposal(n, cold);
+  const ms = Number(process.hrtime.bigint() - start) / 1e6;
+  const perSecond = (proposals / ms) * 1000;
+  console.log(`${label.padEnd(10)} ${String(proposals).padStart(6)} proposals  ${(ms / proposals).toFixed(3).padStart(9)} ms/proposal  ${perSecond.toFixed(0).padStart(7)} proposals/s`);
+  return ms / proposals;
+}
+
+try {
+  console.log(`policy: ${ruleCount} rules over ${commandCount} commands (2 files)`);
+  const uncached = run('uncached', true, Number(values.uncached));
+  const compiled = run('compiled', false, Number(values.proposals));
+  console.log(`speedup    ${(uncached / compiled).toFixed(1)}x`);
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
@@ -3,7 +3,7 @@
 #
 # SECURITY CONTRACT: spawn() / execFile() / exec() MUST only appear
 # in src/execution_kernel.ts. Any other call site bypasses the authority
-# token verification chain and the 7-step verify protocol.
+# token verification chain and the 8-step verify protocol.
 #
 # Exits non-zero if a violation is found.
 # Run this in CI on every push (npm run test:guard).
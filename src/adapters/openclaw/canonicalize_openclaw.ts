@@ -7,7 +7,8 @@
  * INVARIANT: Same OpenClaw proposal always produces the same CanonicalProposal
  *            (and therefore the same proposal_hash).
  *
- * Only command + args are hashed. Metadata (session_id, agent_id, etc.)
+ * Only command + args (plus policy, version, time window and run context) are
+ * hashed. Metadata (session_id, agent_id, etc.)
  * goes into the audit log but does NOT affect the proposal_hash.
  * This means: two different agents requesting the same command+args
  * will get the same proposal_hash — intentional (it's the execution that's bound,
@@ -16,6 +17,8 @@
 
 import { buildCanonicalProposal, canonicalHash, type CanonicalProposal } from '../../canonical_proposal.js';
 import type { OpenClawProposal } from './openclaw_proposal.js';
+import type { EvaluationContext } from '../../core/conditions.js';
+import type { PolicySignatureBinding } from '../../core/policy_signature.js';
 
 export interface OpenClawCanonicalResult {
   proposal: CanonicalProposal;
@@ -28,15 +31,20 @@ export interface OpenClawCanonicalResult {
  * Build a CanonicalProposal from an OpenClaw proposal.
  *
  * policy_ref in the OpenClaw proposal (if provided) overrides the default policyPath.
+ * context must be the same value passed to runAuthorityPipeline — otherwise
+ * the adapter's proposal_hash and the token's proposal_hash diverge.
+ * The same holds for signature (signed policies only).
  */
 export function canonicalizeOpenClawProposal(
   ocProposal: OpenClawProposal,
-  defaultPolicyPath: string
+  defaultPolicyPath: string,
+  context: EvaluationContext,
+  signature?: PolicySignatureBinding
 ): OpenClawCanonicalResult {
   const policyPath = ocProposal.policy_ref ?? defaultPolicyPath;
 
-  // buildCanonicalProposal uses command + args + policyPath + timestamp_floor + guard_version
-  const proposal = buildCanonicalProposal(ocProposal.command, ocProposal.args, policyPath);
+  // buildCanonicalProposal uses command + args + policyPath + timestamp_floor + guard_version + context (+ signature)
+  const proposal = buildCanonicalProposal(ocProposal.command, ocProposal.args, policyPath, context, signature);
   const proposal_hash = canonicalHash(proposal);
 
   return {
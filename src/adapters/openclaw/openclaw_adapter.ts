@@ -5,22 +5,29 @@
  * It wraps the full 3-layer architecture in a single call:
  *
  *   1. Validate OpenClaw proposal (reject shell strings)
- *   2. Canonicalize → proposal_hash
- *   3. Scope elevation check (net/fs/admin require pre-approved token)
- *   4. Check token_store for human-approved token
- *   5. Run authority pipeline (Front Gate → Token Issuance)
- *   6. Kernel execution (7-step verify → spawn)
- *   7. Append structured OpenClaw audit log
+ *   2. Run authority pipeline (Front Gate → Token Issuance) — the matched
+ *      rule's scope is enforced there (pre_approved_token / blocked_in_strict).
+ *      Its canonical proposal and proposal_hash are the ones used below:
+ *      built once, so the binary is resolved and hashed once per call
+ *   3. Scope blocked in STRICT → SCOPE_ELEVATION_STOP
+ *   4. Scope needs a human token → check token_store for a human-approved token
+ *   5. Kernel execution (8-step verify → spawn)
+ *   6. Append structured OpenClaw audit log (with the rule's remaining quota)
  *
  * SECURITY INVARIANT: spawn() is never called from this file.
  *   All execution goes through executeWithAuthority() in execution_kernel.ts.
  *   scripts/check-spawn.sh enforces this in CI.
  *
- * GateMode behavior:
+ * GateMode behavior (built-in scopes; a policy's `scopes:` may redefine them):
  *   STRICT + safe scope + policy match  → ALLOW (auto token)
  *   STRICT + net/fs/admin              → SCOPE_ELEVATION_HOLD (need human token)
  *   STRICT + admin scope               → SCOPE_ELEVATION_STOP (never auto)
  *   STRICT + rule miss                 → POLICY_MISS_STOP
+ *   any mode + DENY rule match         → POLICY_DENY_STOP
+ *   any mode + path argument escape    → PATH_ESCAPE_STOP
+ *   any mode + invalid policy          → POLICY_INVALID_STOP
+ *   any mode + bad policy signature    → POLICY_SIGNATURE_STOP
+ *   any mode + rule quota exhausted    → QUOTA_EXHAUSTED_STOP (max_executions; per session = session_id)
  *
  *   PERMISSIVE + safe scope + policy match  → ALLOW (auto token)
  *   PERMISSIVE + net/fs scope + policy match → SCOPE_ELEVATION_HOLD (need human token)
@@ -28,19 +35,25 @@
  *   PERMISSIVE + rule miss                 → POLICY_MISS_HOLD
  *   PERMISSIVE + rule miss + allow_with_audit=true → AUDITED_PERMIT (ALLOW with audit flag)
  *
- *   Pre-approved token (any mode): token retrieved → kernel verifies all 7 steps
+ *   The scope is the one of the rule that matched these arguments — two rules
+ *   for the same command may carry different scopes.
+ *
+ *   Pre-approved token (scope needs one): token retrieved → kernel verifies all 8 steps
+ *   Pre-approved token with fewer approvers than the scope's `approvals` → SCOPE_ELEVATION_HOLD
  */
 
 import { createHash } from 'crypto';
 import { runAuthorityPipeline } from '../../authority_pipeline.js';
 import { executeWithAuthority } from '../../execution_kernel.js';
 import { GateMode } from '../../config/mode.js';
+import { parseContextFromEnv } from '../../config/context.js';
+import type { EvaluationContext } from '../../core/conditions.js';
+import type { PolicySignatureConfig } from '../../core/policy_signature.js';
 import { appendAuditRecord } from '../../token_registry.js';
 import { ExecutionDeniedError } from '../../errors.js';
 import { validateOpenClawProposal, type OpenClawProposal } from './openclaw_proposal.js';
-import { canonicalizeOpenClawProposal } from './canonicalize_openclaw.js';
 import { retrieveToken, deleteToken } from './token_store.js';
-import { getRuleScope, scopeRequiresPreApprovedToken, isAdminScope } from './scope_policy.js';
+import { countApprovals } from './scope_policy.js';
 
 // ─── Public Types ─────────────────────────────────────────────────────────────
 
@@ -51,9 +64,14 @@ export type OpenClawReasonCode =
   | 'PRE_APPROVED_TOKEN_ALLOW'  // human-approved token from token_store
   | 'AUDITED_PERMIT'            // PERMISSIVE + allow_with_audit=true (policy miss permitted)
   | 'POLICY_MISS_STOP'          // STRICT + no policy match
+  | 'POLICY_DENY_STOP'          // explicit DENY rule matched (any mode)
+  | 'PATH_ESCAPE_STOP'          // path argument escaped its rule's allowed roots (any mode)
+  | 'POLICY_INVALID_STOP'       // policy failed validation (any mode) — see diagnostics
+  | 'POLICY_SIGNATURE_STOP'     // policy signature missing or not valid for the trusted key (any mode)
+  | 'QUOTA_EXHAUSTED_STOP'      // matching rule's max_executions used up for this run/session/window (any mode)
   | 'POLICY_MISS_HOLD'          // PERMISSIVE + no policy match (standard hold)
   | 'SCOPE_ELEVATION_HOLD'      // policy matched but scope needs human token
-  | 'SCOPE_ELEVATION_STOP'      // admin scope in STRICT (never auto-execute)
+  | 'SCOPE_ELEVATION_STOP'      // scope blocked in STRICT, e.g. admin (never auto-execute)
   | 'SHELL_STRING_REJECTED'     // command/args contained shell metacharacters
   | 'VALIDATION_ERROR'          // malformed proposal
   | 'TOKEN_EXPIRED'
@@ -63,6 +81,7 @@ export type OpenClawReasonCode =
   | 'POLICY_HASH_MISMATCH'
   | 'ENV_FINGERPRINT_MISMATCH'
   | 'DECISION_NOT_ALLOW'
+  | 'EXECUTABLE_DRIFT'          // resolved binary changed between issuance and spawn
   | 'PIPELINE_ERROR';
 
 export interface OpenClawExecuteRequest {
@@ -74,9 +93,15 @@ export interface OpenClawExecuteRequest {
   mode?: GateMode;
   /**
    * PERMISSIVE only: allow execution even on policy miss, with mandatory audit trail.
-   * Does NOT apply to admin scope. Ignored in STRICT mode.
+   * Does NOT apply to scopes that need a pre-approved token. Ignored in STRICT mode.
    */
   allow_with_audit?: boolean;
+  /** Run context for `when:` conditions (defaults to the GitHub env of this process) */
+  context?: EvaluationContext;
+  /** Signed policy: trusted public key + detached signature (see core/policy_signature.ts) */
+  policy_signature?: PolicySignatureConfig;
+  /** Learning mode: append PERMISSIVE HOLD / AUDITED_PERMIT proposals to this JSONL log */
+  learn_path?: string;
 }
 
 /** Structured OpenClaw audit log entry (§12 of work order) */
@@ -99,6 +124,8 @@ export interface OpenClawAuditEntry {
   args_hash: string;
   audited_permit: boolean;
   executed: boolean;
+  /** Executions left under the deciding rule's max_executions; null = rule has no quota */
+  quota_remaining: number | null;
 }
 
 export interface OpenClawExecuteResult {
@@ -132,7 +159,8 @@ function buildAuditEntry(
   policyHash: string | null,
   envFp: string | null,
   auditedPermit: boolean,
-  executed: boolean
+  executed: boolean,
+  quotaRemaining: number | null = null
 ): OpenClawAuditEntry {
   return {
     time: new Date().toISOString(),
@@ -151,7 +179,8 @@ function buildAuditEntry(
     command: proposal.command,
     args_hash: argsHash(proposal.args),
     audited_permit: auditedPermit,
-    executed
+    executed,
+    quota_remaining: quotaRemaining
   };
 }
 
@@ -188,7 +217,8 @@ function earlyStop(
       command,
       args_hash: 'unknown',
       audited_permit: false,
-      executed: false
+      executed: false,
+      quota_remaining: null
     }
   };
 }
@@ -209,6 +239,8 @@ export async function executeWithOpenClawAuthority(
   const policyPath = req.policy_path ?? './policy.yaml';
   const mode = req.mode ?? GateMode.STRICT;
   const allowWithAudit = req.allow_with_audit ?? false;
+  const context = req.context ?? parseContextFromEnv();
+  const signature = req.policy_signature;
 
   // ─── Step 1: Validate proposal ─────────────────────────────────────────────
   const validation = validateOpenClawProposal(req.openclaw_proposal);
@@ -217,23 +249,47 @@ export async function executeWithOpenClawAuthority(
   }
   const ocProposal = validation.proposal;
 
-  // ─── Step 2: Canonicalize → proposal_hash ─────────────────────────────────
-  const { proposal, proposal_hash, short_hash } = canonicalizeOpenClawProposal(ocProposal, policyPath);
-
-  // ─── Step 3: Scope elevation check ────────────────────────────────────────
-  const scope = getRuleScope(ocProposal.command, policyPath) ?? 'safe';
-  const needsPreApprovedToken = scopeRequiresPreApprovedToken(scope);
+  // ─── Step 2: Authority pipeline — decision, deciding rule and its scope ────
+  //
+  // The pipeline's canonical proposal (command, args, policy, context,
+  // signature, resolved binary) is the one proposal of this call: its
+  // proposal_hash keys the token store and binds every token below.
+  //
+  // The scope is the one of the rule evaluate() matched for these arguments
+  // (pipelineResult.scope), never looked up again by command name. A scope
+  // that needs a human token comes back as HOLD, one blocked in STRICT as STOP
+  // (pipelineResult.scope_elevation) — no ALLOW token, nothing counted.
+  //
+  // allow_with_audit: PERMISSIVE + policy miss → issue ALLOW token with audit flag
+  // This is safe because the kernel still runs all 8 verification steps.
+  // The 'audited_permit' flag in scope.constraints marks it as policy-miss execution.
+  const pipelineResult = await runAuthorityPipeline(
+    ocProposal.command,
+    ocProposal.args,
+    policyPath,
+    mode,
+    allowWithAudit,
+    {
+      context,
+      ...(signature ? { signature } : {}),
+      ...(req.learn_path ? { learn: req.learn_path } : {}),
+      quota: { session_id: ocProposal.session_id }
+    }
+  );
+  const { proposal_hash } = pipelineResult;
+  const short_hash = proposal_hash.slice(0, 8);
 
-  // Admin scope in STRICT: hard block (no execution path)
-  if (isAdminScope(scope) && mode === GateMode.STRICT) {
-    const reason = `command "${ocProposal.command}" is admin scope — requires human-approved token. ` +
-                   `In STRICT mode, admin commands cannot be auto-executed.`;
+  // ─── Step 3: Scope blocked in STRICT (admin by default): hard block ───────
+  if (pipelineResult.scope_elevation === 'BLOCKED_IN_STRICT') {
+    const scope = pipelineResult.scope!;
+    const reason = `command "${ocProposal.command}" is ${scope.name} scope — requires human-approved token. ` +
+                   `In STRICT mode, ${scope.name} commands cannot be auto-executed.`;
     const entry = buildAuditEntry(
       ocProposal, proposal_hash, short_hash,
       'STOP', 'SCOPE_ELEVATION_STOP', reason,
       null, null, null, false, false
     );
-    appendAuditRecord({ ...entry });
+    appendAuditRecord(entry);
     return {
       verdict: 'STOP', proposal_hash, short_hash,
       token_id: null, reason, reason_code: 'SCOPE_ELEVATION_STOP',
@@ -241,68 +297,90 @@ export async function executeWithOpenClawAuthority(
     };
   }
 
-  // ─── Step 4: Check token_store for pre-approved token ────────────────────
-  const storedToken = retrieveToken(proposal_hash);
-
-  if (storedToken) {
-    // Human-approved path: run kernel directly with stored token
-    try {
-      const kernelResult = await executeWithAuthority(
-        ocProposal.command, ocProposal.args, proposal, storedToken
-      );
-      // Delete from store after use (kernel marks it used in registry)
-      deleteToken(proposal_hash);
-
-      const entry = buildAuditEntry(
-        ocProposal, proposal_hash, short_hash,
-        'ALLOW', 'PRE_APPROVED_TOKEN_ALLOW',
-        'Human-approved token executed successfully',
-        storedToken.token_id, storedToken.policy_hash,
-        storedToken.environment_fingerprint, false, true
-      );
-      appendAuditRecord({ ...entry, exit_code: kernelResult.exit_code });
+  // ─── Step 4: Scope needs a human-approved token → token_store ─────────────
+  if (pipelineResult.scope_elevation === 'PRE_APPROVED_TOKEN') {
+    const scope = pipelineResult.scope!;
+    const storedToken = retrieveToken(proposal_hash);
 
-      return {
-        verdict: 'ALLOW', proposal_hash, short_hash,
-        token_id: storedToken.token_id,
-        reason: 'Human-approved token executed successfully',
-        reason_code: 'PRE_APPROVED_TOKEN_ALLOW',
-        audit_ref: kernelResult.audit_ref,
-        executed: true, exit_code: kernelResult.exit_code,
-        audit_entry: entry
-      };
-    } catch (err) {
-      deleteToken(proposal_hash); // Remove invalid/expired stored token
-      const isDenied = err instanceof ExecutionDeniedError;
-      const errType = isDenied ? (err as ExecutionDeniedError).error_type : 'PIPELINE_ERROR';
-      const reason = err instanceof Error ? err.message : String(err);
+    const approvals = storedToken ? countApprovals(storedToken) : 0;
+    if (storedToken && approvals < scope.approvals) {
+      // Not enough approvers yet — keep the token stored, wait for more
+      const reason = `command "${ocProposal.command}" is ${scope.name} scope — requires ${scope.approvals} approvals, ` +
+                     `token carries ${approvals}. proposal_hash: ${short_hash}.`;
       const entry = buildAuditEntry(
         ocProposal, proposal_hash, short_hash,
-        'STOP', errType as OpenClawReasonCode, reason,
+        'HOLD', 'SCOPE_ELEVATION_HOLD', reason,
         storedToken.token_id, storedToken.policy_hash,
         storedToken.environment_fingerprint, false, false
       );
-      appendAuditRecord({ ...entry });
+      appendAuditRecord(entry);
       return {
-        verdict: 'STOP', proposal_hash, short_hash,
-        token_id: storedToken.token_id, reason,
-        reason_code: errType as OpenClawReasonCode,
+        verdict: 'HOLD', proposal_hash, short_hash,
+        token_id: storedToken.token_id, reason, reason_code: 'SCOPE_ELEVATION_HOLD',
         audit_ref: null, executed: false, exit_code: null,
         audit_entry: entry
       };
     }
-  }
 
-  // ─── Step 5: Scope elevation → HOLD if no token and scope requires it ─────
-  if (needsPreApprovedToken) {
-    const reason = `command "${ocProposal.command}" is ${scope} scope — requires human-approved token. ` +
+    if (storedToken) {
+      // Human-approved path: run kernel directly with stored token
+      try {
+        const kernelResult = await executeWithAuthority(
+          ocProposal.command, ocProposal.args, pipelineResult.proposal!, storedToken
+        );
+        // Delete from store after use (kernel marks it used in registry)
+        deleteToken(proposal_hash);
+
+        const entry = buildAuditEntry(
+          ocProposal, proposal_hash, short_hash,
+          'ALLOW', 'PRE_APPROVED_TOKEN_ALLOW',
+          'Human-approved token executed successfully',
+          storedToken.token_id, storedToken.policy_hash,
+          storedToken.environment_fingerprint, false, true
+        );
+        appendAuditRecord({ ...entry, exit_code: kernelResult.exit_code });
+
+        return {
+          verdict: 'ALLOW', proposal_hash, short_hash,
+          token_id: storedToken.token_id,
+          reason: 'Human-approved token executed successfully',
+          reason_code: 'PRE_APPROVED_TOKEN_ALLOW',
+          audit_ref: kernelResult.audit_ref,
+          executed: true, exit_code: kernelResult.exit_code,
+          audit_entry: entry
+        };
+      } catch (err) {
+        deleteToken(proposal_hash); // Remove invalid/expired stored token
+        const isDenied = err instanceof ExecutionDeniedError;
+        const errType = isDenied ? (err as ExecutionDeniedError).error_type : 'PIPELINE_ERROR';
+        const reason = err instanceof Error ? err.message : String(err);
+        const entry = buildAuditEntry(
+          ocProposal, proposal_hash, short_hash,
+          'STOP', errType as OpenClawReasonCode, reason,
+          storedToken.token_id, storedToken.policy_hash,
+          storedToken.environment_fingerprint, false, false
+        );
+        appendAuditRecord(entry);
+        return {
+          verdict: 'STOP', proposal_hash, short_hash,
+          token_id: storedToken.token_id, reason,
+          reason_code: errType as OpenClawReasonCode,
+          audit_ref: null, executed: false, exit_code: null,
+          audit_entry: entry
+        };
+      }
+    }
+
+    // No token yet — HOLD for human approval
+    const approvalsNote = scope.approvals > 1 ? ` (${scope.approvals} approvals)` : '';
+    const reason = `command "${ocProposal.command}" is ${scope.name} scope — requires human-approved token${approvalsNote}. ` +
                    `proposal_hash: ${short_hash}. Store approval via token_store.storeToken().`;
     const entry = buildAuditEntry(
       ocProposal, proposal_hash, short_hash,
       'HOLD', 'SCOPE_ELEVATION_HOLD', reason,
       null, null, null, false, false
     );
-    appendAuditRecord({ ...entry });
+    appendAuditRecord(entry);
     return {
       verdict: 'HOLD', proposal_hash, short_hash,
       token_id: null, reason, reason_code: 'SCOPE_ELEVATION_HOLD',
@@ -311,29 +389,24 @@ export async function executeWithOpenClawAuthority(
     };
   }
 
-  // ─── Step 6: Authority pipeline (safe scope auto-issuance or audited permit) ──
-  //
-  // allow_with_audit: PERMISSIVE + policy miss → issue ALLOW token with audit flag
-  // This is safe because the kernel still runs all 7 verification steps.
-  // The 'audited_permit' flag in scope.constraints marks it as policy-miss execution.
-  const pipelineResult = await runAuthorityPipeline(
-    ocProposal.command,
-    ocProposal.args,
-    policyPath,
-    mode,
-    allowWithAudit  // new parameter — see authority_pipeline.ts
-  );
-
+  // ─── Step 5: Pipeline STOP / HOLD ─────────────────────────────────────────
   if (pipelineResult.decision === 'STOP') {
     const reason = pipelineResult.reason;
+    const reasonCode: OpenClawReasonCode =
+      pipelineResult.policy_failure === 'POLICY_SIGNATURE_INVALID' ? 'POLICY_SIGNATURE_STOP'
+      : pipelineResult.policy_failure ? 'POLICY_INVALID_STOP'
+      : pipelineResult.quota?.exhausted ? 'QUOTA_EXHAUSTED_STOP'
+      : pipelineResult.decided_by?.effect === 'DENY' ? 'POLICY_DENY_STOP'
+      : pipelineResult.path_violation ? 'PATH_ESCAPE_STOP'
+      : 'POLICY_MISS_STOP';
     const entry = buildAuditEntry(
       ocProposal, proposal_hash, short_hash,
-      'STOP', 'POLICY_MISS_STOP', reason,
-      null, null, null, false, false
+      'STOP', reasonCode, reason,
+      null, null, null, false, false, pipelineResult.quota?.remaining ?? null
     );
     return {
       verdict: 'STOP', proposal_hash, short_hash,
-      token_id: null, reason, reason_code: 'POLICY_MISS_STOP',
+      token_id: null, reason, reason_code: reasonCode,
       audit_ref: null, executed: false, exit_code: null,
       audit_entry: entry
     };
@@ -360,7 +433,7 @@ export async function executeWithOpenClawAuthority(
     };
   }
 
-  // ─── Step 7: ALLOW — run kernel ───────────────────────────────────────────
+  // ─── Step 6: ALLOW — run kernel ───────────────────────────────────────────
   if (!pipelineResult.token || !pipelineResult.proposal) {
     const reason = '[INVARIANT VIOLATION] ALLOW decision without token — STOP.';
     return earlyStop(reason, 'PIPELINE_ERROR', ocProposal.command);
@@ -384,7 +457,7 @@ export async function executeWithOpenClawAuthority(
       pipelineResult.token.token_id,
       pipelineResult.token.policy_hash,
       pipelineResult.token.environment_fingerprint,
-      isAuditedPermit, true
+      isAuditedPermit, true, pipelineResult.quota?.remaining ?? null
     );
     appendAuditRecord({ ...entry, exit_code: kernelResult.exit_code });
 
@@ -408,9 +481,9 @@ export async function executeWithOpenClawAuthority(
       pipelineResult.token.token_id,
       pipelineResult.token.policy_hash,
       pipelineResult.token.environment_fingerprint,
-      isAuditedPermit, false
+      isAuditedPermit, false, pipelineResult.quota?.remaining ?? null
     );
-    appendAuditRecord({ ...entry });
+    appendAuditRecord(entry);
     return {
       verdict: 'STOP', proposal_hash, short_hash,
       token_id: pipelineResult.token.token_id,
@@ -9,10 +9,10 @@
  * individual tool proposals or the gate will return STOP with SHELL_STRING_REJECTED.
  */
 
-// Characters that indicate a shell string rather than a bare command/arg
-const SHELL_METACHARACTERS = /[|&;<>`$"'()\n\r]/;
+import { SHELL_METACHARACTERS } from '../../command_tokenizer.js';
 
-export type CommandScope = 'safe' | 'net' | 'fs' | 'admin';
+/** Scope name — a built-in (safe, net, fs, admin) or one declared in the policy's `scopes:`. */
+export type CommandScope = string;
 
 /**
  * Raw proposal from the OpenClaw agent runtime.
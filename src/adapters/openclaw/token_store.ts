@@ -10,13 +10,13 @@
  * Security properties preserved:
  *   - TTL validation on retrieve (expired tokens return null)
  *   - The store is NOT the execution authority
- *   - Kernel 7-step verification is always required after retrieval
+ *   - Kernel 8-step verification is always required after retrieval
  *
  * Use case: Human-in-the-loop approval flow.
  *   1. Human reviews proposal (e.g. Telegram UI).
  *   2. Human approves → issuer calls storeToken().
  *   3. OpenClaw executor calls retrieveToken() before kernel call.
- *   4. Token passes through 7-step kernel verification.
+ *   4. Token passes through 8-step kernel verification.
  */
 
 import type { ITokenStore } from '../../interfaces/token_store.js';
@@ -6,7 +6,16 @@
  *   2. Build environment fingerprint
  *   3. evaluate() [sealed core — never modified]
  *   4. STRICT: rule miss → STOP (no token). PERMISSIVE: rule miss → HOLD token.
+ *      Explicit DENY rule match, path escape, invalid policy or bad policy signature → STOP in every mode.
+ *      ALLOW by a rule whose scope needs a pre-approved token → HOLD token (unless
+ *      options.pre_approved); scope blocked in STRICT → STOP in STRICT.
+ *      ALLOW by a rule with max_executions: counted; quota exhausted → STOP in every mode.
  *   5. ALLOW: issue ALLOW token with ephemeral ED25519 key
+ *      (TTL from the rule's scope declaration, clamped to the rule's valid_until)
+ *   6. Learning mode: record PERMISSIVE HOLD / AUDITED_PERMIT proposals
+ *
+ * options.dry_run: same decision and token, no side effects beyond the
+ * (dry_run-marked) audit records — nothing is counted or learned.
  *
  * SEAL BOUNDARY: evaluate() called here and nowhere else.
  *
@@ -20,17 +29,28 @@
  */
 
 import { generateKeyPairSync, sign as cryptoSign } from 'crypto';
-import { evaluate } from './core/evaluate.js';
+import { evaluate, type DecidingRule, type EvaluationFailure } from './core/evaluate.js';
+import type { EvaluationTrace } from './core/explain.js';
+import type { PolicyDiagnostic } from './core/policy_validator.js';
+import { scopeElevation, type ResolvedScope, type ScopeElevation } from './core/scopes.js';
+import { signatureBinding, type PolicySignatureConfig } from './core/policy_signature.js';
 import { buildCanonicalProposal, canonicalHash, hashPolicyFile, type CanonicalProposal } from './canonical_proposal.js';
 import { buildEnvironmentFingerprint } from './environment_fingerprint.js';
 import { appendAuditRecord } from './token_registry.js';
+import { recordObservation } from './observation_log.js';
 import { canonicalStringify } from './canonical_stringify.js';
 import { GateMode } from './config/mode.js';
+import { parseContextFromEnv, parsePathRootsFromEnv } from './config/context.js';
+import type { EvaluationContext } from './core/conditions.js';
+import type { PathRoots, PathViolation } from './core/path_matcher.js';
+import { defaultRunId, describeQuota, quotaCounter, type QuotaStatus } from './core/quotas.js';
+import type { ICounterStore } from './interfaces/counter_store.js';
+import { memoryCounterStore } from './stores/memory_counter_store.js';
 import { uuidv7 } from './uuid_v7.js';
 import type { VerifiedToken, TokenScope, TokenDecision } from './execution_kernel.js';
 
 const GUARD_VERSION = process.env['GUARD_VERSION'] ?? '0.4.0';
-const TOKEN_TTL_MS = 5 * 60 * 1000; // 5 minutes — single-run window
+const TOKEN_TTL_MS = 5 * 60 * 1000; // 5 minutes — single-run window (policy miss; rules use their scope's token_ttl)
 
 export type PipelineDecision = 'ALLOW' | 'STOP' | 'HOLD';
 
@@ -38,6 +58,27 @@ export interface PipelineResult {
   decision: PipelineDecision;
   proposal_hash: string;
   reason: string;
+  /** Rule that decided the verdict — absent on a policy miss */
+  decided_by?: DecidingRule;
+  /** Decided by an ALLOW rule: the rule's scope with its declared semantics */
+  scope?: ResolvedScope;
+  /**
+   * The rule matched but its scope withholds automatic execution:
+   * PRE_APPROVED_TOKEN → HOLD (HOLD token), BLOCKED_IN_STRICT → STOP
+   */
+  scope_elevation?: ScopeElevation;
+  /** Set when the policy itself could not be used (always STOP) */
+  policy_failure?: EvaluationFailure;
+  /** Set when a path argument escaped its rule's allowed roots (always STOP) */
+  path_violation?: PathViolation;
+  /** With path_violation: index (policy rules[]) of the rule whose roots were escaped */
+  path_violation_rule?: number;
+  /** Policy validator output (errors and warnings) with file/line/column */
+  diagnostics?: PolicyDiagnostic[];
+  /** Per-rule evaluation trace — present when options.explain is set */
+  trace?: EvaluationTrace;
+  /** ALLOW by a rule with max_executions, or STOP because that quota is exhausted */
+  quota?: QuotaStatus;
   /** Present when decision === 'ALLOW' or 'HOLD' */
   token?: VerifiedToken;
   /** Present when decision === 'ALLOW' or 'HOLD' */
@@ -45,12 +86,61 @@ export interface PipelineResult {
   gate_mode: string;
 }
 
+/** Optional pipeline inputs beyond the command itself. */
+export interface PipelineOptions {
+  /**
+   * Run context for `when:` conditions, bound into the canonical proposal.
+   * Defaults to parseContextFromEnv() — entry points should pass it explicitly.
+   */
+  context?: EvaluationContext;
+  /** Explain mode: return the evaluate() trace of every rule considered */
+  explain?: boolean;
+  /**
+   * Trusted key + detached signature for the policy. When set, evaluate()
+   * verifies it first and the token's policy_hash binds the signature.
+   */
+  signature?: PolicySignatureConfig;
+  /**
+   * Working directory and allowed roots for `path` matchers.
+   * Defaults to parsePathRootsFromEnv() — entry points should pass it explicitly.
+   */
+  paths?: PathRoots;
+  /**
+   * Learning mode: observation log (JSONL) that every PERMISSIVE policy miss —
+   * HOLD or AUDITED_PERMIT — is appended to (see observation_log.ts).
+   */
+  learn?: string;
+  /** Counters for `max_executions` quotas (see core/quotas.ts) */
+  quota?: QuotaOptions;
+  /**
+   * Dry run: decide and issue the token as usual, but count nothing — quotas
+   * are read, not incremented, and no learning observation is recorded.
+   * Audit records carry `dry_run: true`.
+   */
+  dry_run?: boolean;
+  /**
+   * Issuing the human-approved token for a proposal (OpenClaw token_store):
+   * a rule whose scope needs a pre-approved token gets an ALLOW token instead
+   * of HOLD. A scope blocked in STRICT is still STOP there.
+   */
+  pre_approved?: boolean;
+}
+
+export interface QuotaOptions {
+  /** Defaults to the in-process MemoryCounterStore (action and shell wrapper: config/quota.ts) */
+  store?: ICounterStore;
+  /** per: run — defaults to defaultRunId() (GITHUB_RUN_ID + attempt, else this process) */
+  run_id?: string;
+  /** per: session — OpenClaw session_id; absent = counted per run */
+  session_id?: string;
+}
+
 /**
  * Run the full authority pipeline.
  *
  * @param allowWithAudit PERMISSIVE only: on policy miss, issue an ALLOW token
  *   (not HOLD) with scope.constraints.audited_permit='true'. spawn still goes
- *   through all 7 kernel verification steps. Ignored in STRICT mode.
+ *   through all 8 kernel verification steps. Ignored in STRICT mode.
  *   Admin scope commands are never auto-permitted even with this flag.
  *
  * Never throws — fail-closed: returns STOP on any internal error.
@@ -60,14 +150,17 @@ export async function runAuthorityPipeline(
   args: string[],
   policyPath: string,
   mode: GateMode = GateMode.STRICT,
-  allowWithAudit: boolean = false
+  allowWithAudit: boolean = false,
+  options: PipelineOptions = {}
 ): Promise<PipelineResult> {
   try {
-    return await _pipeline(command, args, policyPath, mode, allowWithAudit);
+    const context = options.context ?? parseContextFromEnv();
+    return await _pipeline(command, args, policyPath, mode, allowWithAudit, context, options);
   } catch (err) {
     const safeMsg = err instanceof Error ? err.message : String(err);
     console.error(`[PIPELINE ERROR] ${safeMsg}`);
     appendAuditRecord({
+      ...(options.dry_run ? { dry_run: true } : {}),
       event: 'PIPELINE_ERROR',
       error: safeMsg,
       command,
@@ -91,31 +184,181 @@ async function _pipeline(
   args: string[],
   policyPath: string,
   mode: GateMode,
-  allowWithAudit: boolean
+  allowWithAudit: boolean,
+  context: EvaluationContext,
+  options: PipelineOptions
 ): Promise<PipelineResult> {
-  // Step 1: Build canonical proposal
-  const proposal = buildCanonicalProposal(command, args, policyPath);
+  const dryRun = options.dry_run === true;
+  const audit = (record: Record<string, unknown>): void =>
+    appendAuditRecord(dryRun ? { ...record, dry_run: true } : record);
+  const { explain = false, signature } = options;
+  const paths = options.paths ?? parsePathRootsFromEnv();
+  const binding = signature ? signatureBinding(policyPath, signature) : undefined;
+
+  // Step 1: Build canonical proposal (bound to the run context and policy signature)
+  const proposal = buildCanonicalProposal(command, args, policyPath, context, binding);
   const proposalHash = canonicalHash(proposal);
-  const policyHash = hashPolicyFile(policyPath);
+  const policyHash = hashPolicyFile(policyPath, binding);
 
   // Step 2: Build environment fingerprint
   const envFingerprint = buildEnvironmentFingerprint(policyPath);
 
-  // Step 3: Evaluate via sealed core
-  const evalResult = evaluate({ command, args, policyPath });
+  // Step 3: Evaluate via sealed core — at the issuance instant, so a rule
+  // valid now is the rule whose lifetime bounds the token
+  const issuedAt = new Date();
+  const evalResult = evaluate({
+    command, args, policyPath, context, explain, now: issuedAt, paths, ...(signature ? { signature } : {})
+  });
 
   const coreAllowed = evalResult.verdict === 'ALLOW';
+  // A matching DENY rule is a decision, not a miss — never softened by mode.
+  // Same for a path escape and for a policy that could not be loaded or
+  // verified: fail closed in every mode.
+  const failClosed = evalResult.decided_by?.effect === 'DENY' ||
+    evalResult.path_violation !== undefined || evalResult.failure !== undefined;
+  const diagnostics = evalResult.diagnostics ? { diagnostics: evalResult.diagnostics } : {};
+  const trace = evalResult.trace ? { trace: evalResult.trace } : {};
+
+  // Step 3a: Scope of the deciding ALLOW rule (core/scopes.ts) — a scope that
+  // needs a human-approved token is HOLD, one blocked in STRICT is STOP there.
+  // Neither executes, so neither counts against a quota.
+  const elevation = coreAllowed && evalResult.scope
+    ? scopeElevation(evalResult.scope, mode === GateMode.STRICT, options.pre_approved === true)
+    : undefined;
+  let reason = evalResult.reason;
+  if (elevation === 'BLOCKED_IN_STRICT') {
+    reason = `${evalResult.reason} — scope "${evalResult.scope!.name}" is blocked in STRICT mode (no execution path). STOP.`;
+    audit({
+      event: 'STOP',
+      proposal_hash: proposalHash,
+      environment_fingerprint: envFingerprint,
+      policy_hash: policyHash,
+      reason,
+      decided_by: evalResult.decided_by,
+      scope_elevation: elevation,
+      command,
+      args,
+      policy_path: policyPath,
+      gate_mode: mode,
+      guard_version: GUARD_VERSION,
+      timestamp: new Date().toISOString()
+    });
+    return {
+      decision: 'STOP',
+      proposal_hash: proposalHash,
+      reason,
+      ...(evalResult.decided_by ? { decided_by: evalResult.decided_by } : {}),
+      scope: evalResult.scope!,
+      scope_elevation: elevation,
+      ...diagnostics,
+      ...trace,
+      gate_mode: mode
+    };
+  }
+  if (elevation === 'PRE_APPROVED_TOKEN') {
+    const { name, approvals } = evalResult.scope!;
+    reason = `${evalResult.reason} — scope "${name}" requires a human-approved token` +
+      `${approvals > 1 ? ` (${approvals} approvals)` : ''}. HOLD.`;
+  }
+
+  // Step 3b: Execution quota of the deciding ALLOW rule — exhausted is STOP in every mode
+  let quota: QuotaStatus | undefined;
+  const limit = coreAllowed && !elevation ? evalResult.decided_by?.max_executions : undefined;
+  if (limit) {
+    const decided = evalResult.decided_by!;
+    const store = options.quota?.store ?? memoryCounterStore;
+    const counter = quotaCounter(limit, policyPath, { ...decided, command }, {
+      run_id: options.quota?.run_id ?? defaultRunId(),
+      ...(options.quota?.session_id !== undefined ? { session_id: options.quota.session_id } : {})
+    }, issuedAt);
+    const current = store.get(counter.key);
+    const exhausted = current >= limit.limit;
+    const used = exhausted ? current : dryRun ? current + 1 : store.increment(counter.key, counter.expires_at);
+    quota = {
+      rule: decided.id ?? `rules[${decided.rule_index}]`,
+      limit: limit.limit,
+      per: limit.per,
+      used,
+      remaining: Math.max(0, limit.limit - used),
+      exhausted,
+      ...(counter.expires_at !== null ? { resets_at: counter.expires_at } : {})
+    };
+    if (exhausted) {
+      const reason = `Quota exhausted: rule ${quota.rule} max_executions ${describeQuota(limit)} ` +
+        `(${used} used${quota.resets_at ? `, resets at ${quota.resets_at}` : ''}). Fail-closed: STOP.`;
+      audit({
+        event: 'STOP',
+        proposal_hash: proposalHash,
+        environment_fingerprint: envFingerprint,
+        policy_hash: policyHash,
+        reason,
+        decided_by: decided,
+        quota,
+        command,
+        args,
+        policy_path: policyPath,
+        gate_mode: mode,
+        guard_version: GUARD_VERSION,
+        timestamp: new Date().toISOString()
+      });
+      return {
+        decision: 'STOP',
+        proposal_hash: proposalHash,
+        reason,
+        decided_by: decided,
+        ...(evalResult.scope ? { scope: evalResult.scope } : {}),
+        quota,
+        ...diagnostics,
+        ...trace,
+        gate_mode: mode
+      };
+    }
+  }
 
   // Step 4: Mode-gated decision
   let tokenDecision: TokenDecision;
   let pipelineDecision: PipelineDecision;
 
-  if (coreAllowed) {
+  if (elevation === 'PRE_APPROVED_TOKEN') {
+    // Rule match, human approval pending — HOLD token (auditable, kernel blocks spawn)
+    tokenDecision = 'HOLD';
+    pipelineDecision = 'HOLD';
+  } else if (coreAllowed) {
     tokenDecision = 'ALLOW';
     pipelineDecision = 'ALLOW';
+  } else if (failClosed) {
+    audit({
+      event: 'STOP',
+      proposal_hash: proposalHash,
+      environment_fingerprint: envFingerprint,
+      policy_hash: policyHash,
+      reason: evalResult.reason,
+      decided_by: evalResult.decided_by,
+      path_violation: evalResult.path_violation,
+      policy_failure: evalResult.failure,
+      command,
+      args,
+      policy_path: policyPath,
+      gate_mode: mode,
+      guard_version: GUARD_VERSION,
+      timestamp: new Date().toISOString()
+    });
+    return {
+      decision: 'STOP',
+      proposal_hash: proposalHash,
+      reason: evalResult.reason,
+      ...(evalResult.decided_by ? { decided_by: evalResult.decided_by } : {}),
+      ...(evalResult.path_violation
+        ? { path_violation: evalResult.path_violation, path_violation_rule: evalResult.mismatch!.rule_index }
+        : {}),
+      ...(evalResult.failure ? { policy_failure: evalResult.failure } : {}),
+      ...diagnostics,
+      ...trace,
+      gate_mode: mode
+    };
   } else if (mode === GateMode.PERMISSIVE && allowWithAudit) {
     // PERMISSIVE + allow_with_audit: policy miss → ALLOW token with audit flag
-    // spawn still goes through all 7 kernel steps — no verification bypass.
+    // spawn still goes through all 8 kernel steps — no verification bypass.
     // audited_permit=true marks this as policy-miss execution in the audit trail.
     tokenDecision = 'ALLOW';
     pipelineDecision = 'ALLOW';
@@ -125,7 +368,7 @@ async function _pipeline(
     pipelineDecision = 'HOLD';
   } else {
     // STRICT: rule miss → STOP, no token issued
-    appendAuditRecord({
+    audit({
       event: 'STOP',
       proposal_hash: proposalHash,
       environment_fingerprint: envFingerprint,
@@ -138,7 +381,9 @@ async function _pipeline(
       guard_version: GUARD_VERSION,
       timestamp: new Date().toISOString()
     });
-    return { decision: 'STOP', proposal_hash: proposalHash, reason: evalResult.reason, gate_mode: mode };
+    return {
+      decision: 'STOP', proposal_hash: proposalHash, reason: evalResult.reason, ...diagnostics, ...trace, gate_mode: mode
+    };
   }
 
   // Step 5: Issue authority token (ALLOW or HOLD)
@@ -149,8 +394,13 @@ async function _pipeline(
     .export({ type: 'spki', format: 'der' })
     .toString('hex');
 
-  const issuedAt = new Date();
-  const expiresAt = new Date(issuedAt.getTime() + TOKEN_TTL_MS);
+  // TTL is the scope's declaration; a token never outlives the rule that authorized it
+  const ttlMs = evalResult.scope ? evalResult.scope.token_ttl * 1000 : TOKEN_TTL_MS;
+  const ruleEnd = evalResult.decided_by?.valid_until;
+  const expiresAt = new Date(Math.min(
+    issuedAt.getTime() + ttlMs,
+    ruleEnd !== undefined ? Date.parse(ruleEnd) : Infinity
+  ));
   const auditRef = uuidv7();
   const tokenId = uuidv7();
 
@@ -161,8 +411,9 @@ async function _pipeline(
       policy_version: policyHash,
       gate_mode: mode,
       guard_version: GUARD_VERSION,
+      ...(evalResult.scope ? { scope: evalResult.scope.name } : {}),
       // audited_permit marks this token as allowed on policy miss (PERMISSIVE+allow_with_audit)
-      // The kernel runs all 7 steps regardless — this is for audit trail classification only.
+      // The kernel runs all 8 steps regardless — this is for audit trail classification only.
       ...(allowWithAudit && !coreAllowed ? { audited_permit: 'true' } : {})
     } as TokenScope['constraints'] & Record<string, string>
   };
@@ -194,7 +445,7 @@ async function _pipeline(
   };
 
   // Step 7: Log issuance
-  appendAuditRecord({
+  audit({
     event: `TOKEN_ISSUED_${tokenDecision}`,
     token_id: tokenId,
     audit_ref: auditRef,
@@ -202,18 +453,41 @@ async function _pipeline(
     policy_hash: policyHash,
     environment_fingerprint: envFingerprint,
     decision: tokenDecision,
+    decided_by: evalResult.decided_by,
+    ...(elevation ? { scope_elevation: elevation } : {}),
+    ...(quota ? { quota } : {}),
     command,
     args,
+    policy_path: policyPath,
     gate_mode: mode,
     guard_version: GUARD_VERSION,
     expires_at: expiresAt.toISOString(),
     timestamp: issuedAt.toISOString()
   });
 
+  // Step 8: Learning mode — only PERMISSIVE misses reach here without coreAllowed (not in a dry run)
+  if (options.learn && !coreAllowed && !dryRun) {
+    recordObservation(options.learn, {
+      command,
+      args,
+      decision: tokenDecision === 'HOLD' ? 'HOLD' : 'AUDITED_PERMIT',
+      proposal_hash: proposalHash,
+      context,
+      reason: evalResult.reason,
+      timestamp: issuedAt.toISOString()
+    });
+  }
+
   return {
     decision: pipelineDecision,
     proposal_hash: proposalHash,
-    reason: evalResult.reason,
+    reason,
+    ...(evalResult.decided_by ? { decided_by: evalResult.decided_by } : {}),
+    ...(evalResult.scope ? { scope: evalResult.scope } : {}),
+    ...(elevation ? { scope_elevation: elevation } : {}),
+    ...(quota ? { quota } : {}),
+    ...diagnostics,
+    ...trace,
     token,
     proposal,
     gate_mode: mode
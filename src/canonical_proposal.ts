@@ -2,32 +2,66 @@
  * Canonical Proposal — Stable, deterministic hash of an execution request.
  *
  * Same inputs MUST always produce the same hash.
- * Any change to command, args, policy, or time window = different hash.
+ * Any change to command, args, resolved binary, policy, or time window = different hash.
  *
  * This is the root of the audit chain. Every token is bound to this hash.
  */
 
 import { createHash } from 'crypto';
-import { readFileSync, existsSync } from 'fs';
+import { existsSync } from 'fs';
+import { compilePolicy } from './core/policy_index.js';
+import { canonicalStringify } from './canonical_stringify.js';
+import { resolveExecutable } from './executable_resolver.js';
+import type { EvaluationContext } from './core/conditions.js';
+import { readSignatureFile, type PolicySignatureBinding } from './core/policy_signature.js';
 
 export interface CanonicalProposal {
   command: string;
   args: string[];
   policy_path: string;
-  policy_hash: string;   // SHA256 of policy.yaml content
+  policy_hash: string;   // SHA256 of the resolved policy set (see hashPolicyFile)
   guard_version: string;
   timestamp_floor: string; // Floored to 60s — defines token TTL window
+  context: EvaluationContext; // event/ref/actor/repository the decision was made for
+  executable_path: string;  // argv[0] resolved to an absolute, symlink-free path
+  executable_hash: string;  // SHA256 of that binary — re-checked by kernel step 8
+  policy_signature?: PolicySignatureBinding; // signed policy: policy_hash binds the signature too
+}
+
+function sha256(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex');
 }
 
 /**
- * Hash the policy file content deterministically.
+ * Hash the fully resolved policy set deterministically.
+ *
+ * Single-file policy: SHA256(file content) — unchanged from earlier versions.
+ * With extends/include: SHA256 over the ordered list of
+ *   { path (relative to the root policy's directory), sha256(content) }
+ * so editing ANY contributing file changes the hash (POLICY_HASH_MISMATCH).
+ *
+ * Signed policy (see core/policy_signature.ts): SHA256 over
+ *   { key_id, policy_hash: <digest above>, signature }
+ * so the token proves which signed policy — and which key — authorized the run.
+ *
+ * The set is read through the compiled policy cache (core/policy_index.ts):
+ * repeated calls for unchanged files do not re-parse them.
+ *
  * Returns 'policy_not_found' if file is missing — triggers DENY at evaluate().
+ * Returns 'policy_resolve_error' if extends/include cannot be resolved.
+ * Returns 'policy_signature_not_found' if the signature file is missing.
  */
-export function hashPolicyFile(policyPath: string): string {
+export function hashPolicyFile(policyPath: string, signature?: PolicySignatureBinding): string {
+  if (signature) {
+    const digest = hashPolicyFile(policyPath);
+    if (!/^[0-9a-f]{64}$/.test(digest)) return digest;
+    const encoded = readSignatureFile(signature.signature_path);
+    if (encoded === null) return 'policy_signature_not_found';
+    return sha256(canonicalStringify({ key_id: signature.key_id, policy_hash: digest, signature: encoded }));
+  }
   try {
     if (!existsSync(policyPath)) return 'policy_not_found';
-    const content = readFileSync(policyPath, 'utf8');
-    return createHash('sha256').update(content, 'utf8').digest('hex');
+    return compilePolicy(policyPath).hash;
   } catch {
     return 'policy_read_error';
   }
@@ -36,22 +70,34 @@ export function hashPolicyFile(policyPath: string): string {
 /**
  * Build canonical proposal from execution inputs.
  * timestamp_floor is floored to the current 60-second window.
+ * context is bound so a token cannot be reused under another event/ref/actor.
+ * argv[0] is resolved on PATH and pinned by path + content hash, so a token
+ * issued for /usr/bin/npm cannot run a shim that appears earlier on PATH later.
+ * The hash comes from the resolver's cache while the binary is unchanged.
+ * signature (signed policies only) is bound so kernel step 5 re-checks it.
  */
 export function buildCanonicalProposal(
   command: string,
   args: string[],
-  policyPath: string
+  policyPath: string,
+  context: EvaluationContext,
+  signature?: PolicySignatureBinding
 ): CanonicalProposal {
   const now = new Date();
   now.setSeconds(0, 0); // Floor to minute boundary
+  const executable = resolveExecutable(command);
 
   return {
     command,
     args: [...args], // Defensive copy — preserve order
     policy_path: policyPath,
-    policy_hash: hashPolicyFile(policyPath),
+    policy_hash: hashPolicyFile(policyPath, signature),
     guard_version: process.env['GUARD_VERSION'] ?? '0.3.0',
-    timestamp_floor: now.toISOString()
+    timestamp_floor: now.toISOString(),
+    context: { ...context },
+    executable_path: executable.path,
+    executable_hash: executable.sha256,
+    ...(signature ? { policy_signature: { ...signature } } : {})
   };
 }
 
@@ -0,0 +1,17 @@
+/**
+ * Shell Wrapper — Entry Point (`execution-guard <script-file>`)
+ *
+ * Guards the script (src/shell.ts) and exits with its code. Kept separate
+ * so runShell() can be driven end to end in-process by tests.
+ */
+
+import * as core from '@actions/core';
+import { runShell } from '../shell.js';
+
+runShell(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (err) => {
+    core.error(`Unexpected error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+);
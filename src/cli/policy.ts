@@ -0,0 +1,239 @@
+/**
+ * Policy CLI — maintenance commands for policy files.
+ *
+ *   npm run policy -- test <file.test.yaml>... [--format tap|junit] [--output <path>]
+ *   npm run policy -- diff <old.yaml> <new.yaml> [--format markdown|json] [--output <path>]
+ *   npm run policy -- sign <policy.yaml> --key <ed25519-private.pem> [--output <path>]
+ *   npm run policy -- learn <observations.jsonl>... [--catalog <catalog.yaml>] [--output <path>]
+ *   npm run policy -- schema [--output <path>]
+ *   npm run policy -- coverage <policy.yaml> <audit.jsonl>... [--since <iso>] [--until <iso>]
+ *                              [--min-misses <n>] [--format markdown|json] [--output <path>]
+ *
+ * Exit codes: 0 = ok, 1 = test failures, 2 = usage or malformed input.
+ *
+ * Never executes the commands under test — the pipeline is run up to the
+ * decision only; the kernel is not involved.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import {
+  formatJUnit,
+  formatTap,
+  loadPolicyTestFile,
+  PolicyTestFileError,
+  runPolicyTests,
+  type PolicyTestReport
+} from '../tools/policy_test.js';
+import { diffPolicies, formatDiffJson, formatDiffMarkdown, InvalidPolicyError } from '../tools/policy_diff.js';
+import { hashPolicyFile } from '../canonical_proposal.js';
+import { defaultSignaturePath, signPolicyDigest } from '../core/policy_signature.js';
+import {
+  DEFAULT_COMMAND_CATALOG,
+  formatCandidatePolicy,
+  generateCandidatePolicy,
+  LearnInputError,
+  loadCommandCatalog,
+  loadObservations
+} from '../tools/policy_learn.js';
+import { formatPolicySchema } from '../core/policy_schema.js';
+import {
+  buildCoverageReport,
+  CoverageInputError,
+  formatCoverageJson,
+  formatCoverageMarkdown,
+  loadAuditRecords
+} from '../tools/policy_coverage.js';
+
+const USAGE = `Usage:
+  policy test <file.test.yaml>... [--format tap|junit] [--output <path>]
+  policy diff <old.yaml> <new.yaml> [--format markdown|json] [--output <path>]
+  policy sign <policy.yaml> --key <ed25519-private.pem> [--output <path>]
+  policy learn <observations.jsonl>... [--catalog <catalog.yaml>] [--output <path>]
+  policy schema [--output <path>]
+  policy coverage <policy.yaml> <audit.jsonl>... [--since <iso>] [--until <iso>] [--min-misses <n>]
+                  [--format markdown|json] [--output <path>]`;
+
+class UsageError extends Error {}
+
+function emit(text: string, output: string | undefined): void {
+  if (output) {
+    writeFileSync(output, text, 'utf8');
+  } else {
+    process.stdout.write(text);
+  }
+}
+
+async function testCommand(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', default: 'tap' },
+      output: { type: 'string' }
+    }
+  });
+  if (positionals.length === 0) throw new UsageError('test: at least one test file is required');
+  if (values.format !== 'tap' && values.format !== 'junit') {
+    throw new UsageError(`test: --format must be tap or junit, got "${values.format}"`);
+  }
+
+  const reports: PolicyTestReport[] = [];
+  for (const file of positionals) {
+    reports.push(await runPolicyTests(loadPolicyTestFile(file)));
+  }
+  emit(values.format === 'junit' ? formatJUnit(reports) : formatTap(reports), values.output);
+  return reports.some((r) => r.failed > 0) ? 1 : 0;
+}
+
+async function diffCommand(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', default: 'markdown' },
+      output: { type: 'string' }
+    }
+  });
+  if (positionals.length !== 2) throw new UsageError('diff: exactly two policy files are required');
+  if (values.format !== 'markdown' && values.format !== 'json') {
+    throw new UsageError(`diff: --format must be markdown or json, got "${values.format}"`);
+  }
+
+  const diff = diffPolicies(positionals[0]!, positionals[1]!);
+  emit(values.format === 'json' ? formatDiffJson(diff) : formatDiffMarkdown(diff), values.output);
+  return 0;
+}
+
+/** Writes <policy>.sig (or --output) over the resolved policy set digest. */
+async function signCommand(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      key: { type: 'string' },
+      output: { type: 'string' }
+    }
+  });
+  if (positionals.length !== 1) throw new UsageError('sign: exactly one policy file is required');
+  if (!values.key) throw new UsageError('sign: --key <ed25519-private.pem> is required');
+
+  const policyPath = positionals[0]!;
+  const signature = signPolicyDigest(hashPolicyFile(policyPath), readFileSync(values.key, 'utf8'));
+  const output = values.output ?? defaultSignaturePath(policyPath);
+  writeFileSync(output, signature, 'utf8');
+  process.stderr.write(`signed ${policyPath} → ${output}\n`);
+  return 0;
+}
+
+/** Candidate policy from learning-mode logs; --catalog entries override the built-in catalog. */
+async function learnCommand(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      catalog: { type: 'string' },
+      output: { type: 'string' }
+    }
+  });
+  if (positionals.length === 0) throw new UsageError('learn: at least one observation log is required');
+
+  const observations = positionals.flatMap((file) => loadObservations(file));
+  if (observations.length === 0) throw new UsageError('learn: the observation logs contain no observations');
+  const catalog = values.catalog
+    ? { ...DEFAULT_COMMAND_CATALOG, ...loadCommandCatalog(values.catalog) }
+    : DEFAULT_COMMAND_CATALOG;
+  const candidate = generateCandidatePolicy(observations, catalog);
+  emit(formatCandidatePolicy(candidate, positionals.join(', ')), values.output);
+  return 0;
+}
+
+/** The policy JSON Schema — what schemas/policy.v<N>.schema.json is generated from. */
+async function schemaCommand(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      output: { type: 'string' }
+    }
+  });
+  if (positionals.length !== 0) throw new UsageError('schema: takes no arguments');
+
+  emit(formatPolicySchema(), values.output);
+  return 0;
+}
+
+/** Per-rule decision counts from audit logs; dead rules and frequent misses flagged. */
+async function coverageCommand(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      since: { type: 'string' },
+      until: { type: 'string' },
+      'min-misses': { type: 'string' },
+      format: { type: 'string', default: 'markdown' },
+      output: { type: 'string' }
+    }
+  });
+  if (positionals.length < 2) throw new UsageError('coverage: a policy file and at least one audit log are required');
+  if (values.format !== 'markdown' && values.format !== 'json') {
+    throw new UsageError(`coverage: --format must be markdown or json, got "${values.format}"`);
+  }
+  for (const key of ['since', 'until'] as const) {
+    if (values[key] !== undefined && Number.isNaN(Date.parse(values[key]!))) {
+      throw new UsageError(`coverage: --${key} must be an ISO 8601 date or date-time, got "${values[key]}"`);
+    }
+  }
+  const minMisses = values['min-misses'] !== undefined ? Number(values['min-misses']) : undefined;
+  if (minMisses !== undefined && !(Number.isInteger(minMisses) && minMisses >= 1)) {
+    throw new UsageError(`coverage: --min-misses must be a positive integer, got "${values['min-misses']}"`);
+  }
+
+  const [policyPath, ...logs] = positionals;
+  const report = buildCoverageReport(policyPath!, logs.flatMap((log) => loadAuditRecords(log)), {
+    ...(values.since !== undefined ? { since: values.since } : {}),
+    ...(values.until !== undefined ? { until: values.until } : {}),
+    ...(minMisses !== undefined ? { min_misses: minMisses } : {})
+  });
+  emit(values.format === 'json' ? formatCoverageJson(report) : formatCoverageMarkdown(report), values.output);
+  return 0;
+}
+
+const COMMANDS: Record<string, (argv: string[]) => Promise<number>> = {
+  test: testCommand,
+  diff: diffCommand,
+  sign: signCommand,
+  learn: learnCommand,
+  schema: schemaCommand,
+  coverage: coverageCommand
+};
+
+async function main(argv: string[]): Promise<number> {
+  const [name, ...rest] = argv;
+  const command = name !== undefined ? COMMANDS[name] : undefined;
+  try {
+    if (!command) throw new UsageError(name === undefined ? 'missing command' : `unknown command "${name}"`);
+    return await command(rest);
+  } catch (err) {
+    const parseArgsError = String((err as { code?: unknown }).code ?? '').startsWith('ERR_PARSE_ARGS');
+    if (err instanceof UsageError || parseArgsError) {
+      process.stderr.write(`${(err as Error).message}\n${USAGE}\n`);
+      return 2;
+    }
+    if (err instanceof PolicyTestFileError || err instanceof InvalidPolicyError || err instanceof LearnInputError ||
+        err instanceof CoverageInputError) {
+      process.stderr.write(`${err.message}\n`);
+      return 2;
+    }
+    throw err;
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (code) => { process.exitCode = code; },
+  (err) => {
+    process.stderr.write(`policy: ${err instanceof Error ? err.message : String(err)}\n`);
+    process.exitCode = 2;
+  }
+);
@@ -0,0 +1,334 @@
+/**
+ * Command Guard — pipeline → verdict branching → kernel for each command of
+ * a run, shared by the action (main.ts) and the shell wrapper (shell.ts).
+ *
+ *   guardCommands(commands, settings, onFailure)
+ *     for each command, in order:
+ *       runAuthorityPipeline()      decision + token
+ *       ALLOW → executeWithAuthority()   (dry run: dryRunWithAuthority())
+ *       STOP / HOLD → annotation on the deciding policy line
+ *     → one CommandOutcome per command (SKIPPED after a failure with on_failure: stop)
+ *
+ * Logs and annotations go to stdout as workflow commands; what a run does
+ * with the outcomes (step outputs, exit code) is the caller's business.
+ */
+
+import * as core from '@actions/core';
+import { relative } from 'path';
+import { runAuthorityPipeline, type PipelineOptions } from './authority_pipeline.js';
+import {
+  dryRunWithAuthority,
+  executeWithAuthority,
+  type VerificationStep,
+  type VerifiedToken
+} from './execution_kernel.js';
+import type { GateMode } from './config/mode.js';
+import type { CommandInput } from './config/command.js';
+import { ExecutionDeniedError } from './errors.js';
+import type { DecidingRule } from './core/evaluate.js';
+import { compilePolicy } from './core/policy_index.js';
+import type { SourceLocation } from './core/policy_loader.js';
+import type { PolicyDiagnostic } from './core/policy_validator.js';
+import { formatTraceMarkdown, type EvaluationTrace } from './core/explain.js';
+import { formatJobSummaryMarkdown } from './job_summary.js';
+
+/** Policy validator diagnostics → GitHub annotations on the policy file. */
+function annotateDiagnostics(diagnostics: PolicyDiagnostic[]): void {
+  for (const d of diagnostics) {
+    const props: core.AnnotationProperties = {
+      title: `Execution Guard policy ${d.code}${d.rule_index !== undefined ? ` (rules[${d.rule_index}])` : ''}`,
+      file: relative(process.cwd(), d.file),
+      startLine: d.line,
+      startColumn: d.column
+    };
+    if (d.severity === 'error') {
+      core.error(d.message, props);
+    } else {
+      core.warning(d.message, props);
+    }
+  }
+}
+
+/**
+ * Where a decision was made: the deciding rule (or the rule whose roots a
+ * path escaped), else the effective `default:` on a miss. None when the
+ * policy itself failed (its diagnostics say why).
+ */
+function decisionSource(policyPath: string, ruleIndex: number | undefined, policyFailed: boolean): SourceLocation | undefined {
+  if (policyFailed) return undefined;
+  const { locations } = compilePolicy(policyPath);
+  if (!locations) return undefined;
+  return ruleIndex !== undefined ? locations.rules[ruleIndex] : locations.default;
+}
+
+/** Label of the rule a decision points at: its id, else rules[i]; '' for the default. */
+function ruleLabel(policyPath: string, decided: DecidingRule | undefined, escaped: number | undefined): string {
+  if (decided) return decided.id ?? `rules[${decided.rule_index}]`;
+  if (escaped === undefined) return '';
+  return compilePolicy(policyPath).policy?.rules[escaped]?.id ?? `rules[${escaped}]`;
+}
+
+/** STOP / HOLD annotation properties pointing at the deciding policy line. */
+function decisionAnnotation(verdict: string, rule: string, source: SourceLocation | undefined): core.AnnotationProperties {
+  return {
+    title: `Execution Guard ${verdict} (${rule ? `rule ${rule}` : 'policy default'})`,
+    ...(source ? { file: relative(process.cwd(), source.file), startLine: source.line, startColumn: source.column } : {})
+  };
+}
+
+/** Explain mode → job summary. No-op outside a runner (no GITHUB_STEP_SUMMARY). */
+async function summarizeTrace(trace: EvaluationTrace | undefined): Promise<void> {
+  if (!trace || !process.env['GITHUB_STEP_SUMMARY']) return;
+  await core.summary.addRaw(formatTraceMarkdown(trace), true).write();
+}
+
+/** on_failure input: what a batch does after a failed command. */
+export const ON_FAILURE = ['stop', 'continue'] as const;
+export type OnFailure = typeof ON_FAILURE[number];
+
+/** What happened to one command — one element of the `results` output. */
+export interface CommandOutcome {
+  index: number;
+  command: string;
+  args: string[];
+  /** Pipeline decision; SKIPPED = not evaluated (batch stopped earlier) */
+  verdict: 'ALLOW' | 'HOLD' | 'STOP' | 'SKIPPED';
+  proposal_hash: string;
+  token_id: string;
+  audit_ref: string;
+  environment_fingerprint: string;
+  reason: string;
+  /** Deciding rule (path escape: the escaped rule): id, else rules[i] — '' on a policy miss */
+  rule: string;
+  /** `file:line` of that rule, or of `default:` on a miss — '' when the policy failed */
+  rule_source: string;
+  /** Scope of the deciding ALLOW rule — '' otherwise */
+  scope: string;
+  /** Exit code of the command — null when it was not executed */
+  exit_code: number | null;
+  /** Pipeline through exit — null when skipped */
+  duration_ms: number | null;
+  /** Kernel refusal (ExecutionDeniedError type) — null otherwise */
+  error_type: string | null;
+  /** STOP, HOLD with fail_on_hold, kernel refusal or non-zero exit (dry run: a failing step) */
+  failed: boolean;
+  /** Dry run: the kernel's verification steps for the issued token */
+  verification?: VerificationStep[];
+  /** Dry run: the token execution would have used */
+  token?: VerifiedToken;
+}
+
+/** Settings shared by every command of a run. */
+export interface GuardSettings {
+  policyPath: string;
+  mode: GateMode;
+  allowWithAudit: boolean;
+  failOnHold: boolean;
+  batch: boolean;
+  dryRun: boolean;
+  options: PipelineOptions;
+}
+
+/** Exit code a failed outcome contributes: the command's own, else 1. */
+export function outcomeExitCode(outcome: CommandOutcome): number {
+  if (!outcome.failed) return 0;
+  return outcome.exit_code !== null && outcome.exit_code !== 0 ? outcome.exit_code : 1;
+}
+
+/** Pipeline → verdict branching → kernel for one command. Never throws for a refused token. */
+async function guardCommand(input: CommandInput, index: number, settings: GuardSettings): Promise<CommandOutcome> {
+  const { command, args } = input;
+  const { policyPath, mode } = settings;
+
+  // Run authority pipeline (Front Gate + Token Issuance)
+  const pipelineResult = await runAuthorityPipeline(
+    command, args, policyPath, mode, settings.allowWithAudit, settings.options
+  );
+
+  annotateDiagnostics(pipelineResult.diagnostics ?? []);
+  await summarizeTrace(pipelineResult.trace);
+
+  // Structured log line — one per decision event
+  const logEntry = {
+    ...(settings.batch ? { index } : {}),
+    ...(settings.dryRun ? { dry_run: true } : {}),
+    decision: pipelineResult.decision,
+    proposal_hash: pipelineResult.proposal_hash,
+    token_id: pipelineResult.token?.token_id ?? null,
+    policy_hash: pipelineResult.token?.policy_hash ?? null,
+    environment_fingerprint: pipelineResult.token?.environment_fingerprint ?? null,
+    reason: pipelineResult.reason,
+    executed: false,
+    gate_mode: mode,
+    audited_permit: pipelineResult.token !== undefined &&
+      (pipelineResult.token.scope.constraints as Record<string, string>)['audited_permit'] === 'true',
+    policy_diagnostics: pipelineResult.diagnostics ?? [],
+    ...(pipelineResult.trace ? { trace: pipelineResult.trace } : {}),
+    error_type: null as string | null
+  };
+  process.stdout.write(JSON.stringify(logEntry) + '\n');
+
+  // Legacy human-readable output
+  console.log(`DECISION:      ${pipelineResult.decision}`);
+  console.log(`PROPOSAL_HASH: ${pipelineResult.proposal_hash}`);
+  console.log(`REASON:        ${pipelineResult.reason}`);
+
+  const decided = pipelineResult.decided_by;
+  const escaped = pipelineResult.path_violation_rule;
+  const rule = ruleLabel(policyPath, decided, escaped);
+  const source = decisionSource(policyPath, decided?.rule_index ?? escaped, pipelineResult.policy_failure !== undefined);
+  const annotation = decisionAnnotation(pipelineResult.decision, rule, source);
+  const invocation = [command, ...args].join(' ');
+
+  const outcome: CommandOutcome = {
+    index,
+    command,
+    args,
+    verdict: pipelineResult.decision,
+    proposal_hash: pipelineResult.proposal_hash,
+    token_id: pipelineResult.token?.token_id ?? '',
+    audit_ref: pipelineResult.token?.audit_ref ?? '',
+    environment_fingerprint: pipelineResult.token?.environment_fingerprint ?? '',
+    reason: pipelineResult.reason,
+    rule,
+    rule_source: source ? `${relative(process.cwd(), source.file)}:${source.line}` : '',
+    scope: pipelineResult.scope?.name ?? '',
+    exit_code: null,
+    duration_ms: null,
+    error_type: null,
+    failed: true
+  };
+
+  // --- Dry run: verify, never spawn ---
+
+  if (settings.dryRun && pipelineResult.token && pipelineResult.proposal) {
+    const dry = dryRunWithAuthority(pipelineResult.proposal, pipelineResult.token);
+    console.log(`\n🔎 DRY RUN (${pipelineResult.decision}, ${mode}): ${command} ${args.join(' ')} — not executed`);
+    for (const step of dry.steps) {
+      console.log(`   ${step.passed ? '✓' : '✗'} step ${step.step} ${step.name}${step.passed ? '' : ` — ${step.error_type}: ${step.reason}`}`);
+    }
+    console.log(`   token_id:  ${dry.token_id}`);
+    const failed = pipelineResult.decision === 'HOLD' ? settings.failOnHold : !dry.would_execute;
+    if (failed) {
+      core.error(`Dry run: ${invocation} would not be executed — ${pipelineResult.reason}. DECISION: ${pipelineResult.decision}`,
+        pipelineResult.decision === 'HOLD' ? annotation : {});
+    }
+    return { ...outcome, failed, verification: dry.steps, token: pipelineResult.token };
+  }
+
+  // --- Verdict branching ---
+
+  if (pipelineResult.decision === 'ALLOW') {
+    if (!pipelineResult.token || !pipelineResult.proposal) {
+      core.error('[INVARIANT VIOLATION] ALLOW with no token. STOP.');
+      return outcome;
+    }
+
+    console.log(`\n✅ Execution permitted (${mode}): ${command} ${args.join(' ')}`);
+    if (logEntry.audited_permit) {
+      core.warning(`Policy miss permitted by allow_with_audit: ${command} ${args.join(' ')}`);
+    }
+    console.log(`   token_id:  ${pipelineResult.token.token_id}`);
+    console.log(`   audit_ref: ${pipelineResult.token.audit_ref}`);
+
+    try {
+      const kernelResult = await executeWithAuthority(
+        command,
+        args,
+        pipelineResult.proposal,
+        pipelineResult.token
+      );
+      if (kernelResult.exit_code !== 0) {
+        core.error(`Command exited with code ${kernelResult.exit_code}`);
+      }
+      return { ...outcome, exit_code: kernelResult.exit_code, failed: kernelResult.exit_code !== 0 };
+
+    } catch (err) {
+      const isDenied = err instanceof ExecutionDeniedError;
+      const msg = err instanceof Error ? err.message : String(err);
+      const errType = isDenied ? (err as ExecutionDeniedError).error_type : 'UNKNOWN';
+      console.error(`\n❌ KERNEL VERIFICATION FAILED [${errType}]: ${msg}`);
+      core.error(`Kernel verification failed [${errType}]: ${msg}`);
+      return { ...outcome, error_type: errType };
+    }
+
+  } else if (pipelineResult.decision === 'STOP') {
+    console.error('\n❌ EXECUTION BLOCKED (STOP)');
+    console.error(`   Command:   ${command} ${args.join(' ')}`);
+    console.error(`   Policy:    ${policyPath}`);
+    console.error(`   Mode:      ${mode}`);
+    console.error(`   Reason:    ${pipelineResult.reason}`);
+    core.error(`Execution denied by policy: ${invocation} — ${pipelineResult.reason}. DECISION: STOP`, annotation);
+    return outcome;
+
+  } else {
+    // HOLD — PERMISSIVE mode soft gate
+    console.warn(`\n⚠️  EXECUTION HELD (HOLD) — gate_mode=${mode}`);
+    console.warn(`   Command:   ${command} ${args.join(' ')}`);
+    console.warn(`   token_id:  ${pipelineResult.token?.token_id ?? 'none'}`);
+    if (settings.failOnHold) {
+      core.error(`Execution held by policy: ${invocation} — ${pipelineResult.reason}. DECISION: HOLD`, annotation);
+      return outcome;
+    } else {
+      core.warning(`Execution held by policy, fail_on_hold=false: ${invocation} — ${pipelineResult.reason}. DECISION: HOLD`, annotation);
+      return { ...outcome, failed: false };
+    }
+  }
+}
+
+/** Batch verdict: STOP if any command was stopped, else HOLD if any was held, else ALLOW. */
+export function aggregateVerdict(outcomes: CommandOutcome[]): 'ALLOW' | 'HOLD' | 'STOP' {
+  if (outcomes.some((o) => o.verdict === 'STOP')) return 'STOP';
+  if (outcomes.some((o) => o.verdict === 'HOLD')) return 'HOLD';
+  return 'ALLOW';
+}
+
+/** `4 commands: 2 ALLOW, 1 STOP, 1 SKIPPED; 1 failed` */
+export function describeBatch(outcomes: CommandOutcome[]): string {
+  const counts = new Map<string, number>();
+  for (const o of outcomes) counts.set(o.verdict, (counts.get(o.verdict) ?? 0) + 1);
+  const verdicts = ['ALLOW', 'HOLD', 'STOP', 'SKIPPED']
+    .filter((v) => counts.has(v))
+    .map((v) => `${counts.get(v)} ${v}`)
+    .join(', ');
+  const failed = outcomes.filter((o) => o.failed).length;
+  return `${outcomes.length} commands: ${verdicts}; ${failed} failed`;
+}
+
+/**
+ * Guard commands in order. With on_failure: stop, the commands after the
+ * first failure are SKIPPED (not evaluated); continue runs them all.
+ * label names a command in its log header — batches only.
+ */
+export async function guardCommands(
+  commands: readonly CommandInput[],
+  settings: GuardSettings,
+  onFailure: OnFailure,
+  label?: (index: number) => string
+): Promise<CommandOutcome[]> {
+  const outcomes: CommandOutcome[] = [];
+  for (const [index, input] of commands.entries()) {
+    const stopped = onFailure === 'stop' && outcomes.some((o) => o.failed);
+    if (stopped) {
+      outcomes.push({
+        index, command: input.command, args: input.args, verdict: 'SKIPPED',
+        proposal_hash: '', token_id: '', audit_ref: '', environment_fingerprint: '',
+        reason: 'Not run: an earlier command failed (on_failure: stop)',
+        rule: '', rule_source: '', scope: '',
+        exit_code: null, duration_ms: null, error_type: null, failed: false
+      });
+      continue;
+    }
+    if (label) console.log(`\n── ${label(index)}: ${[input.command, ...input.args].join(' ')}`);
+    const started = Date.now();
+    const outcome = await guardCommand(input, index, settings);
+    outcomes.push({ ...outcome, duration_ms: Date.now() - started });
+  }
+  return outcomes;
+}
+
+/** Outcomes → job summary table. No-op outside a runner (no GITHUB_STEP_SUMMARY). */
+export async function summarizeOutcomes(outcomes: CommandOutcome[], settings: GuardSettings): Promise<void> {
+  if (!process.env['GITHUB_STEP_SUMMARY']) return;
+  await core.summary.addRaw(formatJobSummaryMarkdown(outcomes, settings.mode, settings.dryRun), true).write();
+}
@@ -0,0 +1,164 @@
+/**
+ * Command Tokenizer — a command line string → argv, without a shell.
+ *
+ * The action's `command` input is a single string; nothing ever hands it to
+ * a shell, so shell syntax that would silently change meaning is rejected
+ * instead of being passed through as literal arguments.
+ *
+ *   echo "hello world"        → [echo, hello world]
+ *   cat 'my file.txt'         → [cat, my file.txt]
+ *   touch a\ b                → [touch, a b]
+ *   echo "a|b" 'x;y'          → [echo, a|b, x;y]       (quoted = literal)
+ *   npm test | tee out        → CommandSyntaxError     (shell operator)
+ *   echo "$HOME"              → CommandSyntaxError     (expansion)
+ *   echo "oops                → CommandSyntaxError     (unbalanced quote)
+ *
+ * Rules:
+ *   - unquoted whitespace separates arguments; '' and "" are empty arguments
+ *   - '...'  everything literal up to the next '
+ *   - "..."  literal, except \" \\ \$ \` which yield the escaped character;
+ *            an unescaped $ or ` (shell expansion) is rejected
+ *   - \x     outside quotes: the character x, literally
+ *   - unquoted SHELL_METACHARACTERS operators | & ; < > ( ) $ ` and line
+ *     breaks are rejected; line breaks are rejected inside quotes too
+ *   - argv[0] must not contain SHELL_METACHARACTERS at all (as for OpenClaw
+ *     proposals) — quoting does not make `a|b` an executable name
+ *   - with `comments` (shell scripts, see shell_script.ts): an unquoted #
+ *     starting a word ends the command, as in sh; otherwise # is literal
+ *   - with `patterns` (shell scripts): unquoted words sh would expand are
+ *     rejected — globs * ? [...], a leading ~, braces {a,b} / {1..3};
+ *     otherwise they are literal (the action's `command` never meets a shell)
+ *
+ * Pure function; throws CommandSyntaxError naming the 1-based column.
+ */
+
+/** Characters that indicate a shell string rather than a bare command/arg. */
+export const SHELL_METACHARACTERS = /[|&;<>`$"'()\n\r]/;
+
+export interface TokenizeOptions {
+  /** Unquoted `#` at the start of a word begins a comment (default false: literal) */
+  comments?: boolean;
+  /** Unquoted glob, tilde and brace patterns are rejected (default false: literal) */
+  patterns?: boolean;
+}
+
+/** Escapable inside double quotes (POSIX sh). */
+const DOUBLE_QUOTE_ESCAPES = ['"', '\\', '$', '`'];
+
+export class CommandSyntaxError extends Error {
+  /** 1-based column of the offending character in the input */
+  readonly column: number;
+
+  constructor(message: string, column: number) {
+    super(`${message} (column ${column})`);
+    this.name = 'CommandSyntaxError';
+    this.column = column;
+  }
+}
+
+function describeOperator(ch: string, column: number): CommandSyntaxError {
+  if (ch === '\n' || ch === '\r') {
+    return new CommandSyntaxError('line break in command — one command per step, no shell scripts', column);
+  }
+  if (ch === '$' || ch === '`') {
+    return new CommandSyntaxError(`shell expansion "${ch}" is not supported — commands are not run by a shell; quote it with '...' for a literal`, column);
+  }
+  return new CommandSyntaxError(`shell operator "${ch}" is not supported — commands are not run by a shell; quote it for a literal argument`, column);
+}
+
+/**
+ * Unquoted `ch` at `i` that sh would expand, as the error naming it; null when
+ * literal. `[` needs a later `]` and `{` a `}` with `,` or `..` between,
+ * within the same word — `[ -f x ]` and `find -exec {}` stay literal.
+ */
+function describePattern(input: string, i: number, startsWord: boolean): CommandSyntaxError | null {
+  const ch = input[i]!;
+  const word = /^[^\s]*/.exec(input.slice(i))![0];
+  const column = i + 1;
+  if (ch === '*' || ch === '?' || (ch === '[' && word.includes(']', 1))) {
+    return new CommandSyntaxError(`shell glob "${ch}" is not supported — commands are not run by a shell; quote it for a literal argument`, column);
+  }
+  if (ch === '~' && startsWord) {
+    return new CommandSyntaxError('shell tilde expansion "~" is not supported — commands are not run by a shell; quote it for a literal argument', column);
+  }
+  if (ch === '{' && /^\{[^\s{}]*(,|\.\.)[^\s{}]*\}/.test(word)) {
+    return new CommandSyntaxError('shell brace expansion "{" is not supported — commands are not run by a shell; quote it for a literal argument', column);
+  }
+  return null;
+}
+
+/**
+ * Split a command line into argv.
+ * @throws CommandSyntaxError on unbalanced quotes, a dangling backslash,
+ *   shell operators/expansions (and, with `patterns`, unquoted patterns),
+ *   or an empty command.
+ */
+export function tokenizeCommand(input: string, options: TokenizeOptions = {}): string[] {
+  const argv: string[] = [];
+  let current = '';
+  let inToken = false;
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i]!;
+    const column = i + 1;
+
+    if (ch === ' ' || ch === '\t') {
+      if (inToken) argv.push(current);
+      current = '';
+      inToken = false;
+      i++;
+      continue;
+    }
+
+    if (!inToken && ch === '#' && options.comments) break;
+
+    const startsWord = !inToken;
+    inToken = true;
+    if (ch === '\\') {
+      if (i + 1 >= input.length) throw new CommandSyntaxError('dangling backslash at end of command', column);
+      const next = input[i + 1]!;
+      if (next === '\n' || next === '\r') throw describeOperator(next, column + 1);
+      current += next;
+      i += 2;
+    } else if (ch === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) throw new CommandSyntaxError('unbalanced single quote', column);
+      const quoted = input.slice(i + 1, end);
+      const lineBreak = quoted.search(/[\n\r]/);
+      if (lineBreak !== -1) throw describeOperator(quoted[lineBreak]!, column + 1 + lineBreak);
+      current += quoted;
+      i = end + 1;
+    } else if (ch === '"') {
+      i++;
+      for (;;) {
+        if (i >= input.length) throw new CommandSyntaxError('unbalanced double quote', column);
+        const q = input[i]!;
+        if (q === '"') break;
+        if (q === '\\' && i + 1 < input.length && DOUBLE_QUOTE_ESCAPES.includes(input[i + 1]!)) {
+          current += input[i + 1];
+          i += 2;
+          continue;
+        }
+        if (q === '$' || q === '`' || q === '\n' || q === '\r') throw describeOperator(q, i + 1);
+        current += q;
+        i++;
+      }
+      i++;
+    } else if (SHELL_METACHARACTERS.test(ch)) {
+      throw describeOperator(ch, column);
+    } else {
+      const pattern = options.patterns ? describePattern(input, i, startsWord) : null;
+      if (pattern) throw pattern;
+      current += ch;
+      i++;
+    }
+  }
+  if (inToken) argv.push(current);
+
+  if (argv.length === 0 || argv[0] === '') throw new CommandSyntaxError('empty command', 1);
+  if (SHELL_METACHARACTERS.test(argv[0]!)) {
+    throw new CommandSyntaxError(`command contains shell metacharacters: ${JSON.stringify(argv[0])}`, 1);
+  }
+  return argv;
+}
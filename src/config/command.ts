@@ -0,0 +1,96 @@
+/**
+ * Command Input — the action's `command` (and optional `args`) or `commands` → argv.
+ *
+ *   command: echo "hello world"              tokenized (command_tokenizer.ts)
+ *
+ *   command: terraform                       executable only, taken as is
+ *   args: '["plan", "-out", "my plan"]'      JSON array of strings, no tokenizing
+ *
+ *   commands: |                              batch, run in order; YAML list or
+ *     - npm ci                               JSON array. A string item is
+ *     - npm test -- --reporter "dot"         tokenized, an array item is argv.
+ *     - [terraform, plan, -out, my plan]
+ *
+ * Read from the environment exactly once, at the entry point.
+ */
+
+import { parse } from 'yaml';
+import { CommandSyntaxError, SHELL_METACHARACTERS, tokenizeCommand } from '../command_tokenizer.js';
+
+export interface CommandInput {
+  command: string;
+  args: string[];
+}
+
+/**
+ * Build argv from INPUT_COMMAND / INPUT_ARGS.
+ * @throws Error (or CommandSyntaxError) naming the input that is malformed.
+ */
+export function parseCommandFromEnv(env: NodeJS.ProcessEnv = process.env): CommandInput {
+  const raw = (env['INPUT_COMMAND'] ?? '').trim();
+  const rawArgs = (env['INPUT_ARGS'] ?? '').trim();
+  if (!raw) throw new Error('command (or commands) is required but was not provided.');
+
+  if (!rawArgs) {
+    const [command, ...args] = tokenizeCommand(raw);
+    return { command: command!, args };
+  }
+
+  if (/\s/.test(raw) || SHELL_METACHARACTERS.test(raw)) {
+    throw new Error(`command must be a single executable when args is set, got ${JSON.stringify(raw)}.`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawArgs);
+  } catch (err) {
+    throw new Error(`args must be a JSON array of strings: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!Array.isArray(parsed)) throw new Error('args must be a JSON array of strings.');
+  parsed.forEach((arg, i) => {
+    if (typeof arg !== 'string') throw new Error(`args[${i}] must be a string, got ${JSON.stringify(arg)}.`);
+    if (/[\n\r]/.test(arg)) throw new Error(`args[${i}] contains a line break.`);
+  });
+  return { command: raw, args: parsed as string[] };
+}
+
+/**
+ * Build the batch from INPUT_COMMANDS. undefined = not a batch (single `command`).
+ * @throws Error naming the offending item, or when combined with command/args.
+ */
+export function parseCommandListFromEnv(env: NodeJS.ProcessEnv = process.env): CommandInput[] | undefined {
+  const raw = (env['INPUT_COMMANDS'] ?? '').trim();
+  if (!raw) return undefined;
+  if ((env['INPUT_COMMAND'] ?? '').trim() || (env['INPUT_ARGS'] ?? '').trim()) {
+    throw new Error('commands cannot be combined with command or args.');
+  }
+  let parsed: unknown;
+  try {
+    parsed = parse(raw);
+  } catch (err) {
+    throw new Error(`commands must be a YAML list or JSON array: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error('commands must be a non-empty YAML list or JSON array.');
+  }
+  return parsed.map((item, i): CommandInput => {
+    if (typeof item === 'string') {
+      try {
+        const [command, ...args] = tokenizeCommand(item);
+        return { command: command!, args };
+      } catch (err) {
+        if (err instanceof CommandSyntaxError) throw new Error(`commands[${i}]: ${err.message}`);
+        throw err;
+      }
+    }
+    if (!Array.isArray(item) || item.length === 0 || item.some((arg) => typeof arg !== 'string')) {
+      throw new Error(`commands[${i}] must be a command string or a non-empty array of strings, got ${JSON.stringify(item)}.`);
+    }
+    const [command, ...args] = item as string[];
+    if (!command || /\s/.test(command) || SHELL_METACHARACTERS.test(command)) {
+      throw new Error(`commands[${i}][0] must be a single executable, got ${JSON.stringify(command)}.`);
+    }
+    const lineBreak = args.findIndex((arg) => /[\n\r]/.test(arg));
+    if (lineBreak !== -1) throw new Error(`commands[${i}][${lineBreak + 1}] contains a line break.`);
+    return { command, args };
+  });
+}
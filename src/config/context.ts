@@ -0,0 +1,40 @@
+/**
+ * Evaluation Context — the GitHub run values rules may be conditioned on,
+ * and the runner directories `path` matchers confine arguments to.
+ *
+ * Read from the environment exactly once, at the entry point, and passed
+ * explicitly through the pipeline to evaluate(); the run values are also
+ * bound into the canonical proposal. Core code never reads these variables
+ * itself.
+ */
+
+import type { EvaluationContext } from '../core/conditions.js';
+import { PATH_ROOT_NAMES, type PathRoots } from '../core/path_matcher.js';
+
+/**
+ * Build the evaluation context from GitHub Actions environment variables.
+ * Missing variables become '' (unknown) — conditions on them never match.
+ */
+export function parseContextFromEnv(env: NodeJS.ProcessEnv = process.env): EvaluationContext {
+  return {
+    event_name: env['GITHUB_EVENT_NAME'] ?? '',
+    ref: env['GITHUB_REF'] ?? '',
+    actor: env['GITHUB_ACTOR'] ?? '',
+    repository: env['GITHUB_REPOSITORY'] ?? ''
+  };
+}
+
+/**
+ * Build the `path` matcher roots from GITHUB_WORKSPACE / RUNNER_TEMP.
+ * Relative arguments resolve against the process working directory — the
+ * directory the kernel spawns in. Unset variables are left out; a rule naming
+ * only unset roots never matches.
+ */
+export function parsePathRootsFromEnv(env: NodeJS.ProcessEnv = process.env, cwd: string = process.cwd()): PathRoots {
+  const roots: PathRoots['roots'] = {};
+  for (const name of PATH_ROOT_NAMES) {
+    const dir = (env[name] ?? '').trim();
+    if (dir) roots[name] = dir;
+  }
+  return { cwd, roots };
+}
@@ -0,0 +1,43 @@
+/**
+ * Action Inputs — strict parsing of the action's boolean and choice inputs.
+ *
+ * A typo in a workflow (`explain: yes`, `allow_with_audit: ture`) fails the
+ * step instead of silently falling back to a default the author did not
+ * choose. Accepted values follow the YAML 1.2 core schema, as
+ * core.getBooleanInput does: true | True | TRUE | false | False | FALSE.
+ * Choice inputs match one of a fixed list of values, case-insensitively.
+ * Empty or unset = the input's default.
+ */
+
+const TRUE_VALUES = ['true', 'True', 'TRUE'];
+const FALSE_VALUES = ['false', 'False', 'FALSE'];
+
+/**
+ * Read boolean input `name` (INPUT_<NAME>).
+ * @throws Error on any value outside the YAML 1.2 boolean set.
+ */
+export function parseBooleanInput(name: string, fallback: boolean, env: NodeJS.ProcessEnv = process.env): boolean {
+  const raw = (env[`INPUT_${name.toUpperCase()}`] ?? '').trim();
+  if (!raw) return fallback;
+  if (TRUE_VALUES.includes(raw)) return true;
+  if (FALSE_VALUES.includes(raw)) return false;
+  throw new Error(`${name} must be true or false, got "${raw}".`);
+}
+
+/**
+ * Read choice input `name` (INPUT_<NAME>), case-insensitive; returns the
+ * listed spelling.
+ * @throws Error on any value not in choices.
+ */
+export function parseChoiceInput<T extends string>(
+  name: string,
+  choices: readonly T[],
+  fallback: T,
+  env: NodeJS.ProcessEnv = process.env
+): T {
+  const raw = (env[`INPUT_${name.toUpperCase()}`] ?? '').trim();
+  if (!raw) return fallback;
+  const choice = choices.find((c) => c.toLowerCase() === raw.toLowerCase());
+  if (choice === undefined) throw new Error(`${name} must be one of ${choices.join(', ')}, got "${raw}".`);
+  return choice;
+}
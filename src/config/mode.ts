@@ -22,11 +22,17 @@ export enum GateMode {
 }
 
 /**
- * Parse gate mode from environment variable or string input.
- * Defaults to STRICT on any unknown/missing value.
+ * Parse gate mode from INPUT_GATE_MODE (else GATE_MODE), case-insensitive.
+ * Missing/empty = STRICT.
+ * @throws Error on any other value — a misspelt mode is a configuration
+ *   error, not a request for the default.
  */
-export function parseModeFromEnv(): GateMode {
-  const raw = (process.env['INPUT_GATE_MODE'] ?? process.env['GATE_MODE'] ?? '').toUpperCase();
-  if (raw === 'PERMISSIVE') return GateMode.PERMISSIVE;
-  return GateMode.STRICT; // Fail-strict: unknown mode = STRICT
+export function parseModeFromEnv(env: NodeJS.ProcessEnv = process.env): GateMode {
+  const raw = (env['INPUT_GATE_MODE'] ?? env['GATE_MODE'] ?? '').trim();
+  if (!raw) return GateMode.STRICT;
+  const mode = Object.values(GateMode).find((m) => m === raw.toUpperCase());
+  if (mode === undefined) {
+    throw new Error(`gate_mode must be one of ${Object.values(GateMode).join(', ')}, got "${raw}".`);
+  }
+  return mode;
 }
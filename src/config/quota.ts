@@ -0,0 +1,27 @@
+/**
+ * Quota Counters — where the action and the shell wrapper count `max_executions`.
+ *
+ * Each guarded step is its own process, so the in-process default store
+ * would start from zero at every `uses:` step and every wrapped `run:` step.
+ * With RUNNER_TEMP set (every Actions job) the counters live in one file
+ * there instead (FileCounterStore), and span every guarded step of the job:
+ *
+ *   per: run      the run's guarded steps in this job
+ *   per: window   windows counted across this job's steps — RUNNER_TEMP is
+ *                 emptied per job, so nothing is shared with other jobs or runs
+ *
+ * Without RUNNER_TEMP (local runs) counting stays in-process.
+ * Read from the environment exactly once, at the entry point.
+ */
+
+import { join } from 'path';
+import type { QuotaOptions } from '../authority_pipeline.js';
+import { FileCounterStore } from '../stores/file_counter_store.js';
+
+/** Counter file name under RUNNER_TEMP. */
+export const QUOTA_COUNTER_FILE = 'execution-guard-quotas.json';
+
+export function parseQuotaFromEnv(env: NodeJS.ProcessEnv = process.env): QuotaOptions {
+  const temp = (env['RUNNER_TEMP'] ?? '').trim();
+  return temp ? { store: new FileCounterStore(join(temp, QUOTA_COUNTER_FILE)) } : {};
+}
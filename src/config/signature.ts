@@ -0,0 +1,29 @@
+/**
+ * Policy Signature Inputs — trusted key and signature path for signed policies.
+ *
+ * Read from the environment exactly once, at the entry point:
+ *
+ *   INPUT_POLICY_PUBLIC_KEY      trusted ed25519 public key (PEM or base64 DER).
+ *                                Pin it in the workflow file (or a protected
+ *                                variable) — never next to the policy it verifies.
+ *   INPUT_POLICY_SIGNATURE_PATH  detached signature file (default <policy>.sig)
+ *
+ * No key configured = unsigned policy, no verification (unchanged behaviour).
+ */
+
+import type { PolicySignatureConfig } from '../core/policy_signature.js';
+
+/**
+ * Build the signature config from action inputs.
+ * @throws Error when a signature path is given without a trusted key —
+ *   the workflow asked for verification it could not perform.
+ */
+export function parseSignatureFromEnv(env: NodeJS.ProcessEnv = process.env): PolicySignatureConfig | undefined {
+  const publicKey = (env['INPUT_POLICY_PUBLIC_KEY'] ?? '').trim();
+  const signaturePath = (env['INPUT_POLICY_SIGNATURE_PATH'] ?? '').trim();
+  if (!publicKey) {
+    if (signaturePath) throw new Error('policy_signature_path is set but policy_public_key is empty.');
+    return undefined;
+  }
+  return { publicKey, ...(signaturePath ? { signaturePath } : {}) };
+}
@@ -0,0 +1,279 @@
+/**
+ * Argument Matchers — typed per-position matching for PolicyRule.args.
+ *
+ * Each element of rule.args is exactly ONE matcher. Matcher kind is chosen
+ * explicitly by the policy author — never inferred from the value:
+ *
+ *   'literal'                   exact string equality
+ *   '*'                         any single argument value
+ *   { glob: 'docs/*.md' }       glob ('*' within a path segment, '**' across
+ *                               segments, '?' single char). Values containing
+ *                               a '..' segment never match unless the pattern
+ *                               itself contains '..'.
+ *   { regex: '[0-9]+' }         regular expression, always anchored (^...$)
+ *   { enum: ['a', 'b'] }        one of the listed literal values
+ *   { range: { min, max } }     base-10 integer within [min, max] (inclusive)
+ *   { path: { roots, intent } } path confined to GITHUB_WORKSPACE / RUNNER_TEMP
+ *                               after realpath resolution (see path_matcher.ts)
+ *
+ * Precedence is positional and deterministic:
+ *   - a matching DENY rule overrides every ALLOW rule (evaluate.ts); among
+ *     ALLOW rules, the first match in declaration order decides
+ *   - within a rule, argument i is checked against matcher i only
+ *   - an object naming more than one matcher kind is invalid (fail-closed)
+ *
+ * No shell parsing. No environment expansion. Pure functions over strings —
+ * except `path`, which reads the filesystem under the PathRoots it is given.
+ */
+
+import { checkPathArg, isValidPathSpec, type PathMatcher, type PathRoots } from './path_matcher.js';
+
+export interface GlobMatcher { glob: string }
+export interface RegexMatcher { regex: string }
+export interface EnumMatcher { enum: string[] }
+export interface RangeMatcher { range: { min?: number; max?: number } }
+
+export type ArgMatcher = string | GlobMatcher | RegexMatcher | EnumMatcher | RangeMatcher | PathMatcher;
+
+export type ArgMatcherKind = 'literal' | 'any' | 'glob' | 'regex' | 'enum' | 'range' | 'path';
+
+const MATCHER_KEYS = ['glob', 'regex', 'enum', 'range', 'path'] as const;
+
+const INTEGER_PATTERN = /^-?\d+$/;
+
+const compiledPatterns = new Map<string, RegExp>();
+
+function compile(key: string, source: string): RegExp {
+  let re = compiledPatterns.get(key);
+  if (!re) {
+    re = new RegExp(source, 'u');
+    compiledPatterns.set(key, re);
+  }
+  return re;
+}
+
+function escapeRegex(ch: string): string {
+  return /[\\^$.*+?()[\]{}|/]/.test(ch) ? '\\' + ch : ch;
+}
+
+/**
+ * Translate a glob into an anchored regular expression source.
+ * Supported: '**' (any chars incl. '/'), '*' (any chars except '/'), '?'.
+ */
+export function globToRegexSource(glob: string): string {
+  let out = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]!;
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        out += '.*';
+        i++;
+      } else {
+        out += '[^/]*';
+      }
+    } else if (ch === '?') {
+      out += '[^/]';
+    } else {
+      out += escapeRegex(ch);
+    }
+  }
+  return '^' + out + '$';
+}
+
+function hasParentSegment(value: string): boolean {
+  return value.split('/').includes('..');
+}
+
+/** Classify a matcher. Returns null for anything that is not a valid matcher. */
+export function argMatcherKind(matcher: unknown): ArgMatcherKind | null {
+  if (typeof matcher === 'string') return matcher === '*' ? 'any' : 'literal';
+  if (matcher === null || typeof matcher !== 'object' || Array.isArray(matcher)) return null;
+
+  const keys = Object.keys(matcher);
+  if (keys.length !== 1) return null;
+  const key = keys[0] as (typeof MATCHER_KEYS)[number];
+  if (!MATCHER_KEYS.includes(key)) return null;
+
+  const value = (matcher as Record<string, unknown>)[key];
+  switch (key) {
+    case 'glob':
+      return typeof value === 'string' && value.length > 0 ? 'glob' : null;
+    case 'regex':
+      if (typeof value !== 'string' || value.length === 0) return null;
+      try {
+        new RegExp(value, 'u');
+      } catch {
+        return null;
+      }
+      return 'regex';
+    case 'enum':
+      return Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === 'string')
+        ? 'enum'
+        : null;
+    case 'range': {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) return null;
+      const { min, max, ...rest } = value as Record<string, unknown>;
+      if (Object.keys(rest).length > 0) return null;
+      if (min !== undefined && !Number.isInteger(min)) return null;
+      if (max !== undefined && !Number.isInteger(max)) return null;
+      if (min === undefined && max === undefined) return null;
+      if (typeof min === 'number' && typeof max === 'number' && min > max) return null;
+      return 'range';
+    }
+    case 'path':
+      return isValidPathSpec(value) ? 'path' : null;
+  }
+}
+
+/** True if the value is a well-formed ArgMatcher. */
+export function isValidArgMatcher(matcher: unknown): matcher is ArgMatcher {
+  return argMatcherKind(matcher) !== null;
+}
+
+/**
+ * Match a single argument value against a single matcher.
+ * Invalid matchers never match (fail-closed); neither does a `path` matcher
+ * without roots.
+ */
+export function matchArg(matcher: ArgMatcher, value: string, roots?: PathRoots): boolean {
+  switch (argMatcherKind(matcher)) {
+    case 'literal':
+      return value === matcher;
+    case 'any':
+      return true;
+    case 'glob': {
+      const glob = (matcher as GlobMatcher).glob;
+      if (hasParentSegment(value) && !hasParentSegment(glob)) return false;
+      return compile(`glob:${glob}`, globToRegexSource(glob)).test(value);
+    }
+    case 'regex': {
+      const source = (matcher as RegexMatcher).regex;
+      return compile(`regex:${source}`, `^(?:${source})$`).test(value);
+    }
+    case 'enum':
+      return (matcher as EnumMatcher).enum.includes(value);
+    case 'range': {
+      if (!INTEGER_PATTERN.test(value)) return false;
+      const n = Number(value);
+      if (!Number.isSafeInteger(n)) return false;
+      const { min, max } = (matcher as RangeMatcher).range;
+      return (min === undefined || n >= min) && (max === undefined || n <= max);
+    }
+    case 'path':
+      return checkPathArg((matcher as PathMatcher).path, value, roots) === null;
+    default:
+      return false;
+  }
+}
+
+/** Human-readable form for reasons and audit output. */
+export function describeArgMatcher(matcher: ArgMatcher): string {
+  if (typeof matcher === 'string') return JSON.stringify(matcher);
+  if ('glob' in matcher) return `glob(${JSON.stringify(matcher.glob)})`;
+  if ('regex' in matcher) return `regex(${JSON.stringify(matcher.regex)})`;
+  if ('enum' in matcher) return `enum(${matcher.enum.map((v) => JSON.stringify(v)).join('|')})`;
+  if ('path' in matcher) return `path(${matcher.path.roots.join('|')}, ${matcher.path.intent ?? 'read'})`;
+  const { min, max } = matcher.range;
+  return `range(${min ?? '-inf'}..${max ?? '+inf'})`;
+}
+
+// ─── Containment (policy diff) ────────────────────────────────────────────────
+
+type GlobToken = { kind: 'char'; ch: string } | { kind: '?' } | { kind: '*' } | { kind: '**' };
+
+function globTokens(glob: string): GlobToken[] {
+  const out: GlobToken[] = [];
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]!;
+    if (ch === '*' && glob[i + 1] === '*') {
+      out.push({ kind: '**' });
+      i++;
+    } else if (ch === '*' || ch === '?') {
+      out.push({ kind: ch });
+    } else {
+      out.push({ kind: 'char', ch });
+    }
+  }
+  return out;
+}
+
+/**
+ * Sufficient check that every value glob b matches is matched by glob a:
+ * walk b's tokens, letting each of a's wildcards absorb b tokens it can stand for.
+ */
+function globCovers(a: string, b: string): boolean {
+  if (hasParentSegment(b) && !hasParentSegment(a)) return false;
+  const ta = globTokens(a);
+  const tb = globTokens(b);
+  const memo = new Map<string, boolean>();
+
+  // Can a's single token x stand for b's token y?
+  const absorbs = (x: GlobToken, y: GlobToken): boolean => {
+    switch (x.kind) {
+      case '**': return true;
+      case '*': return y.kind !== '**' && !(y.kind === 'char' && y.ch === '/');
+      case '?': return y.kind === '?' || (y.kind === 'char' && y.ch !== '/');
+      case 'char': return y.kind === 'char' && y.ch === x.ch;
+    }
+  };
+
+  const walk = (i: number, j: number): boolean => {
+    const key = `${i},${j}`;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+    let result: boolean;
+    if (i === ta.length) {
+      result = j === tb.length;
+    } else {
+      const x = ta[i]!;
+      if (x.kind === '*' || x.kind === '**') {
+        // Absorb nothing, or absorb b[j] and stay on this wildcard
+        result = walk(i + 1, j) || (j < tb.length && absorbs(x, tb[j]!) && walk(i, j + 1));
+      } else {
+        result = j < tb.length && absorbs(x, tb[j]!) && walk(i + 1, j + 1);
+      }
+    }
+    memo.set(key, result);
+    return result;
+  };
+  return walk(0, 0);
+}
+
+/**
+ * True when matcher a provably matches every value matcher b matches.
+ * Conservative: false means "not shown", not "shown not to".
+ */
+export function argMatcherCovers(a: ArgMatcher, b: ArgMatcher): boolean {
+  const ka = argMatcherKind(a);
+  const kb = argMatcherKind(b);
+  if (ka === null || kb === null) return false;
+  if (ka === 'any') return true;
+
+  switch (kb) {
+    case 'any':
+      return false;
+    case 'literal':
+      return matchArg(a, b as string);
+    case 'enum':
+      return (b as EnumMatcher).enum.every((v) => matchArg(a, v));
+    case 'range': {
+      if (ka !== 'range') return false;
+      const ra = (a as RangeMatcher).range;
+      const rb = (b as RangeMatcher).range;
+      const lowOk = ra.min === undefined || (rb.min !== undefined && rb.min >= ra.min);
+      const highOk = ra.max === undefined || (rb.max !== undefined && rb.max <= ra.max);
+      return lowOk && highOk;
+    }
+    case 'glob':
+      return ka === 'glob' && globCovers((a as GlobMatcher).glob, (b as GlobMatcher).glob);
+    case 'regex':
+      return ka === 'regex' && (a as RegexMatcher).regex === (b as RegexMatcher).regex;
+    case 'path': {
+      // Read and write accept different sets (existing incl. root vs. creatable excl. root)
+      if (ka !== 'path') return false;
+      const pa = (a as PathMatcher).path;
+      const pb = (b as PathMatcher).path;
+      return (pa.intent ?? 'read') === (pb.intent ?? 'read') && pb.roots.every((r) => pa.roots.includes(r));
+    }
+  }
+}
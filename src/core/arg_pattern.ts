@@ -0,0 +1,281 @@
+/**
+ * Argument Patterns — positional and variadic semantics for PolicyRule.args.
+ *
+ * A pattern is a list of elements. Each element is either a single matcher
+ * (see arg_matchers.ts) or a quantified matcher:
+ *
+ *   <matcher>                     exactly one argument
+ *   { optional: <matcher> }       zero or one argument        (shorthand '*?')
+ *   { zero_or_more: <matcher> }   any number of arguments     (shorthand '**')
+ *   { one_or_more: <matcher> }    at least one argument       (shorthand '*+')
+ *
+ * Layout (anything else is an invalid policy → fail-closed):
+ *   required elements, then optional elements, then at most one variadic
+ *   element, which must be last.
+ *
+ * Legacy: a pattern consisting of the single element '*' keeps its original
+ * meaning of "any number of arguments" and is equivalent to ['**'].
+ */
+
+import { argMatcherCovers, argMatcherKind, describeArgMatcher, matchArg, type ArgMatcher } from './arg_matchers.js';
+import { checkPathArg, describePathViolation, type PathMatcher, type PathRoots, type PathViolation } from './path_matcher.js';
+
+export type Quantifier = 'one' | 'optional' | 'zero_or_more' | 'one_or_more';
+
+export type ArgPatternElement =
+  | ArgMatcher
+  | { optional: ArgMatcher }
+  | { zero_or_more: ArgMatcher }
+  | { one_or_more: ArgMatcher };
+
+interface NormalizedElement {
+  quantifier: Quantifier;
+  matcher: ArgMatcher;
+}
+
+/** Why an argument list failed a pattern. Indices are 0-based. */
+export interface ArgMismatch {
+  /** Pattern element that failed, or null when an argument had no element left to match it */
+  element_index: number | null;
+  /** Argument position where matching stopped (may equal args.length for a missing argument) */
+  arg_index: number;
+  reason: string;
+  /** `path` matcher only: why the argument was not inside the allowed roots */
+  path_violation?: PathViolation;
+}
+
+export type ArgPatternResult = { matched: true } | { matched: false; mismatch: ArgMismatch };
+
+const SHORTHANDS: Record<string, NormalizedElement> = {
+  '*?': { quantifier: 'optional', matcher: '*' },
+  '**': { quantifier: 'zero_or_more', matcher: '*' },
+  '*+': { quantifier: 'one_or_more', matcher: '*' }
+};
+
+const QUANTIFIER_KEYS = ['optional', 'zero_or_more', 'one_or_more'] as const;
+
+function normalizeElement(element: unknown): NormalizedElement | null {
+  if (typeof element === 'string' && element in SHORTHANDS) return SHORTHANDS[element]!;
+  if (element !== null && typeof element === 'object' && !Array.isArray(element)) {
+    const keys = Object.keys(element);
+    const key = keys[0] as (typeof QUANTIFIER_KEYS)[number];
+    if (keys.length === 1 && QUANTIFIER_KEYS.includes(key)) {
+      const inner = (element as Record<string, unknown>)[key];
+      return argMatcherKind(inner) ? { quantifier: key, matcher: inner as ArgMatcher } : null;
+    }
+  }
+  return argMatcherKind(element) ? { quantifier: 'one', matcher: element as ArgMatcher } : null;
+}
+
+function normalizePattern(pattern: readonly unknown[]): NormalizedElement[] | null {
+  if (pattern.length === 1 && pattern[0] === '*') {
+    return [SHORTHANDS['**']!];
+  }
+  const out: NormalizedElement[] = [];
+  for (const element of pattern) {
+    const n = normalizeElement(element);
+    if (!n) return null;
+    out.push(n);
+  }
+  return out;
+}
+
+/** First problem found in an args pattern. element_index is null for the list itself. */
+export interface ArgPatternProblem {
+  element_index: number | null;
+  message: string;
+}
+
+/**
+ * Validate a rule's args pattern: every element well-formed and the
+ * required → optional → variadic layout respected.
+ * Returns null when valid, otherwise the first problem.
+ */
+export function checkArgPattern(pattern: unknown): ArgPatternProblem | null {
+  if (!Array.isArray(pattern)) return { element_index: null, message: 'args must be a list' };
+  for (let i = 0; i < pattern.length; i++) {
+    if (!normalizeElement(pattern[i])) {
+      return { element_index: i, message: `args[${i}] is not a valid matcher` };
+    }
+  }
+  const elements = normalizePattern(pattern)!;
+  let seenOptional = false;
+  for (let i = 0; i < elements.length; i++) {
+    const q = elements[i]!.quantifier;
+    if (q === 'zero_or_more' || q === 'one_or_more') {
+      if (i !== elements.length - 1) {
+        return { element_index: i, message: `args[${i}] is variadic but not the last element` };
+      }
+    } else if (q === 'optional') {
+      seenOptional = true;
+    } else if (seenOptional) {
+      return { element_index: i, message: `args[${i}] is required but follows an optional element` };
+    }
+  }
+  return null;
+}
+
+/** Human-readable form of a pattern element. */
+export function describeArgPatternElement(element: ArgPatternElement): string {
+  const n = normalizeElement(element);
+  if (!n) return JSON.stringify(element);
+  const inner = describeArgMatcher(n.matcher);
+  switch (n.quantifier) {
+    case 'one': return inner;
+    case 'optional': return `${inner}?`;
+    case 'zero_or_more': return `${inner}*`;
+    case 'one_or_more': return `${inner}+`;
+  }
+}
+
+/** Why one argument failed one matcher, or null if it matched. */
+function argFailure(
+  matcher: ArgMatcher,
+  value: string,
+  roots: PathRoots | undefined
+): Pick<ArgMismatch, 'reason' | 'path_violation'> | null {
+  if (argMatcherKind(matcher) === 'path') {
+    const violation = checkPathArg((matcher as PathMatcher).path, value, roots);
+    return violation
+      ? { reason: `${JSON.stringify(value)} ${describePathViolation(violation)}`, path_violation: violation }
+      : null;
+  }
+  return matchArg(matcher, value) ? null : { reason: `${JSON.stringify(value)} does not match ${describeArgMatcher(matcher)}` };
+}
+
+function further(a: ArgMismatch, b: ArgMismatch): ArgMismatch {
+  return b.arg_index > a.arg_index ? b : a;
+}
+
+function matchFrom(
+  elements: NormalizedElement[],
+  args: readonly string[],
+  p: number,
+  a: number,
+  roots: PathRoots | undefined
+): ArgMismatch | null {
+  if (p === elements.length) {
+    if (a === args.length) return null;
+    return { element_index: null, arg_index: a, reason: `unexpected argument ${JSON.stringify(args[a])}` };
+  }
+
+  const { quantifier, matcher } = elements[p]!;
+  const expected = describeArgMatcher(matcher);
+
+  switch (quantifier) {
+    case 'one': {
+      if (a >= args.length) {
+        return { element_index: p, arg_index: a, reason: `missing argument, expected ${expected}` };
+      }
+      const failure = argFailure(matcher, args[a]!, roots);
+      if (failure) return { element_index: p, arg_index: a, ...failure };
+      return matchFrom(elements, args, p + 1, a + 1, roots);
+    }
+
+    case 'optional': {
+      let consumed: ArgMismatch | null = null;
+      const failure = a < args.length ? argFailure(matcher, args[a]!, roots) : null;
+      if (a < args.length && !failure) {
+        consumed = matchFrom(elements, args, p + 1, a + 1, roots);
+        if (!consumed) return null;
+      }
+      const skipped = matchFrom(elements, args, p + 1, a, roots);
+      if (!skipped) return null;
+      if (failure && skipped.element_index === null && skipped.arg_index === a) {
+        // Nothing after this element could take the argument — blame the optional itself.
+        return { element_index: p, arg_index: a, ...failure };
+      }
+      return consumed ? further(consumed, skipped) : skipped;
+    }
+
+    case 'zero_or_more':
+    case 'one_or_more':
+      if (quantifier === 'one_or_more' && a >= args.length) {
+        return { element_index: p, arg_index: a, reason: `missing argument, expected one or more ${expected}` };
+      }
+      for (let i = a; i < args.length; i++) {
+        const failure = argFailure(matcher, args[i]!, roots);
+        if (failure) return { element_index: p, arg_index: i, ...failure };
+      }
+      return null;
+  }
+}
+
+/**
+ * Match an argument list against a pattern.
+ * An undefined pattern matches any argument list. Invalid patterns never match.
+ * `roots` is required for `path` matchers to match at all.
+ */
+export function matchArgPattern(
+  pattern: readonly ArgPatternElement[] | undefined,
+  args: readonly string[],
+  roots?: PathRoots
+): ArgPatternResult {
+  if (pattern === undefined) return { matched: true };
+  const elements = normalizePattern(pattern);
+  if (!elements || checkArgPattern(pattern) !== null) {
+    return { matched: false, mismatch: { element_index: null, arg_index: 0, reason: 'invalid args pattern' } };
+  }
+  const mismatch = matchFrom(elements, args, 0, 0, roots);
+  return mismatch ? { matched: false, mismatch } : { matched: true };
+}
+
+// ─── Containment (policy diff) ────────────────────────────────────────────────
+
+/** one_or_more m ≡ m, zero_or_more m — leaves only one / optional / zero_or_more. */
+function expandForContainment(pattern: readonly ArgPatternElement[] | undefined): NormalizedElement[] | null {
+  if (pattern === undefined) return [SHORTHANDS['**']!];
+  if (checkArgPattern(pattern) !== null) return null;
+  return normalizePattern(pattern)!.flatMap((e) =>
+    e.quantifier === 'one_or_more'
+      ? [{ quantifier: 'one' as const, matcher: e.matcher }, { quantifier: 'zero_or_more' as const, matcher: e.matcher }]
+      : [e]
+  );
+}
+
+/**
+ * True when pattern a provably matches every argument list pattern b matches
+ * (undefined = any arguments). Conservative, like argMatcherCovers: each of
+ * b's choices must be covered by some choice of a.
+ */
+export function argPatternCovers(
+  a: readonly ArgPatternElement[] | undefined,
+  b: readonly ArgPatternElement[] | undefined
+): boolean {
+  const ea = expandForContainment(a);
+  const eb = expandForContainment(b);
+  if (!ea || !eb) return false;
+
+  const nullableFrom = (i: number) => ea.slice(i).every((e) => e.quantifier !== 'one');
+
+  const coversOne = (i: number, j: number): boolean => {
+    if (i === ea.length) return false;
+    const x = ea[i]!;
+    const fits = argMatcherCovers(x.matcher, eb[j]!.matcher);
+    switch (x.quantifier) {
+      case 'one': return fits && covers(i + 1, j + 1);
+      case 'optional': return (fits && covers(i + 1, j + 1)) || covers(i + 1, j);
+      default: return (fits && covers(i, j + 1)) || covers(i + 1, j);
+    }
+  };
+
+  const covers = (i: number, j: number): boolean => {
+    if (j === eb.length) return nullableFrom(i);
+    const y = eb[j]!;
+    switch (y.quantifier) {
+      case 'one': {
+        return coversOne(i, j);
+      }
+      case 'optional':
+        return coversOne(i, j) && covers(i, j + 1);
+      default: {
+        // Unbounded tail: a needs optional elements, then a variadic covering it
+        let k = i;
+        while (k < ea.length && ea[k]!.quantifier === 'optional') k++;
+        return k < ea.length && ea[k]!.quantifier === 'zero_or_more' && argMatcherCovers(ea[k]!.matcher, y.matcher);
+      }
+    }
+  };
+
+  return covers(0, 0);
+}
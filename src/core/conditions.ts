@@ -0,0 +1,102 @@
+/**
+ * Rule Conditions — `when:` blocks bound to the GitHub run context.
+ *
+ *   when:
+ *     event: push                      # GITHUB_EVENT_NAME
+ *     ref: [refs/heads/main, 'refs/tags/**']   # GITHUB_REF
+ *     actor: release-bot               # GITHUB_ACTOR
+ *     repository: acme/*               # GITHUB_REPOSITORY
+ *
+ * Each field is a glob or a list of globs (any may match). All listed
+ * fields must match. A field whose context value is empty never matches —
+ * a rule bound to a context cannot apply when that context is unknown.
+ *
+ * evaluate() never reads process.env. The context is passed in explicitly
+ * (see config/context.ts) and is bound into the canonical proposal, so a
+ * token issued for one event/ref/actor cannot authorize another.
+ */
+
+import { argMatcherCovers, matchArg } from './arg_matchers.js';
+
+/** Run context a rule may be conditioned on. Empty string = unknown. */
+export interface EvaluationContext {
+  event_name: string;
+  ref: string;
+  actor: string;
+  repository: string;
+}
+
+export type ConditionField = 'event' | 'ref' | 'actor' | 'repository';
+
+export type RuleConditions = Partial<Record<ConditionField, string | string[]>>;
+
+/** Condition field → context value it is checked against. */
+export const CONDITION_FIELDS: Record<ConditionField, keyof EvaluationContext> = {
+  event: 'event_name',
+  ref: 'ref',
+  actor: 'actor',
+  repository: 'repository'
+};
+
+export interface ConditionMismatch {
+  field: ConditionField;
+  actual: string;
+  expected: string[];
+}
+
+export const EMPTY_CONTEXT: EvaluationContext = { event_name: '', ref: '', actor: '', repository: '' };
+
+function asList(value: string | string[]): string[] {
+  return typeof value === 'string' ? [value] : value;
+}
+
+/**
+ * Check a rule's `when` block. Returns null if every listed field matches,
+ * otherwise the first field (in CONDITION_FIELDS order) that did not.
+ */
+export function matchConditions(
+  when: RuleConditions | undefined,
+  context: EvaluationContext
+): ConditionMismatch | null {
+  if (!when) return null;
+  for (const field of Object.keys(CONDITION_FIELDS) as ConditionField[]) {
+    const expected = when[field];
+    if (expected === undefined) continue;
+    const actual = context[CONDITION_FIELDS[field]];
+    const patterns = asList(expected);
+    if (actual === '' || !patterns.some((glob) => matchArg({ glob }, actual))) {
+      return { field, actual, expected: patterns };
+    }
+  }
+  return null;
+}
+
+/** Validate a `when` value. Returns null when valid, else a message. */
+export function checkConditions(when: unknown): string | null {
+  if (when === null || typeof when !== 'object' || Array.isArray(when)) return 'when must be a mapping';
+  const fields = Object.keys(CONDITION_FIELDS);
+  for (const [key, value] of Object.entries(when)) {
+    if (!fields.includes(key)) return `unknown when field "${key}" (allowed: ${fields.join(', ')})`;
+    const list = typeof value === 'string' ? [value] : value;
+    if (!Array.isArray(list) || list.length === 0 || !list.every((v) => typeof v === 'string' && v !== '')) {
+      return `when.${key} must be a non-empty string or list of strings`;
+    }
+  }
+  return null;
+}
+
+/**
+ * True when `when` block a provably holds in every context where b holds
+ * (a is no stricter than b). Absent block = always holds.
+ */
+export function conditionsCover(a: RuleConditions | undefined, b: RuleConditions | undefined): boolean {
+  for (const field of Object.keys(CONDITION_FIELDS) as ConditionField[]) {
+    const required = a?.[field];
+    if (required === undefined) continue;
+    const given = b?.[field];
+    if (given === undefined) return false;
+    const wide = asList(required);
+    if (!asList(given).every((g) => wide.some((w) => argMatcherCovers({ glob: w }, { glob: g })))) return false;
+  }
+  return true;
+}
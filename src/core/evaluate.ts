@@ -2,6 +2,9 @@
  * Policy Evaluation — Reference Implementation
  *
  * Deny-by-default. Exact command identity matching only.
+ * Arguments are matched per position with typed matchers (see arg_matchers.ts).
+ * `path` matchers are the one exception to pure string matching: they resolve
+ * the argument on disk under request.paths (see path_matcher.ts).
  * No shell parsing. No semantic interpretation.
  *
  * SEALED: evaluate() is called from authority_pipeline only.
@@ -9,31 +12,100 @@
  */
 
 import * as crypto from 'crypto';
-import * as fs from 'fs';
-import * as yaml from 'yaml';
+import { matchArg, type ArgMatcher } from './arg_matchers.js';
+import { matchArgPattern, type ArgMismatch, type ArgPatternElement } from './arg_pattern.js';
+import { PATH_ESCAPES, type PathRoots, type PathViolation } from './path_matcher.js';
+import { EMPTY_CONTEXT, matchConditions, type EvaluationContext, type RuleConditions } from './conditions.js';
+import type { EvaluationTrace, RuleTraceEntry, TraceDecision } from './explain.js';
+import { compilePolicy, rulesForCommand } from './policy_index.js';
+import { lifetimeEnd, matchLifetime } from './rule_lifetime.js';
+import { lookupScope, type ResolvedScope, type ScopeDefinition } from './scopes.js';
+import type { ExecutionQuota } from './quotas.js';
+import { verifyPolicySignature, type PolicySignatureConfig } from './policy_signature.js';
+import { hashPolicyFile } from '../canonical_proposal.js';
+import { formatDiagnostic, type PolicyDiagnostic } from './policy_validator.js';
+
+export type RuleEffect = 'ALLOW' | 'DENY';
 
 export interface PolicyRule {
+  /** Stable identifier — named in reasons and audit output; an extending file replaces the rule with the same id */
+  id?: string;
+  /** Defaults to ALLOW. A matching DENY rule overrides every ALLOW rule. */
+  effect?: RuleEffect;
   command: string;
-  args?: string[];
+  args?: ArgPatternElement[];
+  /** Additionally require at least one argument (any position) to match */
+  any_arg?: ArgMatcher;
+  /** Rule applies only when the run context matches (see conditions.ts) */
+  when?: RuleConditions;
+  /** Rule applies only within [valid_from, valid_until) (see rule_lifetime.ts) */
+  valid_from?: string;
+  valid_until?: string;
   scope?: string;
+  /** ALLOW rules: cap on tokens issued per run, session or window (see quotas.ts) */
+  max_executions?: ExecutionQuota;
   description?: string;
 }
 
 export interface Policy {
   default: 'DENY' | 'ALLOW';
   rules: PolicyRule[];
+  /** Built-in scopes overlaid with the policy's `scopes:` declarations (see scopes.ts) */
+  scopes: Record<string, ScopeDefinition>;
 }
 
 export interface ExecutionRequest {
   command: string;
   args: string[];
   policyPath?: string;
+  /** Run context for `when:` conditions. Absent = all values unknown. */
+  context?: EvaluationContext;
+  /** Record a per-rule trace in EvaluationResult.trace (see explain.ts) */
+  explain?: boolean;
+  /** Signed policy: verified before any rule is considered (see policy_signature.ts) */
+  signature?: PolicySignatureConfig;
+  /** Instant rule lifetimes are checked against. Defaults to the current time. */
+  now?: Date;
+  /** Working directory and allowed roots for `path` matchers. Absent = they never match. */
+  paths?: PathRoots;
+}
+
+/** The closest rule for the command and the pattern element it failed on. */
+export interface RuleMismatch extends ArgMismatch {
+  rule_index: number;
+}
+
+/** The rule that decided the verdict. Absent when the policy default decided. */
+export interface DecidingRule {
+  rule_index: number;
+  id?: string;
+  effect: RuleEffect;
+  /** The rule's valid_until (ISO) — a token it authorizes must not outlive it */
+  valid_until?: string;
+  /** The rule's quota — the pipeline counts the tokens it issues */
+  max_executions?: ExecutionQuota;
 }
 
+/** Why evaluation could not consider any rule. Always verdict DENY. */
+export type EvaluationFailure = 'POLICY_INVALID' | 'POLICY_SIGNATURE_INVALID';
+
 export interface EvaluationResult {
   verdict: 'ALLOW' | 'DENY';
   proposalHash: string;
   reason: string;
+  /** Set when the policy itself blocked evaluation (fail-closed) */
+  failure?: EvaluationFailure;
+  /** Validator output for every file in the policy set (errors and warnings) */
+  diagnostics?: PolicyDiagnostic[];
+  decided_by?: DecidingRule;
+  /** Present when ALLOW rules for the command exist but none matched the args */
+  mismatch?: RuleMismatch;
+  /** Present when request.explain is set */
+  trace?: EvaluationTrace;
+  /** ALLOW by rule: the rule's scope and its declared semantics */
+  scope?: ResolvedScope;
+  /** DENY because a path argument escaped the allowed roots of a rule for the command */
+  path_violation?: PathViolation;
 }
 
 function generateProposalHash(command: string, args: string[]): string {
@@ -41,54 +113,199 @@ function generateProposalHash(command: string, args: string[]): string {
   return crypto.createHash('sha256').update(JSON.stringify(proposal), 'utf8').digest('hex');
 }
 
-function loadPolicy(policyPath: string): Policy | null {
-  try {
-    if (!fs.existsSync(policyPath)) return null;
-    const content = fs.readFileSync(policyPath, 'utf-8');
-    const parsed = yaml.parse(content) as Policy;
-    if (!parsed || typeof parsed !== 'object') return null;
-    if (parsed.default !== 'DENY' && parsed.default !== 'ALLOW') return null;
-    if (!Array.isArray(parsed.rules)) return null;
-    return parsed;
-  } catch {
-    return null;  // Fail-closed: malformed policy → DENY
-  }
+/**
+ * Load the effective policy (extends/include resolved, every file validated).
+ * Returns null when the policy set has any error diagnostic — callers fail closed.
+ * Use loadPolicySet() directly to get the diagnostics. The result is the
+ * shared, frozen compiled policy (see policy_index.ts) — do not mutate it.
+ */
+export function loadPolicy(policyPath: string): Policy | null {
+  return compilePolicy(policyPath).policy;
+}
+
+/** Label for reasons and audit output: rules[3] id="no-root-rm" (rm). */
+export function describeRule(rule: PolicyRule, index: number): string {
+  const id = rule.id !== undefined ? ` id="${rule.id}"` : '';
+  return `rules[${index}]${id} (${rule.command})`;
+}
+
+/**
+ * Keep the mismatch that got furthest into the argument list.
+ * Ties keep the earlier rule — deterministic for a given policy.
+ */
+function closer(current: RuleMismatch | undefined, candidate: RuleMismatch): RuleMismatch {
+  if (!current || candidate.arg_index > current.arg_index) return candidate;
+  return current;
 }
 
-function matchesRule(command: string, args: string[], rule: PolicyRule): boolean {
-  if (command !== rule.command) return false;
-  if (!rule.args) return true;
-  if (rule.args.length === 1 && rule.args[0] === '*') return true;
-  if (args.length !== rule.args.length) return false;
-  return args.every((arg, i) => arg === rule.args![i] || rule.args![i] === '*');
+function decidingRule(rule: PolicyRule, index: number): DecidingRule {
+  const validUntil = lifetimeEnd(rule);
+  return {
+    rule_index: index,
+    ...(rule.id !== undefined ? { id: rule.id } : {}),
+    effect: rule.effect ?? 'ALLOW',
+    ...(validUntil !== undefined ? { valid_until: validUntil } : {}),
+    ...(rule.max_executions !== undefined ? { max_executions: rule.max_executions } : {})
+  };
+}
+
+function describeMismatch(m: RuleMismatch): string {
+  const element = m.element_index === null ? 'no element left' : `args[${m.element_index}]`;
+  return `closest rule rules[${m.rule_index}] failed at ${element}: ${m.reason}`;
 }
 
 /**
  * Evaluate an execution request against policy.
  * Fail-closed: no policy → DENY. No rule match + default DENY → DENY.
+ * request.signature set + signature does not verify → DENY, no rule considered.
+ *
+ * Rules whose `when:` conditions do not hold for request.context, or whose
+ * valid_from/valid_until window does not contain request.now, are skipped.
+ * Deny-overrides: every rule for the command is considered. Any matching
+ * DENY rule wins regardless of position; otherwise the first matching ALLOW
+ * rule wins; otherwise, if an ALLOW rule rejected a path argument as an
+ * escape (traversal, symlink, outside the roots), DENY — even under a
+ * default of ALLOW; otherwise the policy default applies.
+ *
+ * request.explain adds a trace of every rule considered; the verdict is
+ * computed identically either way.
  */
 export function evaluate(request: ExecutionRequest): EvaluationResult {
   const proposalHash = generateProposalHash(request.command, request.args);
   const policyPath = request.policyPath ?? './policy.yaml';
-  const policy = loadPolicy(policyPath);
+  const traced: RuleTraceEntry[] | undefined = request.explain ? [] : undefined;
+  const withTrace = (verdict: 'ALLOW' | 'DENY', decision: TraceDecision, decided_by?: DecidingRule) =>
+    traced ? {
+      trace: {
+        command: request.command, args: [...request.args], verdict, decision,
+        ...(decided_by ? { decided_by } : {}), rules: traced
+      }
+    } : {};
+
+  if (request.signature) {
+    const check = verifyPolicySignature(hashPolicyFile(policyPath), policyPath, request.signature);
+    if (!check.valid) {
+      return {
+        verdict: 'DENY',
+        proposalHash,
+        reason: `Policy signature invalid (${check.reason}). Fail-closed: DENY.`,
+        failure: 'POLICY_SIGNATURE_INVALID',
+        ...withTrace('DENY', 'POLICY_SIGNATURE_INVALID')
+      };
+    }
+  }
 
+  const compiled = compilePolicy(policyPath);
+  const { policy, diagnostics } = compiled;
   if (!policy) {
-    return { verdict: 'DENY', proposalHash, reason: 'No valid policy found. Fail-closed: DENY.' };
+    const first = diagnostics.find((d) => d.severity === 'error');
+    return {
+      verdict: 'DENY',
+      proposalHash,
+      reason: first
+        ? `No valid policy found (${formatDiagnostic(first)}). Fail-closed: DENY.`
+        : 'No valid policy found. Fail-closed: DENY.',
+      failure: 'POLICY_INVALID',
+      diagnostics,
+      ...withTrace('DENY', 'POLICY_INVALID')
+    };
   }
 
-  for (const rule of policy.rules) {
-    if (matchesRule(request.command, request.args, rule)) {
+  // Valid policy may still carry warnings — pass them through on every result
+  const warnings = diagnostics.length > 0 ? { diagnostics } : {};
+  const context = request.context ?? EMPTY_CONTEXT;
+  const now = request.now ?? new Date();
+  let mismatch: RuleMismatch | undefined;
+  let escape: RuleMismatch | undefined;
+  let allowIndex: number | undefined;
+
+  // The trace lists every rule; otherwise only the command's rules are visited
+  const candidates = traced ? policy.rules.keys() : rulesForCommand(compiled, request.command);
+  for (const index of candidates) {
+    const rule = policy.rules[index]!;
+    const effect = rule.effect ?? 'ALLOW';
+    const entry = { rule_index: index, ...(rule.id !== undefined ? { id: rule.id } : {}), effect, command: rule.command };
+
+    if (rule.command !== request.command) {
+      traced?.push({ ...entry, outcome: 'COMMAND_MISMATCH' });
+      continue;
+    }
+    const lifetime = matchLifetime(rule, now);
+    if (lifetime) {
+      traced?.push({ ...entry, outcome: lifetime });
+      continue;
+    }
+    const condition = matchConditions(rule.when, context);
+    if (condition) {
+      traced?.push({ ...entry, outcome: 'CONDITION_MISMATCH', condition });
+      continue;
+    }
+    const match = matchArgPattern(rule.args, request.args, request.paths);
+    if (match.matched && rule.any_arg !== undefined &&
+        !request.args.some((a) => matchArg(rule.any_arg!, a, request.paths))) {
+      traced?.push({ ...entry, outcome: 'ANY_ARG_MISMATCH' });
+      continue;
+    }
+    traced?.push(match.matched ? { ...entry, outcome: 'MATCHED' } : { ...entry, outcome: 'ARGS_MISMATCH', args: match.mismatch });
+
+    if (effect === 'DENY') {
+      if (!match.matched) continue;
+      const decided_by = decidingRule(rule, index);
       return {
-        verdict: 'ALLOW',
+        verdict: 'DENY',
         proposalHash,
-        reason: `Policy match: command="${rule.command}" scope="${rule.scope ?? 'unset'}"`
+        reason: `Denied by rule ${describeRule(rule, index)}` +
+                (rule.description ? `: ${rule.description}` : ''),
+        decided_by,
+        ...warnings,
+        ...withTrace('DENY', 'RULE', decided_by)
       };
     }
+
+    if (match.matched) {
+      allowIndex ??= index;
+    } else {
+      mismatch = closer(mismatch, { rule_index: index, ...match.mismatch });
+      const violation = match.mismatch.path_violation;
+      if (violation && PATH_ESCAPES.includes(violation.code)) escape ??= { rule_index: index, ...match.mismatch };
+    }
+  }
+
+  if (allowIndex !== undefined) {
+    const rule = policy.rules[allowIndex]!;
+    const decided_by = decidingRule(rule, allowIndex);
+    const scope = lookupScope(policy.scopes, rule.scope);
+    return {
+      verdict: 'ALLOW',
+      proposalHash,
+      reason: `Policy match: command="${rule.command}" scope="${rule.scope ?? 'unset'}"`,
+      decided_by,
+      ...(scope ? { scope } : {}),
+      ...warnings,
+      ...withTrace('ALLOW', 'RULE', decided_by)
+    };
+  }
+
+  if (escape) {
+    return {
+      verdict: 'DENY',
+      proposalHash,
+      reason: `Path escape: rules[${escape.rule_index}] args[${escape.element_index}]: ${escape.reason}`,
+      mismatch: escape,
+      path_violation: escape.path_violation!,
+      ...warnings,
+      ...withTrace('DENY', 'PATH_ESCAPE')
+    };
   }
 
   return {
     verdict: policy.default,
     proposalHash,
-    reason: `No rule matched. Default: ${policy.default}`
+    reason: mismatch
+      ? `No rule matched. Default: ${policy.default} (${describeMismatch(mismatch)})`
+      : `No rule matched. Default: ${policy.default}`,
+    ...(mismatch ? { mismatch } : {}),
+    ...warnings,
+    ...withTrace(policy.default, 'DEFAULT')
   };
 }
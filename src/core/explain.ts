@@ -0,0 +1,135 @@
+/**
+ * Explain Mode — structured trace of one evaluate() decision.
+ *
+ * Opt-in (ExecutionRequest.explain / PipelineOptions.explain / action input
+ * `explain`). Without it evaluate() only reports the deciding rule, or the
+ * closest mismatch on a miss. With it every rule considered is listed with
+ * the first field that failed:
+ *
+ *   COMMAND_MISMATCH    rule is for another command
+ *   CONDITION_MISMATCH  `when:` field did not hold (field, actual, expected)
+ *   ARGS_MISMATCH       argument pattern failed (element index, arg index)
+ *   ANY_ARG_MISMATCH    no argument matched `any_arg`
+ *   NOT_YET_VALID       before the rule's valid_from
+ *   EXPIRED             at or after the rule's valid_until
+ *   MATCHED             rule applies (its effect may or may not decide)
+ *
+ * Rules are listed in policy order. A matching DENY rule ends evaluation —
+ * rules after it are not considered and do not appear.
+ *
+ * The trace is diagnostic output only. It never changes the verdict and is
+ * not part of the canonical proposal.
+ */
+
+import type { ArgMismatch } from './arg_pattern.js';
+import type { ConditionMismatch } from './conditions.js';
+import type { DecidingRule, RuleEffect } from './evaluate.js';
+
+export type RuleTraceOutcome =
+  | 'MATCHED'
+  | 'COMMAND_MISMATCH'
+  | 'CONDITION_MISMATCH'
+  | 'ARGS_MISMATCH'
+  | 'ANY_ARG_MISMATCH'
+  | 'NOT_YET_VALID'
+  | 'EXPIRED';
+
+export interface RuleTraceEntry {
+  rule_index: number;
+  id?: string;
+  effect: RuleEffect;
+  command: string;
+  outcome: RuleTraceOutcome;
+  /** CONDITION_MISMATCH only */
+  condition?: ConditionMismatch;
+  /** ARGS_MISMATCH only */
+  args?: ArgMismatch;
+}
+
+/** What produced the verdict. */
+export type TraceDecision = 'RULE' | 'DEFAULT' | 'PATH_ESCAPE' | 'POLICY_INVALID' | 'POLICY_SIGNATURE_INVALID';
+
+export interface EvaluationTrace {
+  command: string;
+  args: string[];
+  verdict: 'ALLOW' | 'DENY';
+  decision: TraceDecision;
+  /** Set when decision === 'RULE' */
+  decided_by?: DecidingRule;
+  rules: RuleTraceEntry[];
+}
+
+function label(entry: RuleTraceEntry): string {
+  return `rules[${entry.rule_index}]${entry.id !== undefined ? ` id="${entry.id}"` : ''}`;
+}
+
+/** One-line explanation of why a rule did or did not apply. */
+export function describeTraceEntry(entry: RuleTraceEntry): string {
+  switch (entry.outcome) {
+    case 'MATCHED':
+      return 'matched';
+    case 'COMMAND_MISMATCH':
+      return `command "${entry.command}" ≠ requested command`;
+    case 'CONDITION_MISMATCH': {
+      const c = entry.condition!;
+      return `when.${c.field}: "${c.actual}" not in [${c.expected.join(', ')}]`;
+    }
+    case 'ARGS_MISMATCH': {
+      const m = entry.args!;
+      const element = m.element_index === null ? 'no element left' : `args[${m.element_index}]`;
+      return `${element} at argument ${m.arg_index}: ${m.reason}`;
+    }
+    case 'ANY_ARG_MISMATCH':
+      return 'no argument matched any_arg';
+    case 'NOT_YET_VALID':
+      return 'before valid_from';
+    case 'EXPIRED':
+      return 'past valid_until';
+  }
+}
+
+/** One-line summary of who decided: a rule, the default, a path escape, or an invalid/unsigned policy. */
+export function describeTraceDecision(trace: EvaluationTrace): string {
+  switch (trace.decision) {
+    case 'RULE': {
+      const d = trace.decided_by!;
+      return `${trace.verdict} by rules[${d.rule_index}]${d.id !== undefined ? ` id="${d.id}"` : ''} (${d.effect} rule)`;
+    }
+    case 'DEFAULT':
+      return `${trace.verdict} by policy default (no rule matched)`;
+    case 'PATH_ESCAPE':
+      return `${trace.verdict} — a path argument escapes the allowed roots (no rule matched)`;
+    case 'POLICY_INVALID':
+      return `${trace.verdict} — policy invalid, no rule considered`;
+    case 'POLICY_SIGNATURE_INVALID':
+      return `${trace.verdict} — policy signature invalid, no rule considered`;
+  }
+}
+
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/** Markdown rendering for the job summary. */
+export function formatTraceMarkdown(trace: EvaluationTrace): string {
+  const invocation = [trace.command, ...trace.args].join(' ');
+  const lines = [
+    `### Execution Guard — explain: \`${cell(invocation)}\``,
+    '',
+    `**Decision:** ${cell(describeTraceDecision(trace))}`,
+    ''
+  ];
+  if (trace.rules.length === 0) {
+    lines.push('_No rules considered._');
+    return lines.join('\n') + '\n';
+  }
+  lines.push('| Rule | Effect | Command | Result | Detail |', '| --- | --- | --- | --- | --- |');
+  for (const entry of trace.rules) {
+    const deciding = trace.decided_by?.rule_index === entry.rule_index ? ' ⬅' : '';
+    lines.push(
+      `| ${cell(label(entry))}${deciding} | ${entry.effect} | \`${cell(entry.command)}\` | ${entry.outcome} | ` +
+      `${cell(describeTraceEntry(entry))} |`
+    );
+  }
+  return lines.join('\n') + '\n';
+}
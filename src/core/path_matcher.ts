@@ -0,0 +1,179 @@
+/**
+ * Path Matcher — confine a path argument to the runner's allowed roots.
+ *
+ *   - command: cat
+ *     args: [{ path: { roots: [GITHUB_WORKSPACE], intent: read } }]
+ *   - command: rm
+ *     args: ['-v', { one_or_more: { path: { roots: [GITHUB_WORKSPACE, RUNNER_TEMP], intent: write } } }]
+ *
+ * The argument is resolved against the working directory and canonicalized
+ * with realpath semantics, then must lie inside one of the listed roots
+ * (themselves canonicalized):
+ *
+ *   read   the path must exist; the root itself is allowed (`ls .`)
+ *   write  the path may not exist yet — its nearest existing ancestor is
+ *          canonicalized instead; the root itself is never a write target
+ *
+ * Violations:
+ *
+ *   PATH_TRAVERSAL     '..' segments climb out of every root
+ *   OUTSIDE_ROOTS      absolute path (or cwd) outside every root
+ *   SYMLINK_ESCAPE     inside a root as written, outside once symlinks resolve
+ *                      (including a dangling symlink as a write target)
+ *   OPTION_ARGUMENT    starts with '-': an option, not a path — its value
+ *                      (`--target-directory=/etc`, `-t/etc`) may name any path
+ *   PATH_NOT_FOUND     read intent, path does not exist
+ *   ROOT_WRITE         write intent targets a root itself
+ *   ROOTS_UNAVAILABLE  none of the listed roots is configured on this runner
+ *
+ * The first four are escapes: evaluate() denies them outright when no rule
+ * allows the command (see PATH_ESCAPES), in every gate mode. The others are
+ * ordinary argument mismatches.
+ *
+ * Root values come from PathRoots — read from the environment once at the
+ * entry point (config/context.ts), never here. The check runs at evaluation
+ * time; the kernel spawns right after, in the same job.
+ */
+
+import { existsSync, lstatSync, realpathSync } from 'fs';
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+
+export const PATH_ROOT_NAMES = ['GITHUB_WORKSPACE', 'RUNNER_TEMP'] as const;
+
+export type PathRootName = (typeof PATH_ROOT_NAMES)[number];
+
+export type PathIntent = 'read' | 'write';
+
+export interface PathMatcher {
+  path: { roots: PathRootName[]; intent?: PathIntent };
+}
+
+/** Where relative arguments resolve from, and the directory behind each root name. */
+export interface PathRoots {
+  cwd: string;
+  roots: Partial<Record<PathRootName, string>>;
+}
+
+export type PathViolationCode =
+  | 'PATH_TRAVERSAL'
+  | 'OUTSIDE_ROOTS'
+  | 'SYMLINK_ESCAPE'
+  | 'OPTION_ARGUMENT'
+  | 'PATH_NOT_FOUND'
+  | 'ROOT_WRITE'
+  | 'ROOTS_UNAVAILABLE';
+
+/** Violations that are escape attempts rather than misses. */
+export const PATH_ESCAPES: readonly PathViolationCode[] = ['PATH_TRAVERSAL', 'OUTSIDE_ROOTS', 'SYMLINK_ESCAPE', 'OPTION_ARGUMENT'];
+
+export interface PathViolation {
+  code: PathViolationCode;
+  /** Path the argument resolved to ('' when it could not be resolved at all) */
+  resolved: string;
+  roots: PathRootName[];
+}
+
+const INTENTS: readonly PathIntent[] = ['read', 'write'];
+
+/** True if the value is a well-formed `path:` matcher body. */
+export function isValidPathSpec(value: unknown): value is PathMatcher['path'] {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return false;
+  const { roots, intent, ...rest } = value as Record<string, unknown>;
+  if (Object.keys(rest).length > 0) return false;
+  if (!Array.isArray(roots) || roots.length === 0) return false;
+  if (!roots.every((r) => (PATH_ROOT_NAMES as readonly unknown[]).includes(r))) return false;
+  return intent === undefined || INTENTS.includes(intent as PathIntent);
+}
+
+function within(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel === '' || (rel !== '..' && !rel.startsWith('..' + sep) && !isAbsolute(rel));
+}
+
+function realOrNull(path: string): string | null {
+  try {
+    return realpathSync(path);
+  } catch {
+    return null;
+  }
+}
+
+function isSymlink(path: string): boolean {
+  try {
+    return lstatSync(path).isSymbolicLink();
+  } catch {
+    return false;
+  }
+}
+
+/** Canonicalize a path that may not exist: realpath of the nearest existing ancestor + the rest. */
+function canonicalForWrite(path: string): string | null {
+  if (isSymlink(path)) return realOrNull(path); // dangling link → null: target unknowable
+  let head = path;
+  const tail: string[] = [];
+  while (!existsSync(head)) {
+    if (isSymlink(head)) return null;
+    tail.unshift(basename(head));
+    const parent = dirname(head);
+    if (parent === head) return null;
+    head = parent;
+  }
+  const real = realOrNull(head);
+  return real === null ? null : join(real, ...tail);
+}
+
+/**
+ * Check one argument. Returns null when it is inside an allowed root for the
+ * intent, otherwise the violation. `roots` undefined = not configured.
+ */
+export function checkPathArg(
+  spec: PathMatcher['path'],
+  value: string,
+  roots: PathRoots | undefined
+): PathViolation | null {
+  const violation = (code: PathViolationCode, resolved = ''): PathViolation =>
+    ({ code, resolved, roots: [...spec.roots] });
+
+  const configured = spec.roots
+    .map((name) => roots?.roots[name] ?? '')
+    .filter((dir) => dir !== '')
+    .map((dir) => ({ lexical: resolve(dir), real: realOrNull(dir) }))
+    .filter((r): r is { lexical: string; real: string } => r.real !== null);
+  if (!roots || configured.length === 0) return violation('ROOTS_UNAVAILABLE');
+  if (value === '' || value.includes('\0')) return violation('PATH_NOT_FOUND');
+  // Would resolve as a file named `--target-directory=/etc` inside the root
+  if (value.startsWith('-')) return violation('OPTION_ARGUMENT');
+
+  const lexical = resolve(roots.cwd, value);
+  if (!configured.some((r) => within(r.lexical, lexical) || within(r.real, lexical))) {
+    return violation(value.split('/').includes('..') ? 'PATH_TRAVERSAL' : 'OUTSIDE_ROOTS', lexical);
+  }
+
+  const intent = spec.intent ?? 'read';
+  const real = intent === 'read' ? realOrNull(lexical) : canonicalForWrite(lexical);
+  if (real === null) {
+    return intent === 'read' && !isSymlink(lexical)
+      ? violation('PATH_NOT_FOUND', lexical)
+      : violation('SYMLINK_ESCAPE');
+  }
+  const inside = configured.filter((r) => within(r.real, real));
+  if (inside.length === 0) return violation('SYMLINK_ESCAPE', real);
+  if (intent === 'write' && inside.some((r) => r.real === real)) return violation('ROOT_WRITE', real);
+  return null;
+}
+
+/** Reason fragment for a violation: "resolves to /etc/passwd, outside GITHUB_WORKSPACE (PATH_TRAVERSAL)". */
+export function describePathViolation(v: PathViolation): string {
+  const roots = v.roots.join(', ');
+  switch (v.code) {
+    case 'ROOTS_UNAVAILABLE': return `cannot be checked: ${roots} not configured (ROOTS_UNAVAILABLE)`;
+    case 'PATH_NOT_FOUND': return `does not exist (PATH_NOT_FOUND)`;
+    case 'ROOT_WRITE': return `is the root ${v.resolved} itself — not a write target (ROOT_WRITE)`;
+    case 'OPTION_ARGUMENT': return `is an option, not a path — its value is never checked against ${roots} (OPTION_ARGUMENT)`;
+    case 'SYMLINK_ESCAPE':
+      return v.resolved === ''
+        ? `is a symlink whose target cannot be resolved (SYMLINK_ESCAPE)`
+        : `resolves through a symlink to ${v.resolved}, outside ${roots} (SYMLINK_ESCAPE)`;
+    default: return `resolves to ${v.resolved}, outside ${roots} (${v.code})`;
+  }
+}
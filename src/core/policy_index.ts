@@ -0,0 +1,145 @@
+/**
+ * Policy Index — compiled, cached policy sets for high-volume callers.
+ *
+ * One proposal touches the policy up to four times: the pipeline hashes it
+ * (twice), evaluate() reads it and kernel step 5 hashes it again. Each of those used to re-read, re-parse
+ * and re-validate every file of the set. compilePolicy() does that once per
+ * distinct content and hands every caller the same CompiledPolicy:
+ *
+ *   hash        the policy hash (hashPolicyFile semantics, unsigned)
+ *   policy      the resolved policy — deep-frozen, shared, never mutate it
+ *   by_command  rule indices per command, in policy order — evaluate() walks
+ *               only the rules for the requested command
+ *
+ * Invalidation: a cache hit re-reads the raw bytes of every file in the set
+ * and compares them with the compiled snapshot — no parsing, but also no
+ * reliance on mtimes, so an edit is seen by the very next call (kernel step 5
+ * still detects a policy changed after issuance). Changed content recompiles;
+ * content that hashes to a set already compiled for the same root reuses it.
+ * Entries are keyed by resolved root path + hash: identical content at two
+ * roots is two sets — its sources, locations and relative extends/include
+ * belong to its own root.
+ *
+ * Only valid policy sets are cached. An invalid one is recompiled on every
+ * call — it fails closed anyway, and a missing file it references may appear.
+ * Validator warnings (e.g. RULE_EXPIRED) are as of compile time; rule
+ * lifetimes themselves are still checked against each evaluation's instant.
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { dirname, relative, resolve } from 'path';
+import type { Policy } from './evaluate.js';
+import { loadPolicySet, type PolicyLocations, type PolicySource } from './policy_loader.js';
+import type { PolicyDiagnostic } from './policy_validator.js';
+import { canonicalStringify } from '../canonical_stringify.js';
+
+export interface CompiledPolicy {
+  /** Policy hash of the set — with the resolved root path, the cache key */
+  hash: string;
+  /** null when the set has an error diagnostic (never cached) */
+  policy: Policy | null;
+  /** Where each rule and the default were written — null with policy */
+  locations: PolicyLocations | null;
+  sources: PolicySource[];
+  diagnostics: PolicyDiagnostic[];
+  /** command → indices into policy.rules, ascending */
+  by_command: ReadonlyMap<string, readonly number[]>;
+}
+
+/** Distinct policy sets kept compiled; the oldest is dropped beyond this. */
+export const MAX_COMPILED_POLICIES = 32;
+
+/** cacheKey(root, hash) → compiled set */
+const compiled = new Map<string, CompiledPolicy>();
+/** Resolved root path → cache key of the set last compiled for it */
+const byPath = new Map<string, string>();
+
+function cacheKey(root: string, hash: string): string {
+  return `${root}\0${hash}`;
+}
+
+function sha256(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+/**
+ * Single file: SHA256(content). With extends/include: SHA256 over the ordered
+ * { path relative to the root's directory, sha256(content) } list; an invalid
+ * multi-file set is the sentinel 'policy_resolve_error'.
+ */
+function policySetHash(sources: PolicySource[], policy: Policy | null): string {
+  if (sources.length === 1) return sha256(sources[0]!.content);
+  if (!policy) return 'policy_resolve_error';
+  const root = dirname(sources[0]!.path);
+  return sha256(canonicalStringify(
+    sources.map((s) => ({ path: relative(root, s.path), sha256: sha256(s.content) }))
+  ));
+}
+
+function indexByCommand(policy: Policy): Map<string, number[]> {
+  const index = new Map<string, number[]>();
+  policy.rules.forEach((rule, i) => {
+    const list = index.get(rule.command);
+    if (list) list.push(i); else index.set(rule.command, [i]);
+  });
+  return index;
+}
+
+function deepFreeze<T>(value: T): T {
+  if (value !== null && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const child of Object.values(value)) deepFreeze(child);
+  }
+  return value;
+}
+
+/** The cached set is current iff every one of its files still has the compiled bytes. */
+function unchanged(entry: CompiledPolicy): boolean {
+  try {
+    return entry.sources.every((s) => readFileSync(s.path, 'utf8') === s.content);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The compiled policy set rooted at policyPath. Never throws (loadPolicySet
+ * semantics); a missing root is an invalid, uncached result.
+ */
+export function compilePolicy(policyPath: string): CompiledPolicy {
+  const root = resolve(policyPath);
+  const cachedKey = byPath.get(root);
+  const cached = cachedKey !== undefined ? compiled.get(cachedKey) : undefined;
+  if (cached && unchanged(cached)) return cached;
+
+  const { policy, locations, sources, diagnostics } = loadPolicySet(root);
+  const hash = sources.length > 0 ? policySetHash(sources, policy) : 'policy_not_found';
+  if (!policy) {
+    byPath.delete(root);
+    return { hash, policy, locations, sources, diagnostics, by_command: new Map() };
+  }
+
+  const key = cacheKey(root, hash);
+  const existing = compiled.get(key);
+  if (existing) {
+    byPath.set(root, key);
+    return existing;
+  }
+  const entry: CompiledPolicy = deepFreeze({ hash, policy, locations, sources, diagnostics, by_command: indexByCommand(policy) });
+  compiled.set(key, entry);
+  byPath.set(root, key);
+  if (compiled.size > MAX_COMPILED_POLICIES) compiled.delete(compiled.keys().next().value!);
+  return entry;
+}
+
+/** Indices of the rules for a command, in policy order. */
+export function rulesForCommand(entry: CompiledPolicy, command: string): readonly number[] {
+  return entry.by_command.get(command) ?? [];
+}
+
+/** Drop every compiled policy (tests, benchmarks). */
+export function clearPolicyCache(): void {
+  compiled.clear();
+  byPath.clear();
+}
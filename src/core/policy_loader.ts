@@ -0,0 +1,291 @@
+/**
+ * Policy Loader — resolves extends/include into one effective policy.
+ *
+ * A policy file may reference other policy files:
+ *
+ *   extends: ./policies/base.yaml        # string or list
+ *   include: [./policies/net.yaml]       # string or list
+ *
+ * Resolution (deterministic, depth-first):
+ *   1. each `extends` file in order — inherits its default and rules
+ *   2. each `include` file in order — contributes rules only
+ *   3. the file's own rules
+ *   A rule whose `id` already exists replaces the earlier rule in place
+ *   (override keyed by id). Rules without id are appended.
+ *   `scopes:` declarations merge by name in the same order (later wins).
+ *   `default` is the file's own value, else the last inherited one.
+ *   A file reached again in the same set (diamond: a and b both extend
+ *   base) contributes its rules and scopes once, where first reached; a
+ *   later reference passes on only its default — no silent duplicates, and
+ *   no second copy undoing an override made in between.
+ *
+ * Relative paths resolve against the directory of the referencing file.
+ * A file that (transitively) references itself is a cycle → load fails.
+ * Every file read is validated (policy_validator.ts). Any error diagnostic —
+ * in any file — returns policy=null; callers fail closed and surface the
+ * diagnostics instead of a bare "no valid policy".
+ *
+ * Scope names are collected from every file of the set before any file is
+ * validated, so a rule may use a scope declared by the file that includes it.
+ *
+ * Format: `.json` files are JSON (held to strict JSON syntax), anything else
+ * YAML. Both parse into the same AST, so validation, diagnostics and
+ * resolution are identical — a JSON policy may extend a YAML one and vice
+ * versa. A file with an older `schema_version` is migrated (policy_schema.ts)
+ * before it is validated; a newer one is an error.
+ *
+ * The set of files read is returned so the policy hash can cover all of
+ * them (see hashPolicyFile in canonical_proposal.ts), together with where each
+ * effective rule and the effective `default:` were written (annotations).
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { dirname, extname, resolve } from 'path';
+import { LineCounter, parseDocument, isMap, isScalar, isSeq, type Document, type Node } from 'yaml';
+import type { Policy, PolicyRule } from './evaluate.js';
+import { migratePolicyDocument, POLICY_SCHEMA_VERSION, type PolicyFile } from './policy_schema.js';
+import {
+  documentSchemaVersion,
+  hasErrors,
+  validateJsonSyntax,
+  validatePolicyDocument,
+  type PolicyDiagnostic
+} from './policy_validator.js';
+import { BUILTIN_SCOPES, resolveScopes, type ScopeDeclaration } from './scopes.js';
+
+/** One file that contributed to the resolved policy. */
+export interface PolicySource {
+  /** Absolute path */
+  path: string;
+  content: string;
+}
+
+/** A position in a policy file (1-based line and column). */
+export interface SourceLocation {
+  /** Absolute path */
+  file: string;
+  line: number;
+  column: number;
+}
+
+/** Where the effective policy was written. */
+export interface PolicyLocations {
+  /** Parallel to policy.rules — the rule's first key */
+  rules: SourceLocation[];
+  /** The `default:` key that took effect */
+  default: SourceLocation;
+}
+
+export interface PolicyLoadResult {
+  /** Effective policy, or null when any file has an error diagnostic */
+  policy: Policy | null;
+  /** Present exactly when policy is */
+  locations: PolicyLocations | null;
+  /** Every file read, root first, each at most once */
+  sources: PolicySource[];
+  /** Problems found in any file of the set, in reading order */
+  diagnostics: PolicyDiagnostic[];
+}
+
+function asList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return typeof value === 'string' ? [value] : value;
+}
+
+interface ResolvedFragment {
+  default?: Policy['default'];
+  defaultSite?: SourceLocation;
+  rules: PolicyRule[];
+  /** Parallel to rules */
+  ruleSites: SourceLocation[];
+  scopes: Record<string, ScopeDeclaration | null>;
+}
+
+function mergeRules(into: ResolvedFragment, rules: PolicyRule[], sites: SourceLocation[]): void {
+  rules.forEach((rule, i) => {
+    const existing = rule.id === undefined ? -1 : into.rules.findIndex((r) => r.id === rule.id);
+    if (existing >= 0) {
+      into.rules[existing] = rule;
+      into.ruleSites[existing] = sites[i]!;
+    } else {
+      into.rules.push(rule);
+      into.ruleSites.push(sites[i]!);
+    }
+  });
+}
+
+interface ParsedFile {
+  content: string;
+  doc: Document;
+  lineCounter: LineCounter;
+}
+
+interface ResolveState {
+  sources: Map<string, PolicySource>;
+  diagnostics: PolicyDiagnostic[];
+  /** Each file is read and parsed once, by whichever pass reaches it first */
+  parsed: Map<string, ParsedFile>;
+  /** Built-ins + every scope declared anywhere in the set */
+  knownScopes: Set<string>;
+  /** Files already resolved into the set → their fragment */
+  resolved: Map<string, ResolvedFragment>;
+}
+
+function parseFile(path: string, state: ResolveState): ParsedFile {
+  let parsed = state.parsed.get(path);
+  if (!parsed) {
+    const content = readFileSync(path, 'utf8');
+    const lineCounter = new LineCounter();
+    parsed = { content, doc: parseDocument(content, { lineCounter, prettyErrors: false }), lineCounter };
+    state.parsed.set(path, parsed);
+  }
+  return parsed;
+}
+
+/** Pre-pass: collect declared scope names across the set. Tolerates any error — validation reports it later. */
+function collectScopes(path: string, seen: Set<string>, state: ResolveState): void {
+  if (seen.has(path) || !existsSync(path)) return;
+  seen.add(path);
+  let plain: Partial<Record<'scopes' | 'extends' | 'include', unknown>>;
+  try {
+    plain = (parseFile(path, state).doc.toJSON() ?? {}) as typeof plain;
+  } catch {
+    return;
+  }
+  if (plain === null || typeof plain !== 'object') return;
+  if (plain.scopes !== null && typeof plain.scopes === 'object' && !Array.isArray(plain.scopes)) {
+    for (const name of Object.keys(plain.scopes)) state.knownScopes.add(name);
+  }
+  for (const ref of [plain.extends, plain.include].flat()) {
+    if (typeof ref === 'string') collectScopes(resolve(dirname(path), ref), seen, state);
+  }
+}
+
+/** Where a reference to another file was written — for diagnostics. */
+type ReferenceSite = SourceLocation;
+
+function resolveFile(
+  path: string,
+  stack: string[],
+  state: ResolveState,
+  site: ReferenceSite
+): ResolvedFragment {
+  const empty: ResolvedFragment = { rules: [], ruleSites: [], scopes: {} };
+
+  if (stack.includes(path)) {
+    state.diagnostics.push({
+      severity: 'error', code: 'POLICY_CYCLE',
+      message: `policy cycle: ${[...stack, path].join(' → ')}`, ...site
+    });
+    return empty;
+  }
+  if (!existsSync(path)) {
+    state.diagnostics.push({
+      severity: 'error', code: 'POLICY_NOT_FOUND', message: `policy file not found: ${path}`, ...site
+    });
+    return empty;
+  }
+  const seen = state.resolved.get(path);
+  if (seen) {
+    return seen.default !== undefined ? { ...empty, default: seen.default, defaultSite: seen.defaultSite! } : empty;
+  }
+
+  const { content, doc, lineCounter } = parseFile(path, state);
+  if (!state.sources.has(path)) state.sources.set(path, { path, content });
+
+  if (extname(path).toLowerCase() === '.json') {
+    const jsonDiagnostics = validateJsonSyntax(content, path, lineCounter);
+    state.diagnostics.push(...jsonDiagnostics);
+    if (jsonDiagnostics.length > 0) return empty;
+  }
+
+  const version = doc.errors.length === 0 ? documentSchemaVersion(doc) : null;
+  if (version !== null && version < POLICY_SCHEMA_VERSION) migratePolicyDocument(doc, version);
+
+  const fileDiagnostics = validatePolicyDocument(doc, path, lineCounter, state.knownScopes);
+  state.diagnostics.push(...fileDiagnostics);
+  if (hasErrors(fileDiagnostics)) return empty;
+
+  const plain = (doc.toJSON() ?? {}) as PolicyFile;
+  const base = dirname(path);
+  const nextStack = [...stack, path];
+  const result: ResolvedFragment = { rules: [], ruleSites: [], scopes: {} };
+
+  const siteOf = (n: Node | null | undefined): SourceLocation => {
+    const { line, col } = lineCounter.linePos(n?.range?.[0] ?? 0);
+    return { file: path, line, column: col };
+  };
+  const referenceSites = (key: 'extends' | 'include'): ReferenceSite[] => {
+    const node = doc.get(key, true) as Node | undefined;
+    return (isSeq(node) ? (node.items as Node[]) : [node]).map(siteOf);
+  };
+  const rulesNode = doc.get('rules', true);
+  const ownRuleSites = isSeq(rulesNode) ? (rulesNode.items as Node[]).map(siteOf) : [];
+  const defaultKey = isMap(doc.contents)
+    ? doc.contents.items.find((pair) => isScalar(pair.key) && pair.key.value === 'default')?.key as Node | undefined
+    : undefined;
+
+  const extendsSites = referenceSites('extends');
+  asList(plain.extends).forEach((ref, i) => {
+    const parent = resolveFile(resolve(base, ref), nextStack, state, extendsSites[i]!);
+    if (parent.default !== undefined) {
+      result.default = parent.default;
+      result.defaultSite = parent.defaultSite!;
+    }
+    mergeRules(result, parent.rules, parent.ruleSites);
+    Object.assign(result.scopes, parent.scopes);
+  });
+  const includeSites = referenceSites('include');
+  asList(plain.include).forEach((ref, i) => {
+    const included = resolveFile(resolve(base, ref), nextStack, state, includeSites[i]!);
+    mergeRules(result, included.rules, included.ruleSites);
+    Object.assign(result.scopes, included.scopes);
+  });
+  mergeRules(result, plain.rules ?? [], ownRuleSites);
+  Object.assign(result.scopes, plain.scopes ?? {});
+
+  if (plain.default !== undefined) {
+    result.default = plain.default;
+    result.defaultSite = siteOf(defaultKey);
+  }
+  state.resolved.set(path, result);
+  return result;
+}
+
+/**
+ * Load a policy and everything it extends or includes.
+ * Never throws — read failures become diagnostics.
+ */
+export function loadPolicySet(policyPath: string): PolicyLoadResult {
+  const rootPath = resolve(policyPath);
+  const state: ResolveState = {
+    sources: new Map(), diagnostics: [], parsed: new Map(), knownScopes: new Set(BUILTIN_SCOPES), resolved: new Map()
+  };
+  const rootSite: ReferenceSite = { file: rootPath, line: 1, column: 1 };
+
+  try {
+    collectScopes(rootPath, new Set(), state);
+    const resolved = resolveFile(rootPath, [], state, rootSite);
+    if (!hasErrors(state.diagnostics) && resolved.default === undefined) {
+      state.diagnostics.push({
+        severity: 'error', code: 'MISSING_KEY',
+        message: 'no default set by the policy or anything it extends', ...rootSite
+      });
+    }
+    const valid = !hasErrors(state.diagnostics);
+    return {
+      policy: valid
+        ? { default: resolved.default!, rules: resolved.rules, scopes: resolveScopes(resolved.scopes) }
+        : null,
+      locations: valid ? { rules: resolved.ruleSites, default: resolved.defaultSite! } : null,
+      sources: [...state.sources.values()],
+      diagnostics: state.diagnostics
+    };
+  } catch (err) {
+    state.diagnostics.push({
+      severity: 'error', code: 'POLICY_NOT_FOUND',
+      message: `policy could not be read: ${err instanceof Error ? err.message : String(err)}`, ...rootSite
+    });
+    return { policy: null, locations: null, sources: [...state.sources.values()], diagnostics: state.diagnostics };
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * Policy Schema — the policy file format as a versioned JSON Schema.
+ *
+ * One definition serves three readers:
+ *   - editors: `npm run policy -- schema` writes it out (the repo ships
+ *     schemas/policy.v1.schema.json); bind it with `"$schema"` in a JSON
+ *     policy or a `# yaml-language-server: $schema=...` comment in YAML
+ *   - the validator: allowed keys, required keys and enum values are read
+ *     from here (policy_validator.ts), so the schema cannot drift from what
+ *     the guard accepts
+ *   - the compiler: property maps are typed against PolicyFile / PolicyRule /
+ *     ScopeDefinition, so adding a field to those types without describing
+ *     it here does not build
+ *
+ * Versioning: every policy file may state `schema_version`. Absent means 1,
+ * the format every policy before versioning used. A file newer than
+ * POLICY_SCHEMA_VERSION is rejected (fail-closed) rather than half-understood;
+ * an older one is upgraded by the MIGRATIONS chain before validation.
+ * Changing the format means: bump POLICY_SCHEMA_VERSION, add the migration
+ * from the previous version, publish the new schema file.
+ */
+
+import type { Document } from 'yaml';
+import type { PolicyRule, RuleEffect } from './evaluate.js';
+import { CONDITION_FIELDS } from './conditions.js';
+import { PATH_ROOT_NAMES } from './path_matcher.js';
+import { QUOTA_PERIODS } from './quotas.js';
+import type { ScopeDeclaration, ScopeDefinition } from './scopes.js';
+
+export const POLICY_SCHEMA_VERSION = 1;
+
+/** A policy file as written (before extends/include resolution). */
+export interface PolicyFile {
+  $schema?: string;
+  schema_version?: number;
+  default?: 'DENY' | 'ALLOW';
+  rules?: PolicyRule[];
+  scopes?: Record<string, ScopeDeclaration | null>;
+  extends?: string | string[];
+  include?: string | string[];
+}
+
+/** The subset of JSON Schema (2020-12) this file uses. */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: 'object' | 'array' | 'string' | 'integer' | 'boolean' | 'null';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  propertyNames?: JsonSchema;
+  minProperties?: number;
+  maxProperties?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: unknown[];
+  const?: unknown;
+  pattern?: string;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/$defs/${name}` });
+const single = (key: string, value: JsonSchema): JsonSchema =>
+  ({ type: 'object', properties: { [key]: value }, required: [key], additionalProperties: false });
+const stringOrList = (description: string): JsonSchema =>
+  ({ description, anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] });
+
+const EFFECTS: RuleEffect[] = ['ALLOW', 'DENY'];
+
+const RULE_PROPERTIES: Record<keyof PolicyRule, JsonSchema> = {
+  id: { type: 'string', description: 'Stable identifier; a later rule with the same id replaces this one' },
+  effect: { enum: EFFECTS, description: 'Defaults to ALLOW. A matching DENY rule overrides every ALLOW rule' },
+  command: { type: 'string', minLength: 1, description: 'Exact argv[0]' },
+  args: { type: 'array', items: ref('argElement'), description: 'Positional argument pattern' },
+  any_arg: { ...ref('argMatcher'), description: 'At least one argument must match' },
+  when: ref('conditions'),
+  valid_from: { ...ref('ruleTime'), description: 'Rule applies from this instant (inclusive)' },
+  valid_until: { ...ref('ruleTime'), description: 'Rule applies until this instant (exclusive)' },
+  scope: { type: 'string', description: 'Built-in scope (safe, net, fs, admin) or one declared in `scopes`' },
+  max_executions: { ...ref('quota'), description: 'ALLOW rules only: tokens issued per run, session or window' },
+  description: { type: 'string' }
+};
+
+const SCOPE_PROPERTIES: Record<keyof ScopeDefinition, JsonSchema> = {
+  pre_approved_token: { type: 'boolean' },
+  blocked_in_strict: { type: 'boolean' },
+  token_ttl: { type: 'integer', minimum: 1, description: 'Seconds' },
+  approvals: { type: 'integer', minimum: 1 },
+  description: { type: 'string' }
+};
+
+const FILE_PROPERTIES: Record<keyof PolicyFile, JsonSchema> = {
+  $schema: { type: 'string', description: 'Schema reference for editors; ignored by the guard' },
+  schema_version: { type: 'integer', minimum: 1, maximum: POLICY_SCHEMA_VERSION },
+  default: { enum: ['DENY', 'ALLOW'] },
+  rules: { type: 'array', items: ref('rule') },
+  scopes: {
+    type: 'object',
+    propertyNames: { pattern: '^[a-z][a-z0-9_-]*$' },
+    additionalProperties: { anyOf: [{ type: 'null' }, ref('scope')] }
+  },
+  extends: stringOrList('Policy file(s) to inherit default and rules from, relative to this file'),
+  include: stringOrList('Policy file(s) to add rules from, relative to this file')
+};
+
+export const POLICY_SCHEMA: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: `urn:execution-guard:policy:v${POLICY_SCHEMA_VERSION}`,
+  title: 'Execution Guard policy',
+  type: 'object',
+  properties: FILE_PROPERTIES,
+  additionalProperties: false,
+  $defs: {
+    rule: { type: 'object', properties: RULE_PROPERTIES, required: ['command'], additionalProperties: false },
+    argMatcher: {
+      oneOf: [
+        { type: 'string', description: "Exact value; '*' = any single value" },
+        single('glob', { type: 'string', minLength: 1 }),
+        single('regex', { type: 'string', minLength: 1 }),
+        single('enum', { type: 'array', items: { type: 'string' }, minItems: 1 }),
+        single('range', {
+          type: 'object',
+          properties: { min: { type: 'integer' }, max: { type: 'integer' } },
+          minProperties: 1,
+          additionalProperties: false
+        }),
+        single('path', {
+          type: 'object',
+          properties: {
+            roots: { type: 'array', items: { enum: [...PATH_ROOT_NAMES] }, minItems: 1 },
+            intent: { enum: ['read', 'write'] }
+          },
+          required: ['roots'],
+          additionalProperties: false
+        })
+      ]
+    },
+    argElement: {
+      anyOf: [
+        ref('argMatcher'),
+        single('optional', ref('argMatcher')),
+        single('zero_or_more', ref('argMatcher')),
+        single('one_or_more', ref('argMatcher'))
+      ]
+    },
+    conditions: {
+      type: 'object',
+      properties: Object.fromEntries(Object.keys(CONDITION_FIELDS).map((field) => [
+        field,
+        { anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' }, minItems: 1 }] }
+      ])),
+      additionalProperties: false
+    },
+    ruleTime: {
+      type: 'string',
+      pattern: '^\\d{4}-\\d{2}-\\d{2}(T\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?(Z|[+-]\\d{2}:\\d{2}))?$'
+    },
+    scope: { type: 'object', properties: SCOPE_PROPERTIES, additionalProperties: false },
+    quota: {
+      type: 'object',
+      properties: {
+        limit: { type: 'integer', minimum: 1 },
+        per: { enum: [...QUOTA_PERIODS] },
+        window: { type: 'integer', minimum: 1, description: 'Seconds; per: window only' }
+      },
+      required: ['limit', 'per'],
+      additionalProperties: false
+    }
+  }
+};
+
+/** Keys a policy file may contain at the top level. */
+export function policyFileKeys(): string[] {
+  return Object.keys(POLICY_SCHEMA.properties!);
+}
+
+/** Keys a rule may contain, and the ones it must. */
+export function ruleKeys(): { allowed: string[]; required: string[] } {
+  const rule = POLICY_SCHEMA.$defs!['rule']!;
+  return { allowed: Object.keys(rule.properties!), required: [...rule.required!] };
+}
+
+/** Enum values of a top-level or rule property, as the schema lists them. */
+export function schemaEnum(property: 'default' | 'effect'): string[] {
+  const node = property === 'default' ? POLICY_SCHEMA.properties!['default']! : RULE_PROPERTIES.effect;
+  return node.enum as string[];
+}
+
+/** `npm run policy -- schema` output; the same bytes as schemas/policy.v<N>.schema.json. */
+export function formatPolicySchema(): string {
+  return JSON.stringify(POLICY_SCHEMA, null, 2) + '\n';
+}
+
+// ─── Migrations ───────────────────────────────────────────────────────────────
+
+/**
+ * Upgrades a document from `from` to `from + 1` in place — on the YAML AST,
+ * so nodes keep their source positions and diagnostics still point at the
+ * line the author wrote.
+ */
+export interface PolicyMigration {
+  from: number;
+  description: string;
+  migrate(doc: Document): void;
+}
+
+/** Ordered by `from`. Version 1 is the first versioned format: nothing to migrate yet. */
+export const MIGRATIONS: readonly PolicyMigration[] = [];
+
+/**
+ * Bring a document to POLICY_SCHEMA_VERSION. Returns the migrations applied.
+ * The caller has already rejected versions outside 1..POLICY_SCHEMA_VERSION.
+ */
+export function migratePolicyDocument(
+  doc: Document,
+  version: number,
+  migrations: readonly PolicyMigration[] = MIGRATIONS
+): PolicyMigration[] {
+  const applied: PolicyMigration[] = [];
+  for (let v = version; v < POLICY_SCHEMA_VERSION; v++) {
+    const step = migrations.find((m) => m.from === v);
+    if (!step) throw new Error(`no migration from policy schema_version ${v}`);
+    step.migrate(doc);
+    applied.push(step);
+  }
+  return applied;
+}
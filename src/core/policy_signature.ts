@@ -0,0 +1,127 @@
+/**
+ * Policy Signature — detached ed25519 signature over the resolved policy set.
+ *
+ * Optional. When a trusted public key is configured (action input
+ * `policy_public_key`, or pinned in the workflow), the policy is only used if
+ * its signature verifies:
+ *
+ *   policy.yaml        the policy (extends/include resolved as usual)
+ *   policy.yaml.sig    base64 ed25519 signature (default path, overridable)
+ *
+ * What is signed: the raw 32 bytes of hashPolicyFile(policyPath) — the same
+ * digest that binds tokens — so editing ANY file in the policy set
+ * invalidates the signature. Sign with `npm run policy -- sign`.
+ *
+ * Key formats accepted: PEM (SPKI / PKCS8) or base64 DER. Keys are identified
+ * by key_id = SHA256(SPKI DER), hex.
+ *
+ * Pure verification: no environment reads, never throws.
+ */
+
+import { createHash, createPrivateKey, createPublicKey, sign, verify, type KeyObject } from 'crypto';
+import { readFileSync } from 'fs';
+
+export interface PolicySignatureConfig {
+  /** Trusted ed25519 public key — PEM or base64 SPKI DER */
+  publicKey: string;
+  /** Detached signature file. Default: `<policy path>.sig` */
+  signaturePath?: string;
+}
+
+/** Signature identity bound into the canonical proposal and the token's policy_hash. */
+export interface PolicySignatureBinding {
+  signature_path: string;
+  /** SHA256(SPKI DER) of the trusted key, or 'key_invalid' */
+  key_id: string;
+}
+
+export type PolicySignatureCheck =
+  | { valid: true; binding: PolicySignatureBinding }
+  | { valid: false; reason: string };
+
+const DIGEST_PATTERN = /^[0-9a-f]{64}$/;
+const ED25519_SIGNATURE_BYTES = 64;
+
+export function defaultSignaturePath(policyPath: string): string {
+  return `${policyPath}.sig`;
+}
+
+function isPem(text: string): boolean {
+  return text.includes('-----BEGIN ');
+}
+
+/** Parse an ed25519 public key. Returns null for anything else. */
+export function parsePublicKey(text: string): KeyObject | null {
+  try {
+    const trimmed = text.trim();
+    const key = isPem(trimmed)
+      ? createPublicKey(trimmed)
+      : createPublicKey({ key: Buffer.from(trimmed, 'base64'), format: 'der', type: 'spki' });
+    return key.asymmetricKeyType === 'ed25519' ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+export function publicKeyId(key: KeyObject): string {
+  return createHash('sha256').update(key.export({ type: 'spki', format: 'der' })).digest('hex');
+}
+
+export function signatureBinding(policyPath: string, config: PolicySignatureConfig): PolicySignatureBinding {
+  const key = parsePublicKey(config.publicKey);
+  return {
+    signature_path: config.signaturePath ?? defaultSignaturePath(policyPath),
+    key_id: key ? publicKeyId(key) : 'key_invalid'
+  };
+}
+
+/** Signature file content, trimmed. null if unreadable. */
+export function readSignatureFile(signaturePath: string): string | null {
+  try {
+    return readFileSync(signaturePath, 'utf8').trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify the detached signature over a policy digest (hashPolicyFile output).
+ * A digest that is a failure sentinel ('policy_not_found', ...) never verifies.
+ */
+export function verifyPolicySignature(
+  policyDigest: string,
+  policyPath: string,
+  config: PolicySignatureConfig
+): PolicySignatureCheck {
+  const key = parsePublicKey(config.publicKey);
+  if (!key) return { valid: false, reason: 'trusted public key is not an ed25519 key' };
+  if (!DIGEST_PATTERN.test(policyDigest)) return { valid: false, reason: `policy unreadable: ${policyDigest}` };
+
+  const binding = signatureBinding(policyPath, config);
+  const encoded = readSignatureFile(binding.signature_path);
+  if (encoded === null) return { valid: false, reason: `signature file not found: ${binding.signature_path}` };
+  const signature = Buffer.from(encoded, 'base64');
+  if (signature.length !== ED25519_SIGNATURE_BYTES) {
+    return { valid: false, reason: `signature file is not a base64 ed25519 signature: ${binding.signature_path}` };
+  }
+
+  if (!verify(null, Buffer.from(policyDigest, 'hex'), key, signature)) {
+    return { valid: false, reason: `signature does not match policy for key ${binding.key_id.slice(0, 16)}` };
+  }
+  return { valid: true, binding };
+}
+
+/**
+ * Sign a policy digest with an ed25519 private key (PEM or base64 PKCS8 DER).
+ * Returns the base64 signature file content.
+ * @throws Error if the key is not an ed25519 private key or the digest is a sentinel
+ */
+export function signPolicyDigest(policyDigest: string, privateKey: string): string {
+  if (!DIGEST_PATTERN.test(policyDigest)) throw new Error(`policy unreadable: ${policyDigest}`);
+  const trimmed = privateKey.trim();
+  const key = isPem(trimmed)
+    ? createPrivateKey(trimmed)
+    : createPrivateKey({ key: Buffer.from(trimmed, 'base64'), format: 'der', type: 'pkcs8' });
+  if (key.asymmetricKeyType !== 'ed25519') throw new Error('private key is not an ed25519 key');
+  return sign(null, Buffer.from(policyDigest, 'hex'), key).toString('base64') + '\n';
+}
@@ -0,0 +1,334 @@
+/**
+ * Policy Validator — line-numbered diagnostics for a single policy file.
+ *
+ * Runs on the YAML AST (not the plain parsed object) so every problem can be
+ * reported with file, line and column — and rule index where applicable.
+ * JSON policies are YAML documents too; they are additionally held to strict
+ * JSON syntax (validateJsonSyntax).
+ *
+ * Key sets, required keys and enum values come from the JSON Schema
+ * (policy_schema.ts) — the validator and the published schema agree.
+ *
+ * Checks:
+ *   - YAML / JSON syntax errors
+ *   - schema_version newer than this guard supports (nothing else is checked)
+ *   - unknown keys (top level and per rule)
+ *   - wrong types (default, rules, command, args, any_arg, when, ...)
+ *   - bad enum values (default, effect, scope)
+ *   - malformed `scopes:` declarations; rule scopes not declared anywhere in the set
+ *   - duplicate rules within a file (same id, or identical rule body)
+ *   - rule lifetimes: malformed valid_from/valid_until (error), expired (warning)
+ *   - max_executions: malformed quota, or a quota on a DENY rule
+ *
+ * Severity 'error' makes the policy invalid → evaluate() fails closed (DENY).
+ * Severity 'warning' is reported but does not block evaluation.
+ */
+
+import { isMap, isScalar, isSeq, type Document, type LineCounter, type Node, type Pair } from 'yaml';
+import { isValidArgMatcher } from './arg_matchers.js';
+import { checkArgPattern } from './arg_pattern.js';
+import { checkConditions } from './conditions.js';
+import { checkRuleLifetime, matchLifetime } from './rule_lifetime.js';
+import { BUILTIN_SCOPES, checkScopeDeclaration } from './scopes.js';
+import { checkExecutionQuota } from './quotas.js';
+import { POLICY_SCHEMA_VERSION, policyFileKeys, ruleKeys, schemaEnum } from './policy_schema.js';
+import { canonicalStringify } from '../canonical_stringify.js';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type DiagnosticCode =
+  | 'YAML_SYNTAX'
+  | 'JSON_SYNTAX'
+  | 'UNSUPPORTED_SCHEMA_VERSION'
+  | 'POLICY_NOT_FOUND'
+  | 'POLICY_CYCLE'
+  | 'UNKNOWN_KEY'
+  | 'INVALID_TYPE'
+  | 'INVALID_VALUE'
+  | 'INVALID_SCOPE'
+  | 'MISSING_KEY'
+  | 'DUPLICATE_RULE'
+  | 'RULE_EXPIRED';
+
+export interface PolicyDiagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  /** Absolute path of the file the problem is in */
+  file: string;
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+  /** Index within this file's own `rules` list */
+  rule_index?: number;
+}
+
+const TOP_LEVEL_KEYS = policyFileKeys();
+const { allowed: RULE_KEYS, required: REQUIRED_RULE_KEYS } = ruleKeys();
+const DEFAULTS = schemaEnum('default');
+const EFFECTS = schemaEnum('effect');
+
+/** Where to report a problem: node start, or the document start as fallback. */
+type Locator = (node: Node | null | undefined) => { line: number; column: number };
+
+function makeLocator(lineCounter: LineCounter): Locator {
+  return (node) => {
+    const offset = node?.range?.[0] ?? 0;
+    const { line, col } = lineCounter.linePos(offset);
+    return { line, column: col };
+  };
+}
+
+function keyOf(pair: Pair): string {
+  return isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+}
+
+/** Format as `path:line:col [rules[i]] message` for logs and reasons. */
+export function formatDiagnostic(d: PolicyDiagnostic, relativeTo?: (file: string) => string): string {
+  const file = relativeTo ? relativeTo(d.file) : d.file;
+  const rule = d.rule_index !== undefined ? ` rules[${d.rule_index}]` : '';
+  return `${file}:${d.line}:${d.column}${rule} ${d.code}: ${d.message}`;
+}
+
+export function hasErrors(diagnostics: readonly PolicyDiagnostic[]): boolean {
+  return diagnostics.some((d) => d.severity === 'error');
+}
+
+/**
+ * Strict JSON syntax for `.json` policies — the YAML parser alone would
+ * accept comments, unquoted keys and trailing commas an editor rejects.
+ */
+export function validateJsonSyntax(content: string, file: string, lineCounter: LineCounter): PolicyDiagnostic[] {
+  try {
+    JSON.parse(content);
+    return [];
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const position = Number(/at position (\d+)/.exec(message)?.[1] ?? 0);
+    const { line, col } = lineCounter.linePos(position);
+    return [{ severity: 'error', code: 'JSON_SYNTAX', message: message.replace(/ at position \d+.*$/, ''), file, line, column: col }];
+  }
+}
+
+/** The document's schema_version: 1 when absent, null when not a usable version number. */
+export function documentSchemaVersion(doc: Document): number | null {
+  const raw = isMap(doc.contents) ? doc.get('schema_version') : undefined;
+  if (raw === undefined) return 1;
+  return Number.isInteger(raw) && (raw as number) >= 1 ? raw as number : null;
+}
+
+/**
+ * Validate one parsed policy document. Does not follow extends/include —
+ * the loader validates each file it reads.
+ *
+ * knownScopes: every scope name a rule may use — built-ins plus the scopes
+ * declared anywhere in the policy set (the loader collects them first).
+ */
+export function validatePolicyDocument(
+  doc: Document,
+  file: string,
+  lineCounter: LineCounter,
+  knownScopes: ReadonlySet<string> = new Set(BUILTIN_SCOPES)
+): PolicyDiagnostic[] {
+  const locate = makeLocator(lineCounter);
+  const out: PolicyDiagnostic[] = [];
+  const report = (
+    code: DiagnosticCode,
+    message: string,
+    node: Node | null | undefined,
+    rule_index?: number,
+    severity: DiagnosticSeverity = 'error'
+  ) => {
+    out.push({ severity, code, message, file, ...locate(node), ...(rule_index !== undefined ? { rule_index } : {}) });
+  };
+
+  for (const err of doc.errors) {
+    const { line, col } = lineCounter.linePos(err.pos[0]);
+    out.push({
+      severity: 'error',
+      code: 'YAML_SYNTAX',
+      message: err.message.split('\n')[0]!,
+      file,
+      line,
+      column: col
+    });
+  }
+  if (out.length > 0) return out;
+
+  const root = doc.contents;
+  if (!isMap(root)) {
+    report('INVALID_TYPE', 'policy must be a mapping', root as Node | null);
+    return out;
+  }
+
+  // A newer format may mean anything — report that alone, check nothing else
+  const version = documentSchemaVersion(doc);
+  const versionNode = root.items.find((p) => keyOf(p) === 'schema_version')?.value as Node | undefined;
+  if (version === null) {
+    report('INVALID_VALUE', 'schema_version must be a positive integer', versionNode);
+  } else if (version > POLICY_SCHEMA_VERSION) {
+    report('UNSUPPORTED_SCHEMA_VERSION',
+      `schema_version ${version} is newer than this guard supports (${POLICY_SCHEMA_VERSION}) — upgrade the action`,
+      versionNode);
+    return out;
+  }
+
+  for (const pair of root.items) {
+    const key = keyOf(pair);
+    const value = pair.value as Node | null;
+    switch (key) {
+      case 'schema_version':
+        break;
+      case '$schema':
+        if (!isScalar(value) || typeof value.value !== 'string') report('INVALID_TYPE', '$schema must be a string', value);
+        break;
+      case 'default': {
+        const v = isScalar(value) ? value.value : undefined;
+        if (typeof v !== 'string' || !DEFAULTS.includes(v)) {
+          report('INVALID_VALUE', `default must be ${DEFAULTS.join(' or ')}, got ${JSON.stringify(v ?? null)}`, value);
+        }
+        break;
+      }
+      case 'extends':
+      case 'include': {
+        const ok = (isScalar(value) && typeof value.value === 'string') ||
+          (isSeq(value) && value.items.every((i) => isScalar(i) && typeof i.value === 'string'));
+        if (!ok) report('INVALID_TYPE', `${key} must be a path or a list of paths`, value);
+        break;
+      }
+      case 'rules':
+        if (!isSeq(value)) {
+          report('INVALID_TYPE', 'rules must be a list', value);
+        } else {
+          validateRules(value.items as (Node | null)[], report, knownScopes);
+        }
+        break;
+      case 'scopes':
+        if (!isMap(value)) {
+          report('INVALID_TYPE', 'scopes must be a mapping of scope name → declaration', value);
+        } else {
+          for (const scope of value.items) {
+            const problem = checkScopeDeclaration(keyOf(scope), (scope.value as Node | null)?.toJSON());
+            if (problem) report('INVALID_VALUE', problem, (scope.value ?? scope.key) as Node);
+          }
+        }
+        break;
+      default:
+        report('UNKNOWN_KEY', `unknown key "${key}" (allowed: ${TOP_LEVEL_KEYS.join(', ')})`, pair.key as Node);
+    }
+  }
+
+  return out;
+}
+
+type Reporter = (
+  code: DiagnosticCode,
+  message: string,
+  node: Node | null | undefined,
+  rule_index?: number,
+  severity?: DiagnosticSeverity
+) => void;
+
+function validateRules(items: (Node | null)[], report: Reporter, knownScopes: ReadonlySet<string>): void {
+  const seenIds = new Map<string, number>();
+  const seenBodies = new Map<string, number>();
+
+  items.forEach((item, index) => {
+    if (!isMap(item)) {
+      report('INVALID_TYPE', 'rule must be a mapping', item, index);
+      return;
+    }
+
+    const valueNode = (key: string) => item.items.find((p) => keyOf(p) === key)?.value as Node | null | undefined;
+    const rule = item.toJSON() as Record<string, unknown>;
+
+    for (const pair of item.items) {
+      const key = keyOf(pair);
+      if (!RULE_KEYS.includes(key)) {
+        report('UNKNOWN_KEY', `unknown rule key "${key}" (allowed: ${RULE_KEYS.join(', ')})`, pair.key as Node, index);
+      }
+    }
+
+    for (const key of REQUIRED_RULE_KEYS) {
+      if (rule[key] === undefined) report('MISSING_KEY', `rule is missing required key "${key}"`, item, index);
+    }
+    if (rule['command'] !== undefined && (typeof rule['command'] !== 'string' || rule['command'].trim() === '')) {
+      report('INVALID_TYPE', 'command must be a non-empty string', valueNode('command'), index);
+    }
+
+    for (const key of ['id', 'description'] as const) {
+      if (rule[key] !== undefined && typeof rule[key] !== 'string') {
+        report('INVALID_TYPE', `${key} must be a string`, valueNode(key), index);
+      }
+    }
+
+    if (rule['effect'] !== undefined && !EFFECTS.includes(rule['effect'] as string)) {
+      report('INVALID_VALUE', `effect must be ${EFFECTS.join(' or ')}, got ${JSON.stringify(rule['effect'])}`,
+        valueNode('effect'), index);
+    }
+
+    if (rule['scope'] !== undefined) {
+      if (typeof rule['scope'] !== 'string' || !knownScopes.has(rule['scope'])) {
+        report('INVALID_SCOPE', `scope must be one of ${[...knownScopes].join(', ')}, got ${JSON.stringify(rule['scope'])}`,
+          valueNode('scope'), index);
+      }
+    }
+
+    if (rule['args'] !== undefined) {
+      const problem = checkArgPattern(rule['args']);
+      if (problem) {
+        const argsNode = valueNode('args');
+        const element = problem.element_index !== null && isSeq(argsNode)
+          ? (argsNode.items[problem.element_index] as Node | undefined)
+          : argsNode;
+        report('INVALID_VALUE', problem.message, element, index);
+      }
+    }
+
+    if (rule['any_arg'] !== undefined && !isValidArgMatcher(rule['any_arg'])) {
+      report('INVALID_VALUE', 'any_arg is not a valid matcher', valueNode('any_arg'), index);
+    }
+
+    if (rule['when'] !== undefined) {
+      const problem = checkConditions(rule['when']);
+      if (problem) report('INVALID_VALUE', problem, valueNode('when'), index);
+    }
+
+    if (rule['valid_from'] !== undefined || rule['valid_until'] !== undefined) {
+      const problem = checkRuleLifetime(rule);
+      if (problem) {
+        report('INVALID_VALUE', problem, valueNode(problem.startsWith('valid_from') ? 'valid_from' : 'valid_until'), index);
+      } else if (matchLifetime(rule, new Date()) === 'EXPIRED') {
+        report('RULE_EXPIRED', `rule expired at ${rule['valid_until']} — it no longer applies; remove it`,
+          valueNode('valid_until'), index, 'warning');
+      }
+    }
+
+    if (rule['max_executions'] !== undefined) {
+      const problem = rule['effect'] === 'DENY'
+        ? 'max_executions applies to ALLOW rules only'
+        : checkExecutionQuota(rule['max_executions']);
+      if (problem) report('INVALID_VALUE', problem, valueNode('max_executions'), index);
+    }
+
+    if (typeof rule['id'] === 'string') {
+      const first = seenIds.get(rule['id']);
+      if (first !== undefined) {
+        report('DUPLICATE_RULE', `duplicate rule id "${rule['id']}" (first defined at rules[${first}])`,
+          valueNode('id'), index);
+      } else {
+        seenIds.set(rule['id'], index);
+      }
+    }
+
+    const { description: _description, id: _id, ...body } = rule;
+    const bodyKey = canonicalStringify(body);
+    const firstBody = seenBodies.get(bodyKey);
+    if (firstBody !== undefined) {
+      report('DUPLICATE_RULE', `rule duplicates rules[${firstBody}]`, item, index);
+    } else {
+      seenBodies.set(bodyKey, index);
+    }
+  });
+}
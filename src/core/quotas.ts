@@ -0,0 +1,127 @@
+/**
+ * Execution Quotas — `max_executions` on an ALLOW rule.
+ *
+ *   - id: build
+ *     command: npm
+ *     args: [run, build]
+ *     max_executions: { limit: 5, per: run }
+ *
+ *   - id: fetch
+ *     command: git
+ *     args: [fetch, '**']
+ *     max_executions: { limit: 60, per: window, window: 3600 }
+ *
+ * Periods:
+ *   run      one GitHub Actions run (GITHUB_RUN_ID + attempt) or guard process
+ *   session  one OpenClaw session (proposal session_id); outside OpenClaw = run
+ *   window   fixed window of `window` seconds, aligned to the epoch, shared by
+ *            every run and session using the same counter store — in the
+ *            action that is one job's file (config/quota.ts), not all runs
+ *
+ * A quota counts ALLOW tokens issued by the rule — the pipeline's commitment
+ * to execute — not HOLDs or misses. Once the count reaches the limit the
+ * pipeline returns STOP (every gate mode) until the period ends.
+ *
+ * Pure functions; counting lives behind ICounterStore (interfaces/counter_store.ts).
+ */
+
+import { resolve } from 'path';
+
+export const QUOTA_PERIODS = ['run', 'session', 'window'] as const;
+export type QuotaPeriod = typeof QUOTA_PERIODS[number];
+
+export interface ExecutionQuota {
+  limit: number;
+  per: QuotaPeriod;
+  /** Seconds — required for, and only allowed with, per: window */
+  window?: number;
+}
+
+/** Which run / session the counters belong to. */
+export interface QuotaIdentity {
+  run_id: string;
+  session_id?: string;
+}
+
+/** Counter state after the pipeline's check for one rule. */
+export interface QuotaStatus {
+  /** Rule label: id, else rules[i] */
+  rule: string;
+  limit: number;
+  per: QuotaPeriod;
+  /** Executions counted in the current period, including this one when it was allowed */
+  used: number;
+  remaining: number;
+  /** true → this proposal was refused (STOP) */
+  exhausted: boolean;
+  /** per: window — when the current window ends (ISO) */
+  resets_at?: string;
+}
+
+const QUOTA_KEYS = ['limit', 'per', 'window'];
+
+const isPositiveInteger = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 1;
+
+/** Validate a `max_executions` value. Returns null when valid, else a message. */
+export function checkExecutionQuota(value: unknown): string | null {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return 'max_executions must be a mapping { limit, per[, window] }';
+  }
+  const quota = value as Record<string, unknown>;
+  const unknown = Object.keys(quota).find((k) => !QUOTA_KEYS.includes(k));
+  if (unknown !== undefined) return `max_executions: unknown key "${unknown}" (allowed: ${QUOTA_KEYS.join(', ')})`;
+  if (!isPositiveInteger(quota['limit'])) return 'max_executions.limit must be a positive integer';
+  if (!QUOTA_PERIODS.includes(quota['per'] as QuotaPeriod)) {
+    return `max_executions.per must be one of ${QUOTA_PERIODS.join(', ')}, got ${JSON.stringify(quota['per'] ?? null)}`;
+  }
+  if (quota['per'] === 'window' && !isPositiveInteger(quota['window'])) {
+    return 'max_executions.window (seconds) must be a positive integer for per: window';
+  }
+  if (quota['per'] !== 'window' && quota['window'] !== undefined) {
+    return 'max_executions.window is only allowed with per: window';
+  }
+  return null;
+}
+
+/** The default run identity: the Actions run (with attempt), else this process. */
+export function defaultRunId(env: NodeJS.ProcessEnv = process.env): string {
+  const run = env['GITHUB_RUN_ID'];
+  return run ? `${run}.${env['GITHUB_RUN_ATTEMPT'] ?? '1'}` : `pid-${process.pid}`;
+}
+
+/**
+ * Counter key and expiry for one rule's current period. The rule is keyed by
+ * policy file and id (else position and command), so counts survive
+ * unrelated policy edits when the rule has an id.
+ */
+export function quotaCounter(
+  quota: ExecutionQuota,
+  policyPath: string,
+  rule: { id?: string; rule_index: number; command: string },
+  identity: QuotaIdentity,
+  now: Date
+): { key: string; expires_at: string | null } {
+  const ruleKey = rule.id !== undefined ? `id:${rule.id}` : `rules[${rule.rule_index}]:${rule.command}`;
+  const base = `${resolve(policyPath)}#${ruleKey}`;
+  switch (quota.per) {
+    case 'run':
+      return { key: `run:${identity.run_id}:${base}`, expires_at: null };
+    case 'session':
+      return {
+        key: identity.session_id !== undefined
+          ? `session:${identity.session_id}:${base}`
+          : `run:${identity.run_id}:${base}`,
+        expires_at: null
+      };
+    case 'window': {
+      const windowMs = quota.window! * 1000;
+      const start = Math.floor(now.getTime() / windowMs) * windowMs;
+      return { key: `window:${quota.window}:${start}:${base}`, expires_at: new Date(start + windowMs).toISOString() };
+    }
+  }
+}
+
+/** `5/run`, `60/window(3600s)` — for reasons and audit output. */
+export function describeQuota(quota: ExecutionQuota): string {
+  return quota.per === 'window' ? `${quota.limit}/window(${quota.window}s)` : `${quota.limit}/${quota.per}`;
+}
@@ -0,0 +1,74 @@
+/**
+ * Rule Lifetimes — `valid_from` / `valid_until` on a rule.
+ *
+ *   - id: vendor-migration
+ *     command: curl
+ *     args: [{ glob: 'https://api.vendor.example/**' }]
+ *     scope: net
+ *     valid_from: 2026-03-02
+ *     valid_until: 2026-03-09T18:00:00Z
+ *
+ * Values are ISO 8601: a date (midnight UTC) or a date-time with an explicit
+ * `Z` or offset — a local time would mean different instants on different
+ * runners. The window is half-open: valid_from <= now < valid_until.
+ *
+ * Outside its window a rule does not apply at all (ALLOW and DENY alike) —
+ * evaluate() skips it like a `when:` mismatch. A token issued by a rule with
+ * valid_until never outlives it (authority_pipeline clamps expires_at).
+ *
+ * Pure functions. `now` is always passed in; nothing here reads the clock.
+ */
+
+export interface RuleLifetime {
+  valid_from?: string;
+  valid_until?: string;
+}
+
+export type LifetimeMismatch = 'NOT_YET_VALID' | 'EXPIRED';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+/** Milliseconds since epoch, or null for anything that is not an accepted ISO 8601 value. */
+export function parseRuleTime(value: unknown): number | null {
+  if (typeof value !== 'string' || !(ISO_DATE.test(value) || ISO_DATE_TIME.test(value))) return null;
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/** Validate valid_from / valid_until. Returns null when valid, else a message. */
+export function checkRuleLifetime(rule: Record<string, unknown>): string | null {
+  for (const key of ['valid_from', 'valid_until'] as const) {
+    if (rule[key] !== undefined && parseRuleTime(rule[key]) === null) {
+      return `${key} must be an ISO 8601 date or date-time with Z/offset, got ${JSON.stringify(rule[key])}`;
+    }
+  }
+  const from = parseRuleTime(rule['valid_from']);
+  const until = parseRuleTime(rule['valid_until']);
+  if (from !== null && until !== null && from >= until) return 'valid_from must be before valid_until';
+  return null;
+}
+
+/** null when the rule applies at `now`, otherwise which side of its window `now` is on. */
+export function matchLifetime(rule: RuleLifetime, now: Date): LifetimeMismatch | null {
+  const from = parseRuleTime(rule.valid_from);
+  const until = parseRuleTime(rule.valid_until);
+  if (from !== null && now.getTime() < from) return 'NOT_YET_VALID';
+  if (until !== null && now.getTime() >= until) return 'EXPIRED';
+  return null;
+}
+
+/** valid_until normalised to an ISO timestamp (for token clamping), or undefined. */
+export function lifetimeEnd(rule: RuleLifetime): string | undefined {
+  const until = parseRuleTime(rule.valid_until);
+  return until === null ? undefined : new Date(until).toISOString();
+}
+
+/** True when lifetime a contains lifetime b (absent bound = unbounded). */
+export function lifetimeCovers(a: RuleLifetime, b: RuleLifetime): boolean {
+  const [af, au] = [parseRuleTime(a.valid_from), parseRuleTime(a.valid_until)];
+  const [bf, bu] = [parseRuleTime(b.valid_from), parseRuleTime(b.valid_until)];
+  const fromOk = af === null || (bf !== null && bf >= af);
+  const untilOk = au === null || (bu !== null && bu <= au);
+  return fromOk && untilOk;
+}
@@ -0,0 +1,132 @@
+/**
+ * Scopes — named approval classes a rule can put a command in.
+ *
+ * A policy may declare its own scopes (or redefine a built-in one):
+ *
+ *   scopes:
+ *     deploy:
+ *       pre_approved_token: true    # matched command still needs a human-approved token
+ *       blocked_in_strict: false    # STRICT: never executable, not even with a token
+ *       token_ttl: 120              # seconds; ALLOW tokens for this scope expire sooner
+ *       approvals: 2                # distinct approvers the pre-approved token must carry
+ *       description: production deploys
+ *
+ * Every field is optional; omitted fields take the `safe` values. Built-ins
+ * (used when the policy does not redefine them):
+ *
+ *   safe   auto-ALLOW
+ *   net    pre-approved token
+ *   fs     pre-approved token
+ *   admin  pre-approved token, blocked in STRICT
+ *
+ * The pipeline enforces them for every caller (scopeElevation): a rule whose
+ * scope needs a pre-approved token is HOLD unless the token being issued is
+ * the human-approved one; a scope blocked in STRICT is STOP there.
+ *
+ * Declarations merge across extends/include by name, later files winning —
+ * the same precedence as rule ids. A rule's `scope:` must name a scope of the
+ * resolved set (checked by the loader once every file is read).
+ */
+
+export const BUILTIN_SCOPES = ['safe', 'net', 'fs', 'admin'] as const;
+
+export type BuiltinScope = (typeof BUILTIN_SCOPES)[number];
+
+/** Scope a rule without `scope:` belongs to. */
+export const DEFAULT_SCOPE: BuiltinScope = 'safe';
+
+/** Matches the pipeline's token TTL — 5 minutes, one run. */
+export const DEFAULT_TOKEN_TTL_SECONDS = 300;
+
+/** Effective semantics of one scope. */
+export interface ScopeDefinition {
+  pre_approved_token: boolean;
+  blocked_in_strict: boolean;
+  /** Seconds */
+  token_ttl: number;
+  approvals: number;
+  description?: string;
+}
+
+/** A scope as written in a policy file — every field optional. */
+export type ScopeDeclaration = Partial<ScopeDefinition>;
+
+/** A scope definition together with its name. */
+export interface ResolvedScope extends ScopeDefinition {
+  name: string;
+}
+
+const SAFE: ScopeDefinition = {
+  pre_approved_token: false,
+  blocked_in_strict: false,
+  token_ttl: DEFAULT_TOKEN_TTL_SECONDS,
+  approvals: 1
+};
+
+export const BUILTIN_SCOPE_DEFINITIONS: Record<BuiltinScope, ScopeDefinition> = {
+  safe: SAFE,
+  net: { ...SAFE, pre_approved_token: true },
+  fs: { ...SAFE, pre_approved_token: true },
+  admin: { ...SAFE, pre_approved_token: true, blocked_in_strict: true }
+};
+
+const SCOPE_NAME = /^[a-z][a-z0-9_-]*$/;
+const SCOPE_KEYS = ['pre_approved_token', 'blocked_in_strict', 'token_ttl', 'approvals', 'description'];
+
+/** Validate one `scopes:` entry. Returns null when valid, else a message. */
+export function checkScopeDeclaration(name: string, value: unknown): string | null {
+  if (!SCOPE_NAME.test(name)) return `scope name "${name}" must match ${SCOPE_NAME.source}`;
+  if (value === null || value === undefined) return null; // `deploy:` alone = safe semantics
+  if (typeof value !== 'object' || Array.isArray(value)) return `scopes.${name} must be a mapping`;
+  for (const [key, v] of Object.entries(value)) {
+    if (!SCOPE_KEYS.includes(key)) return `scopes.${name}: unknown key "${key}" (allowed: ${SCOPE_KEYS.join(', ')})`;
+    if ((key === 'pre_approved_token' || key === 'blocked_in_strict') && typeof v !== 'boolean') {
+      return `scopes.${name}.${key} must be a boolean`;
+    }
+    if ((key === 'token_ttl' || key === 'approvals') && !(Number.isInteger(v) && (v as number) >= 1)) {
+      return `scopes.${name}.${key} must be a positive integer`;
+    }
+    if (key === 'description' && typeof v !== 'string') return `scopes.${name}.description must be a string`;
+  }
+  return null;
+}
+
+/** Built-ins overlaid with the policy's declarations (already merged by name). */
+export function resolveScopes(declared: Record<string, ScopeDeclaration | null>): Record<string, ScopeDefinition> {
+  const out: Record<string, ScopeDefinition> = { ...BUILTIN_SCOPE_DEFINITIONS };
+  for (const [name, declaration] of Object.entries(declared)) {
+    out[name] = { ...SAFE, ...(declaration ?? {}) };
+  }
+  return out;
+}
+
+/** Look up a rule's scope (default `safe`). null if the name is not declared. */
+export function lookupScope(scopes: Record<string, ScopeDefinition>, name: string | undefined): ResolvedScope | null {
+  const key = name ?? DEFAULT_SCOPE;
+  const definition = Object.prototype.hasOwnProperty.call(scopes, key) ? scopes[key] : undefined;
+  return definition ? { name: key, ...definition } : null;
+}
+
+/**
+ * Approval weight for policy diff: higher = more human involvement.
+ * blocked in STRICT > pre-approved token (more approvals weigh more) > auto.
+ */
+export function scopeStrictness(scope: ScopeDefinition): number {
+  if (scope.blocked_in_strict) return 1000;
+  return scope.pre_approved_token ? scope.approvals : 0;
+}
+
+/** Why a matched rule's scope withholds automatic execution. */
+export type ScopeElevation = 'PRE_APPROVED_TOKEN' | 'BLOCKED_IN_STRICT';
+
+/**
+ * What the deciding ALLOW rule's scope requires: BLOCKED_IN_STRICT in STRICT
+ * for a blocked scope, else PRE_APPROVED_TOKEN for a scope that needs a human
+ * token (unless preApproved: the caller is issuing that token). undefined =
+ * auto-ALLOW.
+ */
+export function scopeElevation(scope: ScopeDefinition, strict: boolean, preApproved: boolean): ScopeElevation | undefined {
+  if (scope.blocked_in_strict && strict) return 'BLOCKED_IN_STRICT';
+  if (scope.pre_approved_token && !preApproved) return 'PRE_APPROVED_TOKEN';
+  return undefined;
+}
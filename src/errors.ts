@@ -13,7 +13,8 @@ export type ExecutionDeniedErrorType =
   | 'PROPOSAL_HASH_MISMATCH'
   | 'POLICY_HASH_MISMATCH'
   | 'ENV_FINGERPRINT_MISMATCH'
-  | 'SIGNATURE_INVALID';
+  | 'SIGNATURE_INVALID'
+  | 'EXECUTABLE_DRIFT';
 
 export class ExecutionDeniedError extends Error {
   public readonly error_type: ExecutionDeniedErrorType;
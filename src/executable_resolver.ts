@@ -0,0 +1,132 @@
+/**
+ * Executable Resolver — argv[0] → absolute path + SHA256 of the binary.
+ *
+ * spawn() with a bare command name searches PATH at spawn time. A poisoned
+ * PATH entry or a shim dropped into the workspace would then run under a
+ * token that was issued for the real binary. Instead:
+ *
+ *   1. the pipeline resolves argv[0] once and binds { path, sha256 } into
+ *      the canonical proposal (and therefore into proposal_hash);
+ *   2. the kernel re-resolves and re-hashes immediately before spawn
+ *      (step 8) and spawns the bound absolute path — never the bare name.
+ *
+ * Hashes are cached per realpath, keyed by the file's (dev, ino, size,
+ * mtime, ctime): a proposal for an unchanged binary stats it instead of
+ * reading it. Any write or replacement changes ctime or the inode, so a
+ * changed binary is always hashed again. The kernel's step 8 passes
+ * `rehash` and reads the file itself — the cache never vouches for the
+ * binary that is about to run.
+ *
+ * Resolution rules:
+ *   - command containing '/' → resolved against cwd, no PATH search
+ *   - otherwise first PATH entry holding an executable regular file;
+ *     empty PATH entries (implicit cwd) are ignored
+ *   - symlinks are followed (realpath) — the target is what gets hashed and run
+ *
+ * Never throws. Unresolvable → sentinel values (cf. hashPolicyFile), which
+ * can never match a real binary at kernel step 8.
+ */
+
+import { createHash } from 'crypto';
+import { accessSync, closeSync, constants, openSync, readSync, realpathSync, statSync } from 'fs';
+import { delimiter, isAbsolute, join, resolve } from 'path';
+
+export const EXECUTABLE_NOT_FOUND = 'executable_not_found';
+
+export interface ResolvedExecutable {
+  /** Absolute, symlink-free path — or EXECUTABLE_NOT_FOUND */
+  path: string;
+  /** SHA256 of the file contents — or EXECUTABLE_NOT_FOUND */
+  sha256: string;
+}
+
+export interface ResolveExecutableOptions {
+  /** PATH to search (defaults to this process's PATH) */
+  searchPath?: string;
+  /** Hash the file even when the cache holds it unchanged (kernel step 8) */
+  rehash?: boolean;
+}
+
+const HASH_CHUNK_BYTES = 1024 * 1024;
+const MAX_CACHED_HASHES = 256;
+
+/** realpath → the file's identity when hashed, and its hash */
+const hashCache = new Map<string, { identity: string; sha256: string }>();
+
+function isExecutableFile(path: string): boolean {
+  try {
+    if (!statSync(path).isFile()) return false;
+    accessSync(path, constants.X_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** SHA256 of a file, read in chunks (binaries can be large). */
+export function hashExecutable(path: string): string {
+  const hash = createHash('sha256');
+  const buffer = Buffer.allocUnsafe(HASH_CHUNK_BYTES);
+  const fd = openSync(path, 'r');
+  try {
+    let read: number;
+    while ((read = readSync(fd, buffer, 0, HASH_CHUNK_BYTES, null)) > 0) {
+      hash.update(buffer.subarray(0, read));
+    }
+  } finally {
+    closeSync(fd);
+  }
+  return hash.digest('hex');
+}
+
+/** What changes whenever the file's contents can have changed. */
+function fileIdentity(path: string): string {
+  const { dev, ino, size, mtimeMs, ctimeMs } = statSync(path);
+  return `${dev}:${ino}:${size}:${mtimeMs}:${ctimeMs}`;
+}
+
+/**
+ * hashExecutable through the cache. The identity is taken before reading,
+ * so a write during the read leaves an entry that no longer matches.
+ */
+function cachedHash(path: string, rehash: boolean): string {
+  const identity = fileIdentity(path);
+  const cached = hashCache.get(path);
+  if (!rehash && cached?.identity === identity) return cached.sha256;
+  const sha256 = hashExecutable(path);
+  hashCache.delete(path);
+  hashCache.set(path, { identity, sha256 });
+  if (hashCache.size > MAX_CACHED_HASHES) hashCache.delete(hashCache.keys().next().value!);
+  return sha256;
+}
+
+/** Drop every cached executable hash (tests, benchmarks). */
+export function clearExecutableCache(): void {
+  hashCache.clear();
+}
+
+function findOnPath(command: string, searchPath: string): string | null {
+  if (command.includes('/')) {
+    const candidate = resolve(command);
+    return isExecutableFile(candidate) ? candidate : null;
+  }
+  for (const dir of searchPath.split(delimiter)) {
+    if (dir === '') continue;
+    const candidate = join(isAbsolute(dir) ? dir : resolve(dir), command);
+    if (isExecutableFile(candidate)) return candidate;
+  }
+  return null;
+}
+
+/** Resolve argv[0] the way spawn() would, then pin it by content. */
+export function resolveExecutable(command: string, options: ResolveExecutableOptions = {}): ResolvedExecutable {
+  const { searchPath = process.env['PATH'] ?? '', rehash = false } = options;
+  try {
+    const found = findOnPath(command, searchPath);
+    if (!found) return { path: EXECUTABLE_NOT_FOUND, sha256: EXECUTABLE_NOT_FOUND };
+    const path = realpathSync(found);
+    return { path, sha256: cachedHash(path, rehash) };
+  } catch {
+    return { path: EXECUTABLE_NOT_FOUND, sha256: EXECUTABLE_NOT_FOUND };
+  }
+}
@@ -10,16 +10,21 @@
  *   A verified authority token is required to reach spawn.
  *   Any verification failure throws ExecutionDeniedError — spawn is never reached.
  *
- * Verification chain (7 steps, fail-closed):
+ * Verification chain (8 steps, fail-closed):
  *   1. Token not expired (TTL)
  *   2. decision === 'ALLOW' (blocks HOLD and any other decision)
  *   3. token_id not replayed (in-memory only — reference implementation)
  *   4. proposal_hash matches re-computed canonical hash
- *   5. policy_hash matches current policy content hash
+ *   5. policy_hash matches current policy content hash (+ signature, if signed)
  *   6. environment_fingerprint matches current runtime (3-field reference)
  *   7. ED25519 signature valid
+ *   8. argv[0] re-resolved + re-hashed — must equal the bound executable
  *
+ * spawn() runs the bound absolute path (argv0 = command), never a PATH lookup.
  * Token marked used BEFORE spawn — prevents replay even on hang.
+ *
+ * dryRunWithAuthority() checks the same chain (step 3 reads the registry,
+ * nothing is marked) and reports every step; it never reaches spawn().
  * CI guard: scripts/check-spawn.sh enforces single call site.
  */
 
@@ -29,7 +34,8 @@ import { isTokenUsed, markTokenUsed } from './token_registry.js';
 import { canonicalHash, hashPolicyFile, type CanonicalProposal } from './canonical_proposal.js';
 import { buildEnvironmentFingerprint } from './environment_fingerprint.js';
 import { canonicalStringify } from './canonical_stringify.js';
-import { ExecutionDeniedError } from './errors.js';
+import { ExecutionDeniedError, type ExecutionDeniedErrorType } from './errors.js';
+import { EXECUTABLE_NOT_FOUND, resolveExecutable } from './executable_resolver.js';
 
 export type TokenDecision = 'ALLOW' | 'HOLD';
 
@@ -46,13 +52,13 @@ export interface TokenScope {
 
 /**
  * A token issued by authority_pipeline and passed to the kernel for execution.
- * ALLOW tokens may reach spawn() after all 7 verification steps pass.
+ * ALLOW tokens may reach spawn() after all 8 verification steps pass.
  * HOLD tokens are immediately blocked (step 2).
  */
 export interface VerifiedToken {
   token_id: string;                  // UUIDv7
   proposal_hash: string;             // SHA256(canonical_proposal)
-  policy_hash: string;               // SHA256(policy.yaml) — explicit field
+  policy_hash: string;               // SHA256(resolved policy set) — explicit field
   environment_fingerprint: string;   // SHA256(runner environment)
   policy_version: string;            // = policy_hash (backward compat alias)
   decision: TokenDecision;           // 'ALLOW' | 'HOLD'
@@ -75,6 +81,27 @@ export interface KernelResult {
   executed: true;
 }
 
+/** One verification step as checked by a dry run. */
+export interface VerificationStep {
+  step: number;
+  name: string;
+  passed: boolean;
+  /** Set when the step fails — the error executeWithAuthority would throw */
+  error_type?: ExecutionDeniedErrorType;
+  reason?: string;
+}
+
+/** Result of dryRunWithAuthority — the chain checked, nothing consumed or spawned. */
+export interface DryRunResult {
+  token_id: string;
+  audit_ref: string;
+  /** Every step, in order — later steps are checked even after a failure */
+  steps: VerificationStep[];
+  /** true → executeWithAuthority would reach spawn() */
+  would_execute: boolean;
+  executed: false;
+}
+
 /** JSON audit log entry format */
 interface KernelAuditEntry {
   decision: string;
@@ -85,16 +112,137 @@ interface KernelAuditEntry {
   reason: string;
   executed: boolean;
   error_type?: string;
+  dry_run?: boolean;
 }
 
 function emitAuditLog(entry: KernelAuditEntry): void {
   process.stdout.write(JSON.stringify(entry) + '\n');
 }
 
+interface KernelCheck {
+  step: number;
+  name: string;
+  /** null = passed */
+  check: () => ExecutionDeniedError | null;
+}
+
+/**
+ * The 8-step verification chain, in order. Read-only: no step consumes the
+ * token — marking it used is the caller's job, right before spawn.
+ */
+function verificationChain(proposal: CanonicalProposal, token: VerifiedToken): KernelCheck[] {
+  // Compute current environment fingerprint once — used in step 6 (binding)
+  const currentEnvFingerprint = buildEnvironmentFingerprint(proposal.policy_path);
+
+  return [
+    // --- Step 1: TTL ---
+    { step: 1, name: 'token not expired', check: () => {
+      const now = new Date();
+      const expiresAt = new Date(token.expires_at);
+      return now > expiresAt
+        ? new ExecutionDeniedError('TOKEN_EXPIRED', `Token expired at ${token.expires_at}, now=${now.toISOString()}`)
+        : null;
+    } },
+
+    // --- Step 2: Decision gate (ALLOW only) ---
+    { step: 2, name: 'decision is ALLOW', check: () => token.decision !== 'ALLOW'
+      ? new ExecutionDeniedError('DECISION_NOT_ALLOW', `Token decision is '${token.decision}', not ALLOW`)
+      : null },
+
+    // --- Step 3: Replay prevention (token_id — reference implementation) ---
+    // Production kernel: extended replay prevention — see echo-execution-kernel.
+    { step: 3, name: 'token not replayed', check: () => isTokenUsed(token.token_id)
+      ? new ExecutionDeniedError(
+        'TOKEN_REPLAYED',
+        `Execution replay detected: token_id=${token.token_id} has already been used`
+      )
+      : null },
+
+    // --- Step 4: Proposal hash binding ---
+    { step: 4, name: 'proposal hash', check: () => {
+      const expectedProposalHash = canonicalHash(proposal);
+      return token.proposal_hash !== expectedProposalHash
+        ? new ExecutionDeniedError(
+          'PROPOSAL_HASH_MISMATCH',
+          `Proposal hash mismatch: token=${token.proposal_hash} computed=${expectedProposalHash}`
+        )
+        : null;
+    } },
+
+    // --- Step 5: Policy hash binding (explicit) ---
+    { step: 5, name: 'policy hash', check: () => {
+      const currentPolicyHash = hashPolicyFile(proposal.policy_path, proposal.policy_signature);
+      return token.policy_hash !== currentPolicyHash
+        ? new ExecutionDeniedError(
+          'POLICY_HASH_MISMATCH',
+          `Policy changed since token issuance: token=${token.policy_hash} current=${currentPolicyHash}`
+        )
+        : null;
+    } },
+
+    // --- Step 6: Environment fingerprint binding ---
+    { step: 6, name: 'environment fingerprint', check: () => token.environment_fingerprint !== currentEnvFingerprint
+      ? new ExecutionDeniedError(
+        'ENV_FINGERPRINT_MISMATCH',
+        `Environment changed since token issuance: token=${token.environment_fingerprint} current=${currentEnvFingerprint}`
+      )
+      : null },
+
+    // --- Step 7: ED25519 signature ---
+    { step: 7, name: 'issuer signature', check: () => {
+      const { issuer_signature, public_key_hex, ...payloadWithoutSig } = token;
+      const canonicalPayload = canonicalStringify(payloadWithoutSig);
+      const publicKeyBuffer = Buffer.from(public_key_hex, 'hex');
+      let signatureValid = false;
+      try {
+        const publicKeyObj = createPublicKey({ key: publicKeyBuffer, format: 'der', type: 'spki' });
+        signatureValid = cryptoVerify(
+          null,
+          Buffer.from(canonicalPayload, 'utf8'),
+          publicKeyObj,
+          Buffer.from(issuer_signature, 'hex')
+        );
+      } catch {
+        signatureValid = false;
+      }
+      return signatureValid
+        ? null
+        : new ExecutionDeniedError('SIGNATURE_INVALID', 'ED25519 signature verification failed — token may have been tampered');
+    } },
+
+    // --- Step 8: Executable binding (immediately before spawn) ---
+    // The proposal's executable fields are covered by step 4; here the binary
+    // on disk is checked against them, as late as possible — read again,
+    // never taken from the resolver's hash cache.
+    { step: 8, name: 'executable binding', check: () => {
+      const currentExecutable = resolveExecutable(proposal.command, { rehash: true });
+      return proposal.executable_path === EXECUTABLE_NOT_FOUND ||
+        currentExecutable.path !== proposal.executable_path ||
+        currentExecutable.sha256 !== proposal.executable_hash
+        ? new ExecutionDeniedError(
+          'EXECUTABLE_DRIFT',
+          `Executable changed since token issuance: token=${proposal.executable_path}@${proposal.executable_hash} ` +
+          `current=${currentExecutable.path}@${currentExecutable.sha256}`
+        )
+        : null;
+    } }
+  ];
+}
+
+function auditBaseOf(token: VerifiedToken): Omit<KernelAuditEntry, 'reason' | 'executed'> {
+  return {
+    decision: token.decision,
+    proposal_hash: token.proposal_hash,
+    token_id: token.token_id,
+    policy_hash: token.policy_hash,
+    environment_fingerprint: token.environment_fingerprint
+  };
+}
+
 /**
  * Execute a command under authority of a verified token.
  *
- * All 7 verification steps must pass — fail-closed.
+ * All 8 verification steps must pass — fail-closed.
  * @throws ExecutionDeniedError if any step fails. spawn() is never reached on failure.
  */
 export async function executeWithAuthority(
@@ -104,108 +252,17 @@ export async function executeWithAuthority(
   token: VerifiedToken
 ): Promise<KernelResult> {
 
-  const auditBase = {
-    decision: token.decision,
-    proposal_hash: token.proposal_hash,
-    token_id: token.token_id,
-    policy_hash: token.policy_hash,
-    environment_fingerprint: token.environment_fingerprint
-  };
-
-  // Compute current environment fingerprint once — used in step 6 (binding)
-  const currentEnvFingerprint = buildEnvironmentFingerprint(proposal.policy_path);
-
-  // --- Step 1: TTL ---
-  const now = new Date();
-  const expiresAt = new Date(token.expires_at);
-  if (now > expiresAt) {
-    const err = new ExecutionDeniedError(
-      'TOKEN_EXPIRED',
-      `Token expired at ${token.expires_at}, now=${now.toISOString()}`
-    );
-    emitAuditLog({ ...auditBase, reason: err.message, executed: false, error_type: err.error_type });
-    throw err;
-  }
-
-  // --- Step 2: Decision gate (ALLOW only) ---
-  if (token.decision !== 'ALLOW') {
-    const err = new ExecutionDeniedError(
-      'DECISION_NOT_ALLOW',
-      `Token decision is '${token.decision}', not ALLOW`
-    );
-    emitAuditLog({ ...auditBase, reason: err.message, executed: false, error_type: err.error_type });
-    throw err;
-  }
-
-  // --- Step 3: Replay prevention (token_id — reference implementation) ---
-  // Production kernel: extended replay prevention — see echo-execution-kernel.
-  if (isTokenUsed(token.token_id)) {
-    const err = new ExecutionDeniedError(
-      'TOKEN_REPLAYED',
-      `Execution replay detected: token_id=${token.token_id} has already been used`
-    );
-    emitAuditLog({ ...auditBase, reason: err.message, executed: false, error_type: err.error_type });
-    throw err;
-  }
-
-  // --- Step 4: Proposal hash binding ---
-  const expectedProposalHash = canonicalHash(proposal);
-  if (token.proposal_hash !== expectedProposalHash) {
-    const err = new ExecutionDeniedError(
-      'PROPOSAL_HASH_MISMATCH',
-      `Proposal hash mismatch: token=${token.proposal_hash} computed=${expectedProposalHash}`
-    );
-    emitAuditLog({ ...auditBase, reason: err.message, executed: false, error_type: err.error_type });
-    throw err;
-  }
-
-  // --- Step 5: Policy hash binding (explicit) ---
-  const currentPolicyHash = hashPolicyFile(proposal.policy_path);
-  if (token.policy_hash !== currentPolicyHash) {
-    const err = new ExecutionDeniedError(
-      'POLICY_HASH_MISMATCH',
-      `Policy changed since token issuance: token=${token.policy_hash} current=${currentPolicyHash}`
-    );
-    emitAuditLog({ ...auditBase, reason: err.message, executed: false, error_type: err.error_type });
-    throw err;
-  }
-
-  // --- Step 6: Environment fingerprint binding ---
-  if (token.environment_fingerprint !== currentEnvFingerprint) {
-    const err = new ExecutionDeniedError(
-      'ENV_FINGERPRINT_MISMATCH',
-      `Environment changed since token issuance: token=${token.environment_fingerprint} current=${currentEnvFingerprint}`
-    );
-    emitAuditLog({ ...auditBase, reason: err.message, executed: false, error_type: err.error_type });
-    throw err;
-  }
+  const auditBase = auditBaseOf(token);
 
-  // --- Step 7: ED25519 signature ---
-  const { issuer_signature, public_key_hex, ...payloadWithoutSig } = token;
-  const canonicalPayload = canonicalStringify(payloadWithoutSig);
-  const publicKeyBuffer = Buffer.from(public_key_hex, 'hex');
-  let signatureValid = false;
-  try {
-    const publicKeyObj = createPublicKey({ key: publicKeyBuffer, format: 'der', type: 'spki' });
-    signatureValid = cryptoVerify(
-      null,
-      Buffer.from(canonicalPayload, 'utf8'),
-      publicKeyObj,
-      Buffer.from(issuer_signature, 'hex')
-    );
-  } catch {
-    signatureValid = false;
-  }
-  if (!signatureValid) {
-    const err = new ExecutionDeniedError(
-      'SIGNATURE_INVALID',
-      'ED25519 signature verification failed — token may have been tampered'
-    );
-    emitAuditLog({ ...auditBase, reason: err.message, executed: false, error_type: err.error_type });
-    throw err;
+  for (const { check } of verificationChain(proposal, token)) {
+    const err = check();
+    if (err) {
+      emitAuditLog({ ...auditBase, reason: err.message, executed: false, error_type: err.error_type });
+      throw err;
+    }
   }
 
-  // --- All 7 steps passed ---
+  // --- All 8 steps passed ---
   // Mark token used BEFORE spawn (replay blocked even on hang)
   // Reference: token_id only. Production kernel: extended — see private kernel.
   markTokenUsed(token.token_id, {
@@ -225,7 +282,7 @@ export async function executeWithAuthority(
 
   // THE ONLY spawn() call in this codebase.
   const exitCode = await new Promise<number>((resolve, reject) => {
-    const child = spawn(command, args, { stdio: 'inherit', shell: false });
+    const child = spawn(proposal.executable_path, args, { argv0: command, stdio: 'inherit', shell: false });
     child.on('close', (code) => resolve(code ?? 0));
     child.on('error', (err) => reject(err));
   });
@@ -237,3 +294,24 @@ export async function executeWithAuthority(
     executed: true
   };
 }
+
+/**
+ * Dry run: check all 8 verification steps for this token without consuming
+ * it (the replay registry is read, never written) and without spawning.
+ * Never throws for a failed step — failures are reported per step.
+ */
+export function dryRunWithAuthority(proposal: CanonicalProposal, token: VerifiedToken): DryRunResult {
+  const steps = verificationChain(proposal, token).map(({ step, name, check }): VerificationStep => {
+    const err = check();
+    return err ? { step, name, passed: false, error_type: err.error_type, reason: err.message } : { step, name, passed: true };
+  });
+  const failed = steps.find((s) => !s.passed);
+  emitAuditLog({
+    ...auditBaseOf(token),
+    reason: failed ? `dry_run: step ${failed.step} ${failed.reason}` : 'dry_run: all 8 steps pass',
+    executed: false,
+    ...(failed ? { error_type: failed.error_type! } : {}),
+    dry_run: true
+  });
+  return { token_id: token.token_id, audit_ref: token.audit_ref, steps, would_execute: failed === undefined, executed: false };
+}
@@ -0,0 +1,27 @@
+/**
+ * ICounterStore — Interface contract for execution quota counters.
+ *
+ * Backs `max_executions` (core/quotas.ts). Keys are opaque strings built by
+ * quotaCounter(); a key with an expiry (per: window) reads as 0 once the
+ * expiry has passed.
+ *
+ * Implementations:
+ *   - MemoryCounterStore (src/stores/memory_counter_store.ts) — reference PoC
+ *   - FileCounterStore (src/stores/file_counter_store.ts) — one JSON file; the
+ *     action and shell wrapper keep it under RUNNER_TEMP (config/quota.ts)
+ *
+ * The store is NOT the execution authority. A count below the limit does
+ * not grant execution; the policy decision and the kernel's 8-step
+ * verification chain still apply.
+ */
+
+export interface ICounterStore {
+  /** Current count for a key (0 when unknown or expired). */
+  get(key: string): number;
+
+  /**
+   * Add one and return the new count. expiresAt (ISO) is set when the key is
+   * created; null = no expiry.
+   */
+  increment(key: string, expiresAt: string | null): number;
+}
@@ -12,7 +12,7 @@
  *
  * The store is NOT the execution authority.
  * Storing a token does NOT grant execution.
- * The kernel's 7-step verification chain is the authority.
+ * The kernel's 8-step verification chain is the authority.
  */
 
 import type { VerifiedToken } from '../execution_kernel.js';
@@ -0,0 +1,71 @@
+/**
+ * Job Summary — one markdown table row per guarded command.
+ *
+ *   | Verdict  | Command     | Rule                      | Scope | Gate mode | token_id | audit_ref | Proposal hash  | Exit code | Duration |
+ *   | ✅ ALLOW | `npm test`  | `test` (policy.yaml:12)   | safe  | STRICT    | 0199...  | 0199...   | `3f2a9c1d04e5` | 0         | 812 ms   |
+ *   | ⛔ STOP  | `curl x`    | default (policy.yaml:3)   | —     | STRICT    | —        | —         | `b71e02aa9f10` | —         | 4 ms     |
+ *
+ * Written by the action (main.ts) through core.summary; pure formatting here.
+ */
+
+/** The fields of one command's outcome the table shows. */
+export interface SummaryRow {
+  command: string;
+  args: string[];
+  verdict: 'ALLOW' | 'HOLD' | 'STOP' | 'SKIPPED';
+  /** Deciding rule label (id, else rules[i]) — '' on a policy miss */
+  rule: string;
+  /** `file:line` of the deciding rule, or of `default:` on a miss — '' when unknown */
+  rule_source: string;
+  scope: string;
+  token_id: string;
+  audit_ref: string;
+  proposal_hash: string;
+  exit_code: number | null;
+  duration_ms: number | null;
+}
+
+const VERDICT_ICONS: Record<SummaryRow['verdict'], string> = {
+  ALLOW: '✅',
+  HOLD: '⚠️',
+  STOP: '⛔',
+  SKIPPED: '⏭️'
+};
+
+/** Shown length of proposal hashes — enough to find the full one in the log. */
+const HASH_PREFIX = 12;
+
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function ruleCell(row: SummaryRow): string {
+  if (row.verdict === 'SKIPPED') return '—';
+  const label = row.rule ? `\`${cell(row.rule)}\`` : 'default';
+  return row.rule_source ? `${label} (${cell(row.rule_source)})` : label;
+}
+
+/** Markdown for the job summary. dryRun marks every verdict as not executed. */
+export function formatJobSummaryMarkdown(rows: readonly SummaryRow[], gateMode: string, dryRun = false): string {
+  const lines = [
+    `### Execution Guard${dryRun ? ' — dry run (nothing executed)' : ''}`,
+    '',
+    '| Verdict | Command | Rule | Scope | Gate mode | token_id | audit_ref | Proposal hash | Exit code | Duration |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |'
+  ];
+  for (const row of rows) {
+    lines.push('| ' + [
+      `${VERDICT_ICONS[row.verdict]} ${row.verdict}`,
+      `\`${cell([row.command, ...row.args].join(' '))}\``,
+      ruleCell(row),
+      row.scope ? cell(row.scope) : '—',
+      gateMode,
+      row.token_id || '—',
+      row.audit_ref || '—',
+      row.proposal_hash ? `\`${row.proposal_hash.slice(0, HASH_PREFIX)}\`` : '—',
+      row.exit_code === null ? '—' : String(row.exit_code),
+      row.duration_ms === null ? '—' : `${row.duration_ms} ms`
+    ].join(' | ') + ' |');
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,146 @@
+/**
+ * Execution Guard Action — run() (v0.4.0)
+ *
+ * 3-layer architecture:
+ *   Layer 1: Front Gate (GateMode.STRICT | GateMode.PERMISSIVE)
+ *   Layer 2: Authority Token (cryptographic binding, replay, TTL, policy lock)
+ *   Layer 3: Execution Kernel (single spawn site, 8-step verify)
+ *
+ * Inputs are validated before anything else runs: an unknown gate_mode, a
+ * non-boolean flag or a command that is not a plain argv (unbalanced quotes,
+ * shell operators — see command_tokenizer.ts) fails the step without a
+ * decision (no token, no outputs).
+ *
+ * `command` guards one command. `commands` guards a batch in order, in one
+ * step (one registry, one compiled policy): each command gets its own
+ * pipeline decision, token and kernel run. on_failure: stop skips the rest
+ * after the first failure; continue runs them all. Either way every command
+ * is reported in the `results` output and `verdict` is the aggregate.
+ *
+ * dry_run: decide and issue tokens as usual, then check the kernel's 8
+ * verification steps without consuming the token and stop before spawn.
+ * Each result carries the steps and the token; a command that would not run
+ * (STOP, HOLD with fail_on_hold, a failing step) fails the step. Nothing is
+ * counted: no replay registry entry, no quota use, no learning observation.
+ *
+ * Quotas are counted in a file under RUNNER_TEMP (config/quota.ts), so they
+ * span every guarded step of the job, not just this one.
+ *
+ * Every run writes a job summary table (job_summary.ts), one row per
+ * command. STOP and HOLD are annotated on the policy line that decided them:
+ * the deciding rule, or `default:` on a miss.
+ *
+ * Per-command guarding lives in command_guard.ts (shared with the shell
+ * wrapper); this module reads the inputs and sets the step outputs.
+ * run() returns the step's exit code; index.ts is the process entry point.
+ *
+ * Core is SEALED. This adapter NEVER modifies evaluate.ts.
+ * Core invariant hash: 54add9db6f88f28a81bbfd428d47fa011ad9151b91df672c3c1fa75beac32f04
+ */
+
+import * as core from '@actions/core';
+import { initRegistry, setAuditLog } from './token_registry.js';
+import { GateMode, parseModeFromEnv } from './config/mode.js';
+import { parseBooleanInput, parseChoiceInput } from './config/inputs.js';
+import { parseCommandFromEnv, parseCommandListFromEnv, type CommandInput } from './config/command.js';
+import { parseContextFromEnv, parsePathRootsFromEnv } from './config/context.js';
+import { parseSignatureFromEnv } from './config/signature.js';
+import { parseQuotaFromEnv } from './config/quota.js';
+import type { PolicySignatureConfig } from './core/policy_signature.js';
+import {
+  aggregateVerdict,
+  describeBatch,
+  guardCommands,
+  ON_FAILURE,
+  outcomeExitCode,
+  summarizeOutcomes,
+  type GuardSettings,
+  type OnFailure
+} from './command_guard.js';
+
+/** Validated action inputs. */
+interface ActionInputs {
+  commands: CommandInput[];
+  /** true → `commands` input (aggregate outputs), false → single `command` */
+  batch: boolean;
+  onFailure: OnFailure;
+  mode: GateMode;
+  allowWithAudit: boolean;
+  failOnHold: boolean;
+  explain: boolean;
+  dryRun: boolean;
+  signature: PolicySignatureConfig | undefined;
+}
+
+/** @throws Error naming the offending input */
+function parseInputs(): ActionInputs {
+  const mode = parseModeFromEnv();
+  const allowWithAudit = parseBooleanInput('allow_with_audit', false);
+  if (allowWithAudit && mode !== GateMode.PERMISSIVE) {
+    throw new Error(`allow_with_audit requires gate_mode PERMISSIVE (gate_mode is ${mode}).`);
+  }
+  const list = parseCommandListFromEnv();
+  return {
+    commands: list ?? [parseCommandFromEnv()],
+    batch: list !== undefined,
+    onFailure: parseChoiceInput('on_failure', ON_FAILURE, 'stop'),
+    mode,
+    allowWithAudit,
+    failOnHold: parseBooleanInput('fail_on_hold', true),
+    explain: parseBooleanInput('explain', false),
+    dryRun: parseBooleanInput('dry_run', false),
+    signature: parseSignatureFromEnv()
+  };
+}
+
+/** Run the action once for the current INPUT_* environment. Resolves to the exit code. */
+export async function run(): Promise<number> {
+  // Initialize token replay registry
+  initRegistry();
+
+  const policyPath = process.env['INPUT_POLICY_PATH'] ?? './policy.yaml';
+  const learn = (process.env['INPUT_LEARN_PATH'] ?? '').trim();
+  const auditLog = (process.env['INPUT_AUDIT_LOG_PATH'] ?? '').trim();
+  const context = parseContextFromEnv();
+  const paths = parsePathRootsFromEnv();
+  const quota = parseQuotaFromEnv();
+
+  let inputs: ActionInputs;
+  try {
+    inputs = parseInputs();
+  } catch (err) {
+    core.setFailed(`Invalid input: ${err instanceof Error ? err.message : String(err)}`);
+    return 1;
+  }
+  const { commands, batch, onFailure, mode, allowWithAudit, failOnHold, explain, dryRun, signature } = inputs;
+
+  if (auditLog) setAuditLog(auditLog);
+
+  const settings: GuardSettings = {
+    policyPath, mode, allowWithAudit, failOnHold, batch, dryRun,
+    options: { context, explain, paths, quota, dry_run: dryRun, ...(signature ? { signature } : {}), ...(learn ? { learn } : {}) }
+  };
+
+  const outcomes = await guardCommands(commands, settings, onFailure, batch ? (index) => `commands[${index}]` : undefined);
+  await summarizeOutcomes(outcomes, settings);
+
+  // GitHub Actions outputs — a batch reports the aggregate; per-command detail is in `results`
+  const single = batch ? undefined : outcomes[0]!;
+  core.setOutput('verdict', single?.verdict ?? aggregateVerdict(outcomes));
+  core.setOutput('proposal_hash', single?.proposal_hash ?? '');
+  core.setOutput('reason', single?.reason ?? describeBatch(outcomes));
+  core.setOutput('token_id', single?.token_id ?? '');
+  core.setOutput('audit_ref', single?.audit_ref ?? '');
+  core.setOutput('environment_fingerprint', single?.environment_fingerprint ?? '');
+  core.setOutput('gate_mode', mode);
+  core.setOutput('results', JSON.stringify(outcomes));
+
+  const firstFailure = outcomes.find((o) => o.failed);
+  if (batch) {
+    console.log(`\n${describeBatch(outcomes)} (on_failure: ${onFailure})`);
+    if (firstFailure) {
+      core.setFailed(`Batch failed at commands[${firstFailure.index}] (${firstFailure.command}): ${describeBatch(outcomes)}`);
+    }
+  }
+  return firstFailure ? outcomeExitCode(firstFailure) : 0;
+}
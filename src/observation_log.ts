@@ -0,0 +1,37 @@
+/**
+ * Observation Log — learning mode record of PERMISSIVE policy misses.
+ *
+ * Opt-in (PipelineOptions.learn / action input `learn_path`). Every
+ * PERMISSIVE proposal that no rule allowed — a HOLD, or an AUDITED_PERMIT
+ * under allow_with_audit — is appended as one JSON line:
+ *
+ *   {"command":"git","args":["fetch","--tags"],"decision":"HOLD",...}
+ *
+ * `npm run policy -- learn <log.jsonl>` turns the log into a candidate
+ * policy (see tools/policy_learn.ts). STRICT never records: a miss there is
+ * STOP, and onboarding runs in PERMISSIVE.
+ *
+ * Append-only, one write per record. A log that cannot be written fails the
+ * pipeline closed (STOP) — learning mode must not silently drop proposals.
+ */
+
+import { appendFileSync } from 'fs';
+import type { EvaluationContext } from './core/conditions.js';
+
+export type ObservedDecision = 'HOLD' | 'AUDITED_PERMIT';
+
+export interface Observation {
+  command: string;
+  args: string[];
+  decision: ObservedDecision;
+  proposal_hash: string;
+  context: EvaluationContext;
+  /** Evaluation reason — names the closest rule when one existed */
+  reason: string;
+  timestamp: string;
+}
+
+/** Append one observation to the log (created on first write). */
+export function recordObservation(logPath: string, observation: Observation): void {
+  appendFileSync(logPath, JSON.stringify(observation) + '\n', 'utf8');
+}
@@ -0,0 +1,151 @@
+/**
+ * Shell Wrapper — guards existing `run:` steps without rewriting them.
+ *
+ *   - run: |
+ *       npm ci
+ *       npm test
+ *     shell: execution-guard {0}
+ *
+ * The runner writes the step's script to a file and runs the wrapper with
+ * its path. The script is parsed into simple commands (shell_script.ts) and
+ * rejected as a whole, before anything runs, if any line is not one. Each
+ * command then goes through the same pipeline + kernel as the action's
+ * `commands` batch (command_guard.ts): its own decision, token and spawn,
+ * in script order. Nothing is ever handed to a shell.
+ *
+ * Settings come from the environment (step or job `env:`), named like the
+ * action's inputs with an EXECUTION_GUARD_ prefix:
+ *
+ *   EXECUTION_GUARD_POLICY_PATH      default ./policy.yaml
+ *   EXECUTION_GUARD_GATE_MODE        STRICT | PERMISSIVE
+ *   EXECUTION_GUARD_ON_FAILURE       stop (default, like `bash -e`) | continue
+ *   EXECUTION_GUARD_ALLOW_WITH_AUDIT, _FAIL_ON_HOLD, _EXPLAIN, _DRY_RUN,
+ *   _POLICY_PUBLIC_KEY, _POLICY_SIGNATURE_PATH, _LEARN_PATH, _AUDIT_LOG_PATH
+ *
+ * Quotas are counted in the action's file under RUNNER_TEMP (config/quota.ts):
+ * a `per: run` limit covers every guarded step of the job, wrapped or not.
+ *
+ * Exit code: 0 when every command succeeded; otherwise the first failed
+ * command's exit code (1 for STOP, HOLD with fail_on_hold or a kernel
+ * refusal); 2 for a rejected script, invalid settings or bad usage.
+ */
+
+import { readFileSync } from 'fs';
+import * as core from '@actions/core';
+import { initRegistry, setAuditLog } from './token_registry.js';
+import { GateMode, parseModeFromEnv } from './config/mode.js';
+import { parseBooleanInput, parseChoiceInput } from './config/inputs.js';
+import { parseContextFromEnv, parsePathRootsFromEnv } from './config/context.js';
+import { parseSignatureFromEnv } from './config/signature.js';
+import { parseQuotaFromEnv } from './config/quota.js';
+import { parseShellScript } from './shell_script.js';
+import {
+  describeBatch,
+  guardCommands,
+  ON_FAILURE,
+  outcomeExitCode,
+  summarizeOutcomes,
+  type GuardSettings,
+  type OnFailure
+} from './command_guard.js';
+
+const SETTING_PREFIX = 'EXECUTION_GUARD_';
+
+/** Exit code for a script or configuration that was refused before any decision. */
+const EXIT_REJECTED = 2;
+
+const USAGE = 'Usage: execution-guard <script-file>   (workflow step: shell: execution-guard {0})';
+
+/** EXECUTION_GUARD_<NAME> → INPUT_<NAME>, so the action's input parsers apply unchanged. */
+function settingsAsInputs(env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  const inputs: NodeJS.ProcessEnv = {};
+  for (const [key, value] of Object.entries(env)) {
+    if (key.startsWith(SETTING_PREFIX)) inputs[`INPUT_${key.slice(SETTING_PREFIX.length)}`] = value;
+  }
+  return inputs;
+}
+
+/** @throws Error naming the offending setting (input name) */
+function parseSettings(inputs: NodeJS.ProcessEnv): { settings: GuardSettings; onFailure: OnFailure } {
+  const mode = parseModeFromEnv(inputs);
+  const allowWithAudit = parseBooleanInput('allow_with_audit', false, inputs);
+  if (allowWithAudit && mode !== GateMode.PERMISSIVE) {
+    throw new Error(`allow_with_audit requires gate_mode PERMISSIVE (gate_mode is ${mode}).`);
+  }
+  const dryRun = parseBooleanInput('dry_run', false, inputs);
+  const signature = parseSignatureFromEnv(inputs);
+  const learn = (inputs['INPUT_LEARN_PATH'] ?? '').trim();
+  return {
+    settings: {
+      policyPath: (inputs['INPUT_POLICY_PATH'] ?? '').trim() || './policy.yaml',
+      mode,
+      allowWithAudit,
+      failOnHold: parseBooleanInput('fail_on_hold', true, inputs),
+      batch: true,
+      dryRun,
+      options: {
+        context: parseContextFromEnv(),
+        explain: parseBooleanInput('explain', false, inputs),
+        paths: parsePathRootsFromEnv(),
+        quota: parseQuotaFromEnv(),
+        dry_run: dryRun,
+        ...(signature ? { signature } : {}),
+        ...(learn ? { learn } : {})
+      }
+    },
+    onFailure: parseChoiceInput('on_failure', ON_FAILURE, 'stop', inputs)
+  };
+}
+
+/** Guard the script at argv[0]. Resolves to the process exit code. */
+export async function runShell(argv: string[]): Promise<number> {
+  if (argv.length !== 1) {
+    console.error(USAGE);
+    return EXIT_REJECTED;
+  }
+  const [scriptPath] = argv as [string];
+
+  initRegistry();
+
+  const inputs = settingsAsInputs(process.env);
+  let parsed: ReturnType<typeof parseSettings>;
+  try {
+    parsed = parseSettings(inputs);
+  } catch (err) {
+    core.error(`Invalid ${SETTING_PREFIX}* setting: ${err instanceof Error ? err.message : String(err)}`);
+    return EXIT_REJECTED;
+  }
+  const { settings, onFailure } = parsed;
+
+  let script: string;
+  try {
+    script = readFileSync(scriptPath, 'utf8');
+  } catch (err) {
+    core.error(`Script could not be read: ${err instanceof Error ? err.message : String(err)}`);
+    return EXIT_REJECTED;
+  }
+
+  const { commands, errors } = parseShellScript(script);
+  if (errors.length > 0) {
+    for (const err of errors) core.error(err.message, { title: 'Execution Guard: script rejected' });
+    console.error(`\n❌ SCRIPT REJECTED — ${errors.length} line(s) are not simple commands; nothing was run.`);
+    return EXIT_REJECTED;
+  }
+
+  const auditLog = (inputs['INPUT_AUDIT_LOG_PATH'] ?? '').trim();
+  if (auditLog) setAuditLog(auditLog);
+
+  const outcomes = await guardCommands(commands, settings, onFailure, (index) => `line ${commands[index]!.line}`);
+  await summarizeOutcomes(outcomes, settings);
+
+  // Per-line verdicts, in script order
+  console.log(`\n${describeBatch(outcomes)} (on_failure: ${onFailure})`);
+  for (const outcome of outcomes) {
+    const { line, text } = commands[outcome.index]!;
+    const exit = outcome.exit_code === null ? '' : ` (exit ${outcome.exit_code})`;
+    console.log(`   line ${line}: ${outcome.verdict.padEnd(7)} ${text}${exit}`);
+  }
+
+  const firstFailure = outcomes.find((o) => o.failed);
+  return firstFailure ? outcomeExitCode(firstFailure) : 0;
+}
@@ -0,0 +1,151 @@
+/**
+ * Shell Script Parser — a `run:` script → simple commands, one per line.
+ *
+ * The shell wrapper (shell.ts) guards existing `run:` steps without a shell:
+ * every line must be a simple command the tokenizer (command_tokenizer.ts)
+ * turns into argv. Anything whose meaning depends on a shell is rejected,
+ * never approximated:
+ *
+ *   npm ci                         → [npm, ci]
+ *   npm test -- --reporter "dot"   → [npm, test, --, --reporter, dot]
+ *   terraform plan \               → [terraform, plan, -out, tf.plan]
+ *     -out tf.plan                   (backslash-newline joins lines, as in sh,
+ *                                     outside comments and single quotes)
+ *   echo done  # trailing comment  → [echo, done]
+ *   # comment / blank line         → skipped
+ *   npm test && npm run lint       → rejected   (operator — tokenizer)
+ *   rm -f *.log / cat ~/.npmrc     → rejected   (glob / tilde / brace — tokenizer;
+ *                                     quoted '*.log' is a literal argument)
+ *   if [ -f x ]; then ...          → rejected   (compound construct)
+ *   FOO=1 npm test                 → rejected   (variable assignment)
+ *   cd app                         → rejected   (builtin changing shell state)
+ *
+ * Every line is checked before anything runs; all problems are reported,
+ * each with its 1-based line and column. Pure function.
+ */
+
+import { CommandSyntaxError, tokenizeCommand } from './command_tokenizer.js';
+import type { CommandInput } from './config/command.js';
+
+/** Reserved words that open or belong to a compound command (POSIX sh + bash). */
+const COMPOUND_WORDS = new Set([
+  'if', 'then', 'else', 'elif', 'fi', 'case', 'esac', 'for', 'select', 'while', 'until',
+  'do', 'done', 'in', 'function', 'time', '{', '}', '!', '[[', ']]'
+]);
+
+/** Builtins that act on the shell itself or its jobs — meaningless as a separate process. */
+const SHELL_STATE_BUILTINS = new Set([
+  'cd', 'pushd', 'popd', 'export', 'unset', 'set', 'shopt', 'source', '.', 'eval', 'exec',
+  'exit', 'return', 'trap', 'alias', 'unalias', 'umask', 'readonly', 'local', 'declare', 'typeset',
+  'read', 'wait', 'shift', 'getopts', 'hash', 'ulimit', 'command', 'builtin', 'let'
+]);
+
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+/** One simple command of a script. */
+export interface ScriptCommand extends CommandInput {
+  /** 1-based line the command starts on */
+  line: number;
+  /** Source text, continuation lines joined */
+  text: string;
+}
+
+export class ScriptSyntaxError extends Error {
+  /** 1-based line of the offending command */
+  readonly line: number;
+  /** 1-based column within the (joined) command text */
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`line ${line}: ${message} (column ${column})`);
+    this.name = 'ScriptSyntaxError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export interface ParsedScript {
+  /** In script order; empty when the script has no commands */
+  commands: ScriptCommand[];
+  /** Every rejected line — the script must not run when non-empty */
+  errors: ScriptSyntaxError[];
+}
+
+/**
+ * Unescaped trailing backslash → the line continues onto the next. Not in a
+ * comment or inside single quotes, where sh takes the backslash literally;
+ * quote state carries over from the lines already joined into `text`.
+ */
+function continues(text: string): boolean {
+  let quote: "'" | '"' | null = null;
+  let inWord = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quote === "'") {
+      if (ch === "'") quote = null;
+    } else if (ch === '\\') {
+      if (i === text.length - 1) return true;
+      i++;
+      inWord = true;
+    } else if (quote === '"') {
+      if (ch === '"') quote = null;
+    } else if (ch === ' ' || ch === '\t') {
+      inWord = false;
+    } else if (ch === '#' && !inWord) {
+      return false;
+    } else {
+      if (ch === "'" || ch === '"') quote = ch;
+      inWord = true;
+    }
+  }
+  return false;
+}
+
+/** Split a script into simple commands; never throws for script content. */
+export function parseShellScript(script: string): ParsedScript {
+  const lines = script.split('\n').map((line) => line.replace(/\r$/, ''));
+  const commands: ScriptCommand[] = [];
+  const errors: ScriptSyntaxError[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = i + 1;
+    let text = lines[i]!;
+    while (continues(text) && i + 1 < lines.length) text = text.slice(0, -1) + lines[++i]!;
+
+    const trimmed = text.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) continue;
+
+    // `if x; then` / `while ...; do` — name the construct, not its first `;`
+    const keyword = /^[^\s;&|()]+/.exec(trimmed)?.[0] ?? '';
+    if (COMPOUND_WORDS.has(keyword)) {
+      errors.push(new ScriptSyntaxError(
+        `compound shell construct "${keyword}" is not supported — one simple command per line`, line, text.indexOf(keyword) + 1
+      ));
+      continue;
+    }
+
+    let argv: string[];
+    try {
+      argv = tokenizeCommand(text, { comments: true, patterns: true });
+    } catch (err) {
+      if (!(err instanceof CommandSyntaxError)) throw err;
+      errors.push(new ScriptSyntaxError(err.message.replace(/ \(column \d+\)$/, ''), line, err.column));
+      continue;
+    }
+
+    const [command, ...args] = argv as [string, ...string[]];
+    const column = text.indexOf(command) + 1;
+    if (ASSIGNMENT.test(command)) {
+      errors.push(new ScriptSyntaxError(
+        `variable assignment "${command}" is not supported — set env: on the step instead`, line, column
+      ));
+    } else if (SHELL_STATE_BUILTINS.has(command)) {
+      errors.push(new ScriptSyntaxError(
+        `shell builtin "${command}" is not supported — each line runs as its own process, not in a shell`, line, column
+      ));
+    } else {
+      commands.push({ line, text: trimmed, command, args });
+    }
+  }
+  return { commands, errors };
+}
@@ -0,0 +1,61 @@
+/**
+ * FileCounterStore — ICounterStore persisted to one JSON file.
+ *
+ * Used by the action and the shell wrapper, whose every step is its own
+ * process: the file (under RUNNER_TEMP, see config/quota.ts) carries the
+ * counts from one guarded step to the next, so `per: run` spans all of them.
+ * RUNNER_TEMP is emptied at the start of every job — counts never reach
+ * another job or run. Steps of a job run one after another; the file is
+ * read before and rewritten (write + rename) after each increment.
+ *
+ * An unreadable or malformed file reads as empty: the worst case is a quota
+ * counted again from zero, never a refusal to decide. Expired keys
+ * (per: window) read as 0 and are dropped on the next write.
+ */
+
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { ICounterStore } from '../interfaces/counter_store.js';
+
+interface CounterRecord {
+  count: number;
+  expires_at: string | null;
+}
+
+export class FileCounterStore implements ICounterStore {
+  constructor(private readonly _path: string) {}
+
+  get(key: string): number {
+    return this._live()[key]?.count ?? 0;
+  }
+
+  increment(key: string, expiresAt: string | null): number {
+    const counters = this._live();
+    const record = counters[key] ?? { count: 0, expires_at: expiresAt };
+    record.count += 1;
+    counters[key] = record;
+    mkdirSync(dirname(this._path), { recursive: true });
+    const tmp = `${this._path}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(counters), 'utf8');
+    renameSync(tmp, this._path);
+    return record.count;
+  }
+
+  private _live(): Record<string, CounterRecord> {
+    let counters: Record<string, CounterRecord>;
+    try {
+      counters = JSON.parse(readFileSync(this._path, 'utf8')) as Record<string, CounterRecord>;
+    } catch {
+      return {};
+    }
+    if (counters === null || typeof counters !== 'object' || Array.isArray(counters)) return {};
+    const now = new Date();
+    const live: Record<string, CounterRecord> = {};
+    for (const [key, record] of Object.entries(counters)) {
+      if (record === null || typeof record !== 'object' || typeof record.count !== 'number') continue;
+      if (record.expires_at !== null && now >= new Date(record.expires_at)) continue;
+      live[key] = record;
+    }
+    return live;
+  }
+}
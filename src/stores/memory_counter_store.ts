@@ -0,0 +1,44 @@
+/**
+ * MemoryCounterStore — In-memory ICounterStore implementation.
+ *
+ * REFERENCE IMPLEMENTATION ONLY.
+ * Counts survive only for the current process lifetime, so `per: run`
+ * quotas hold for one guard process (an OpenClaw agent host, or a single
+ * action step); share a persistent store to count across processes.
+ *
+ * Expired keys (per: window) read as 0 and are dropped on access.
+ */
+
+import type { ICounterStore } from '../interfaces/counter_store.js';
+
+interface CounterRecord {
+  count: number;
+  expires_at: string | null;
+}
+
+export class MemoryCounterStore implements ICounterStore {
+  private readonly _counters = new Map<string, CounterRecord>();
+
+  get(key: string): number {
+    return this._live(key)?.count ?? 0;
+  }
+
+  increment(key: string, expiresAt: string | null): number {
+    const record = this._live(key) ?? { count: 0, expires_at: expiresAt };
+    record.count += 1;
+    this._counters.set(key, record);
+    return record.count;
+  }
+
+  private _live(key: string): CounterRecord | undefined {
+    const record = this._counters.get(key);
+    if (record && record.expires_at !== null && new Date() >= new Date(record.expires_at)) {
+      this._counters.delete(key);
+      return undefined;
+    }
+    return record;
+  }
+}
+
+/** Default singleton instance for reference use. */
+export const memoryCounterStore = new MemoryCounterStore();
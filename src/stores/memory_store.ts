@@ -8,7 +8,7 @@
  * Security properties preserved:
  *   - TTL validation on retrieve (expired tokens return null)
  *   - The store is NOT the execution authority
- *   - Kernel 7-step verification is always required after retrieval
+ *   - Kernel 8-step verification is always required after retrieval
  */
 
 import type { ITokenStore } from '../interfaces/token_store.js';
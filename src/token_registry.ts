@@ -9,9 +9,16 @@
  *
  * Fail-closed: If registry cannot be read, assume clean state.
  * In-memory only: does not persist across process restarts.
+ *
+ * Audit records: appendAuditRecord() is a no-op until setAuditLog() names a
+ * JSONL file (action input `audit_log_path`); then every record is appended
+ * as one line — the input of `policy coverage` (tools/policy_coverage.ts).
  */
 
+import { appendFileSync } from 'fs';
+
 const usedTokenIds = new Set<string>();
+let auditLogPath: string | null = null;
 
 /**
  * Initialize registry. No-op for reference implementation
@@ -41,9 +48,21 @@ export function markTokenUsed(
   usedTokenIds.add(tokenId);
 }
 
+/** Persist audit records to this JSONL file (null = no persistence, the default). */
+export function setAuditLog(path: string | null): void {
+  auditLogPath = path;
+}
+
 /**
- * Append a general audit record. No-op in reference implementation.
+ * Append a general audit record. No-op unless setAuditLog() was called.
+ * Never throws: the record is evidence, not authority — a write failure is
+ * reported on stderr and the decision stands.
  */
-export function appendAuditRecord(_entry: Record<string, unknown>): void {
-  // Reference implementation: no persistence
+export function appendAuditRecord(entry: object): void {
+  if (auditLogPath === null) return;
+  try {
+    appendFileSync(auditLogPath, JSON.stringify(entry) + '\n', 'utf8');
+  } catch (err) {
+    console.error(`[AUDIT LOG ERROR] ${auditLogPath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
 }
@@ -0,0 +1,312 @@
+/**
+ * Policy Coverage — which rules actually decide anything.
+ *
+ * Input: the JSONL audit log appendAuditRecord() writes (token_registry.ts,
+ * action input `audit_log_path`) and the current policy. Decision records:
+ *
+ *   TOKEN_ISSUED_ALLOW / TOKEN_ISSUED_HOLD / STOP   pipeline, with decided_by
+ *
+ * (Other records — kernel results, pipeline errors, the adapter's own copy of
+ * a pipeline decision, scope elevations included — are skipped, so no proposal is counted twice. Dry-run
+ * decisions are skipped too: asking is not executing.)
+ *
+ * Output, per rule of the policy: ALLOW / HOLD / STOP counts and first/last
+ * seen. A rule no record names is flagged `never_matched` — a removal
+ * candidate. Records no rule decided (a policy miss: HOLD, STRICT STOP or
+ * audited permit) are grouped by command; a command missed at least
+ * `min_misses` times becomes a new-rule candidate with suggested args
+ * (generalizeArgLists, as `policy learn` would write them).
+ *
+ * Records name rules by id when the rule has one, else by index + command,
+ * so an id is what keeps coverage stable across policy edits. A record naming
+ * a rule the policy no longer has is counted as unattributed, as are policy
+ * failures and path escapes.
+ *
+ * Deterministic: the report depends only on the records, the policy and the
+ * options — never on the clock. The window is [since, until) when given,
+ * else the span of the records.
+ */
+
+import { readFileSync } from 'fs';
+import { relative, resolve } from 'path';
+import { describeArgPatternElement, type ArgPatternElement } from '../core/arg_pattern.js';
+import type { DecidingRule, RuleEffect } from '../core/evaluate.js';
+import { loadPolicySet } from '../core/policy_loader.js';
+import { hasErrors } from '../core/policy_validator.js';
+import { InvalidPolicyError } from './policy_diff.js';
+import { generalizeArgLists } from './policy_learn.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type CoverageDecision = 'ALLOW' | 'HOLD' | 'STOP';
+
+export interface RuleCoverage {
+  rule_index: number;
+  id?: string;
+  command: string;
+  effect: RuleEffect;
+  decisions: Record<CoverageDecision, number>;
+  first_seen: string | null;
+  last_seen: string | null;
+  /** No decision in the window — removal candidate */
+  never_matched: boolean;
+}
+
+export interface NewRuleCandidate {
+  command: string;
+  misses: number;
+  decisions: Record<CoverageDecision, number>;
+  /** Distinct argument lists missed */
+  variants: number;
+  /** Narrowest pattern covering every missed argument list */
+  args: ArgPatternElement[];
+  first_seen: string;
+  last_seen: string;
+}
+
+export interface CoverageOptions {
+  /** ISO instant — records before it are ignored */
+  since?: string;
+  /** ISO instant — records at or after it are ignored */
+  until?: string;
+  /** Misses of one command needed to suggest a rule (default DEFAULT_MIN_MISSES) */
+  min_misses?: number;
+}
+
+export interface CoverageReport {
+  policy: string;
+  window: { from: string | null; to: string | null };
+  /** Decision records in the window */
+  decisions: number;
+  /** Of those, decided by no rule */
+  misses: number;
+  /** Of those, naming a rule the policy does not have, or a policy failure / path escape */
+  unattributed: number;
+  rules: RuleCoverage[];
+  min_misses: number;
+  new_rule_candidates: NewRuleCandidate[];
+}
+
+/** The audit log is unreadable or malformed — no report was produced. */
+export class CoverageInputError extends Error {
+  public readonly file: string;
+
+  constructor(file: string, message: string) {
+    super(`${file}: ${message}`);
+    this.name = 'CoverageInputError';
+    this.file = file;
+  }
+}
+
+export const DEFAULT_MIN_MISSES = 3;
+
+// ─── Loading ──────────────────────────────────────────────────────────────────
+
+/**
+ * Read an audit log: one JSON object per line, blank lines skipped.
+ * @throws CoverageInputError naming the first malformed line
+ */
+export function loadAuditRecords(logPath: string): Record<string, unknown>[] {
+  const file = resolve(logPath);
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf8');
+  } catch (err) {
+    throw new CoverageInputError(file, err instanceof Error ? err.message : String(err));
+  }
+  const out: Record<string, unknown>[] = [];
+  for (const [i, line] of text.split('\n').entries()) {
+    if (line.trim() === '') continue;
+    let raw: unknown;
+    try {
+      raw = JSON.parse(line);
+    } catch {
+      throw new CoverageInputError(file, `line ${i + 1}: not valid JSON`);
+    }
+    if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new CoverageInputError(file, `line ${i + 1}: expected an audit record object`);
+    }
+    out.push(raw as Record<string, unknown>);
+  }
+  return out;
+}
+
+// ─── Classification ───────────────────────────────────────────────────────────
+
+interface DecisionRecord {
+  decision: CoverageDecision;
+  time: string;
+  command: string;
+  args: string[];
+  rule: Pick<DecidingRule, 'rule_index' | 'id'> | null;
+  /** Failed closed for a reason other than the rules (policy invalid, path escape) */
+  failure: boolean;
+}
+
+const PIPELINE_EVENTS: Record<string, CoverageDecision> = {
+  TOKEN_ISSUED_ALLOW: 'ALLOW',
+  TOKEN_ISSUED_HOLD: 'HOLD',
+  STOP: 'STOP'
+};
+
+function classify(record: Record<string, unknown>): DecisionRecord | null {
+  if (record['dry_run'] === true) return null;
+  const decision = typeof record['event'] === 'string' ? PIPELINE_EVENTS[record['event']] : undefined;
+  const time = record['timestamp'] ?? record['time'];
+  if (decision === undefined || typeof time !== 'string' || typeof record['command'] !== 'string') return null;
+
+  const decided = record['decided_by'] as Partial<DecidingRule> | undefined;
+  const rule = decided !== null && typeof decided === 'object' && typeof decided.rule_index === 'number'
+    ? { rule_index: decided.rule_index, ...(typeof decided.id === 'string' ? { id: decided.id } : {}) }
+    : null;
+  const args = Array.isArray(record['args']) && record['args'].every((a) => typeof a === 'string')
+    ? record['args'] as string[]
+    : [];
+  return {
+    decision, time, command: record['command'], args, rule,
+    failure: record['policy_failure'] !== undefined || record['path_violation'] !== undefined
+  };
+}
+
+const emptyCounts = (): Record<CoverageDecision, number> => ({ ALLOW: 0, HOLD: 0, STOP: 0 });
+
+function widen(range: { first_seen: string | null; last_seen: string | null }, time: string): void {
+  if (range.first_seen === null || time < range.first_seen) range.first_seen = time;
+  if (range.last_seen === null || time > range.last_seen) range.last_seen = time;
+}
+
+// ─── Report ───────────────────────────────────────────────────────────────────
+
+/**
+ * Coverage of the policy at policyPath by the given audit records.
+ * @throws InvalidPolicyError if the policy does not load
+ */
+export function buildCoverageReport(
+  policyPath: string,
+  records: readonly Record<string, unknown>[],
+  options: CoverageOptions = {}
+): CoverageReport {
+  const path = resolve(policyPath);
+  const { policy, diagnostics } = loadPolicySet(path);
+  if (!policy || hasErrors(diagnostics)) throw new InvalidPolicyError(path, diagnostics);
+  const minMisses = options.min_misses ?? DEFAULT_MIN_MISSES;
+
+  const rules: RuleCoverage[] = policy.rules.map((rule, index) => ({
+    rule_index: index,
+    ...(rule.id !== undefined ? { id: rule.id } : {}),
+    command: rule.command,
+    effect: rule.effect ?? 'ALLOW',
+    decisions: emptyCounts(),
+    first_seen: null,
+    last_seen: null,
+    never_matched: true
+  }));
+  const findRule = (record: DecisionRecord): RuleCoverage | undefined => {
+    if (record.rule!.id !== undefined) return rules.find((r) => r.id === record.rule!.id);
+    const byIndex = rules[record.rule!.rule_index];
+    return byIndex && byIndex.id === undefined && byIndex.command === record.command ? byIndex : undefined;
+  };
+
+  const missed = new Map<string, { decisions: Record<CoverageDecision, number>; args: string[][]; first_seen: string | null; last_seen: string | null }>();
+  const window = { from: options.since ?? null, to: options.until ?? null };
+  let decisions = 0;
+  let misses = 0;
+  let unattributed = 0;
+
+  for (const raw of records) {
+    const record = classify(raw);
+    if (!record) continue;
+    const at = Date.parse(record.time);
+    if (options.since !== undefined && at < Date.parse(options.since)) continue;
+    if (options.until !== undefined && at >= Date.parse(options.until)) continue;
+    decisions++;
+    if (options.since === undefined && (window.from === null || record.time < window.from)) window.from = record.time;
+    if (options.until === undefined && (window.to === null || record.time > window.to)) window.to = record.time;
+
+    if (record.rule) {
+      const rule = findRule(record);
+      if (!rule) {
+        unattributed++;
+        continue;
+      }
+      rule.decisions[record.decision]++;
+      rule.never_matched = false;
+      widen(rule, record.time);
+    } else if (record.failure) {
+      unattributed++;
+    } else {
+      misses++;
+      const group = missed.get(record.command) ?? { decisions: emptyCounts(), args: [], first_seen: null, last_seen: null };
+      group.decisions[record.decision]++;
+      group.args.push(record.args);
+      widen(group, record.time);
+      missed.set(record.command, group);
+    }
+  }
+
+  const new_rule_candidates: NewRuleCandidate[] = [...missed.entries()]
+    .filter(([, group]) => group.args.length >= minMisses)
+    .map(([command, group]) => ({
+      command,
+      misses: group.args.length,
+      decisions: group.decisions,
+      variants: new Set(group.args.map((a) => JSON.stringify(a))).size,
+      args: generalizeArgLists(group.args),
+      first_seen: group.first_seen!,
+      last_seen: group.last_seen!
+    }))
+    .sort((a, b) => b.misses - a.misses || (a.command < b.command ? -1 : a.command > b.command ? 1 : 0));
+
+  return { policy: path, window, decisions, misses, unattributed, rules, min_misses: minMisses, new_rule_candidates };
+}
+
+// ─── Output ───────────────────────────────────────────────────────────────────
+
+function ruleLabel(rule: RuleCoverage): string {
+  return `rules[${rule.rule_index}]${rule.id !== undefined ? ` id="${rule.id}"` : ''}`;
+}
+
+function describeArgs(args: ArgPatternElement[]): string {
+  return `[${args.map(describeArgPatternElement).join(', ')}]`;
+}
+
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/** Markdown for job summaries and review threads. */
+export function formatCoverageMarkdown(report: CoverageReport): string {
+  const name = relative(process.cwd(), report.policy) || report.policy;
+  const lines = [
+    `### Policy coverage: \`${name}\``,
+    '',
+    `Window: ${report.window.from ?? '—'} → ${report.window.to ?? '—'} · ` +
+      `${report.decisions} decisions · ${report.misses} policy misses · ${report.unattributed} unattributed`,
+    '',
+    '| Rule | Command | Effect | ALLOW | HOLD | STOP | First seen | Last seen |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- |'
+  ];
+  for (const rule of report.rules) {
+    lines.push(`| ${rule.never_matched ? '⚠️ ' : ''}${cell(ruleLabel(rule))} | \`${cell(rule.command)}\` | ${rule.effect} | ` +
+      `${rule.decisions.ALLOW} | ${rule.decisions.HOLD} | ${rule.decisions.STOP} | ${rule.first_seen ?? '—'} | ${rule.last_seen ?? '—'} |`);
+  }
+
+  const unused = report.rules.filter((r) => r.never_matched);
+  lines.push('', `**Removal candidates** (no decisions in the window):${unused.length === 0 ? ' _none_' : ''}`);
+  for (const rule of unused) lines.push(`- ${ruleLabel(rule)} \`${rule.command}\``);
+
+  lines.push('', `**New rule candidates** (≥ ${report.min_misses} misses):${report.new_rule_candidates.length === 0 ? ' _none_' : ''}`);
+  if (report.new_rule_candidates.length > 0) {
+    lines.push('', '| Command | Misses | HOLD | STOP | Audited ALLOW | Variants | Suggested args | First seen | Last seen |',
+      '| --- | --- | --- | --- | --- | --- | --- | --- | --- |');
+    for (const c of report.new_rule_candidates) {
+      lines.push(`| \`${cell(c.command)}\` | ${c.misses} | ${c.decisions.HOLD} | ${c.decisions.STOP} | ${c.decisions.ALLOW} | ` +
+        `${c.variants} | \`${cell(describeArgs(c.args))}\` | ${c.first_seen} | ${c.last_seen} |`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function formatCoverageJson(report: CoverageReport): string {
+  return JSON.stringify(report, null, 2) + '\n';
+}
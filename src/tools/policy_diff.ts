@@ -0,0 +1,396 @@
+/**
+ * Policy Diff — what became more or less executable between two revisions.
+ *
+ * Both policies are loaded with loadPolicySet() (extends/include resolved,
+ * validated) — the same rule model evaluate() enforces. Rules are paired:
+ *
+ *   1. by `id`
+ *   2. otherwise by effect + command: identical rules first, then in order
+ *
+ * Unpaired rules are added/removed. For a paired rule the set of requests it
+ * matches (args, any_arg, when, lifetime) is compared with argPatternCovers() /
+ * argMatcherCovers() / conditionsCover() / lifetimeCovers():
+ *
+ *   widened   new rule matches everything the old one did, and more
+ *   narrowed  the reverse
+ *   changed   neither contains the other (or containment could not be shown)
+ *
+ * Impact is relative to what can execute: widening an ALLOW rule or
+ * narrowing a DENY rule is more permissive; moving a rule to a scope that
+ * needs fewer approvals is more permissive too, as is raising or dropping an
+ * ALLOW rule's `max_executions` (a quota moved to another period is mixed). Changed `scopes:`
+ * declarations (token requirement, STRICT block, approvals, TTL) are
+ * reported separately in scope_changes.
+ *
+ * Not modelled: first-match order between overlapping ALLOW rules (which
+ * rule's scope applies) — a rule that only moved position is not reported.
+ */
+
+import { relative } from 'path';
+import { argMatcherCovers, describeArgMatcher } from '../core/arg_matchers.js';
+import { argPatternCovers, describeArgPatternElement } from '../core/arg_pattern.js';
+import { conditionsCover } from '../core/conditions.js';
+import { lifetimeCovers } from '../core/rule_lifetime.js';
+import { describeQuota, type ExecutionQuota } from '../core/quotas.js';
+import { BUILTIN_SCOPE_DEFINITIONS, lookupScope, scopeStrictness, type ScopeDefinition } from '../core/scopes.js';
+import type { Policy, PolicyRule, RuleEffect } from '../core/evaluate.js';
+import { loadPolicySet } from '../core/policy_loader.js';
+import { formatDiagnostic, hasErrors, type PolicyDiagnostic } from '../core/policy_validator.js';
+import { canonicalStringify } from '../canonical_stringify.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type PolicyChangeKind = 'added' | 'removed' | 'modified';
+
+export type MatchChange = 'unchanged' | 'widened' | 'narrowed' | 'changed';
+
+export type ChangeImpact = 'more_permissive' | 'less_permissive' | 'mixed' | 'none';
+
+export interface PolicyChange {
+  kind: PolicyChangeKind;
+  command: string;
+  effect: RuleEffect;
+  id?: string;
+  /** Index in the old / new resolved rule list */
+  before_index?: number;
+  after_index?: number;
+  /** modified only: how the set of matched requests changed */
+  match?: MatchChange;
+  /** modified only, ALLOW rules: scope before → after */
+  scope?: { from: string; to: string };
+  impact: ChangeImpact;
+  /** Human-readable lines, e.g. `cat` args widened from [...] to [...] */
+  details: string[];
+}
+
+/** A scope declared, dropped or redefined (built-ins count as declared). */
+export interface ScopeChange {
+  kind: PolicyChangeKind;
+  name: string;
+  impact: ChangeImpact;
+  details: string[];
+}
+
+export interface PolicyDiff {
+  before: { path: string; default: Policy['default']; rules: number };
+  after: { path: string; default: Policy['default']; rules: number };
+  default_changed: boolean;
+  changes: PolicyChange[];
+  scope_changes: ScopeChange[];
+  /** Any change that lets (or may let) more run — 'mixed' counts */
+  more_permissive: boolean;
+}
+
+/** One side of the diff could not be loaded — no diff is produced. */
+export class InvalidPolicyError extends Error {
+  public readonly diagnostics: PolicyDiagnostic[];
+
+  constructor(path: string, diagnostics: PolicyDiagnostic[]) {
+    const first = diagnostics.find((d) => d.severity === 'error');
+    super(`invalid policy ${path}${first ? `: ${formatDiagnostic(first)}` : ''}`);
+    this.name = 'InvalidPolicyError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+// ─── Comparison ───────────────────────────────────────────────────────────────
+
+function effectOf(rule: PolicyRule): RuleEffect {
+  return rule.effect ?? 'ALLOW';
+}
+
+function scopeOf(rule: PolicyRule): string {
+  return rule.scope ?? 'safe';
+}
+
+/** Rule a matches every request rule b matches (same command assumed). */
+function ruleCovers(a: PolicyRule, b: PolicyRule): boolean {
+  const anyArg = a.any_arg === undefined || (b.any_arg !== undefined && argMatcherCovers(a.any_arg, b.any_arg));
+  return argPatternCovers(a.args, b.args) && anyArg && conditionsCover(a.when, b.when) && lifetimeCovers(a, b);
+}
+
+function matchChange(before: PolicyRule, after: PolicyRule): MatchChange {
+  const wider = ruleCovers(after, before);
+  const narrower = ruleCovers(before, after);
+  if (wider && narrower) return 'unchanged';
+  if (wider) return 'widened';
+  if (narrower) return 'narrowed';
+  return 'changed';
+}
+
+function describeArgs(rule: PolicyRule): string {
+  return rule.args === undefined ? '(any)' : `[${rule.args.map(describeArgPatternElement).join(', ')}]`;
+}
+
+function describeWhen(rule: PolicyRule): string {
+  return rule.when === undefined ? '(always)' : canonicalStringify(rule.when);
+}
+
+function describeLifetime(rule: PolicyRule): string {
+  if (rule.valid_from === undefined && rule.valid_until === undefined) return '(unbounded)';
+  return `[${rule.valid_from ?? '…'}, ${rule.valid_until ?? '…'})`;
+}
+
+function describeAnyArg(rule: PolicyRule): string {
+  return rule.any_arg === undefined ? '(none)' : describeArgMatcher(rule.any_arg);
+}
+
+function describeMaxExecutions(rule: PolicyRule): string {
+  return rule.max_executions === undefined ? '(unlimited)' : describeQuota(rule.max_executions);
+}
+
+function quotaImpact(from: ExecutionQuota | undefined, to: ExecutionQuota | undefined): ChangeImpact {
+  if (from === undefined) return 'less_permissive';
+  if (to === undefined) return 'more_permissive';
+  if (from.per !== to.per || from.window !== to.window) return 'mixed';
+  return to.limit > from.limit ? 'more_permissive' : to.limit < from.limit ? 'less_permissive' : 'none';
+}
+
+function bodyKey(rule: PolicyRule): string {
+  const { description: _description, ...body } = rule;
+  return canonicalStringify(body);
+}
+
+function combine(impacts: ChangeImpact[]): ChangeImpact {
+  const real = impacts.filter((i) => i !== 'none');
+  if (real.length === 0) return 'none';
+  return real.every((i) => i === real[0]) ? real[0]! : 'mixed';
+}
+
+function label(rule: PolicyRule): string {
+  return `\`${rule.command}\`${rule.id !== undefined ? ` (id "${rule.id}")` : ''}`;
+}
+
+function strictness(policy: Policy, name: string): number {
+  return scopeStrictness(lookupScope(policy.scopes, name) ?? BUILTIN_SCOPE_DEFINITIONS.safe);
+}
+
+function compareRules(
+  beforePolicy: Policy, bi: number, afterPolicy: Policy, ai: number
+): PolicyChange | null {
+  const before = beforePolicy.rules[bi]!;
+  const after = afterPolicy.rules[ai]!;
+  const effect = effectOf(after);
+  const base = {
+    command: after.command, effect, ...(after.id !== undefined ? { id: after.id } : {}),
+    before_index: bi, after_index: ai
+  };
+
+  if (effectOf(before) !== effect) {
+    return {
+      ...base, kind: 'modified', match: 'changed',
+      impact: effect === 'ALLOW' ? 'more_permissive' : 'less_permissive',
+      details: [`${label(after)} effect changed from ${effectOf(before)} to ${effect}`]
+    };
+  }
+
+  const details: string[] = [];
+  const impacts: ChangeImpact[] = [];
+  const match = matchChange(before, after);
+  const fieldVerb = match === 'unchanged' ? 'changed' : match;
+  if (describeArgs(before) !== describeArgs(after)) {
+    details.push(`${label(after)} args ${fieldVerb} from ${describeArgs(before)} to ${describeArgs(after)}`);
+  }
+  if (describeAnyArg(before) !== describeAnyArg(after)) {
+    details.push(`${label(after)} any_arg ${fieldVerb} from ${describeAnyArg(before)} to ${describeAnyArg(after)}`);
+  }
+  if (describeWhen(before) !== describeWhen(after)) {
+    details.push(`${label(after)} when ${fieldVerb} from ${describeWhen(before)} to ${describeWhen(after)}`);
+  }
+  if (describeLifetime(before) !== describeLifetime(after)) {
+    details.push(`${label(after)} lifetime ${fieldVerb} from ${describeLifetime(before)} to ${describeLifetime(after)}`);
+  }
+  const allowWider = effect === 'ALLOW' ? 'more_permissive' : 'less_permissive';
+  const allowNarrower = effect === 'ALLOW' ? 'less_permissive' : 'more_permissive';
+  impacts.push(match === 'widened' ? allowWider : match === 'narrowed' ? allowNarrower : match === 'changed' ? 'mixed' : 'none');
+
+  let scope: PolicyChange['scope'];
+  if (effect === 'ALLOW' && scopeOf(before) !== scopeOf(after)) {
+    scope = { from: scopeOf(before), to: scopeOf(after) };
+    details.push(`${label(after)} moved from ${scope.from} to ${scope.to}`);
+    const delta = strictness(afterPolicy, scope.to) - strictness(beforePolicy, scope.from);
+    impacts.push(delta < 0 ? 'more_permissive' : delta > 0 ? 'less_permissive' : 'mixed');
+  }
+
+  if (effect === 'ALLOW' && describeMaxExecutions(before) !== describeMaxExecutions(after)) {
+    details.push(`${label(after)} max_executions changed from ${describeMaxExecutions(before)} to ${describeMaxExecutions(after)}`);
+    impacts.push(quotaImpact(before.max_executions, after.max_executions));
+  }
+
+  if (details.length === 0) return null;
+  return {
+    ...base, kind: 'modified', match, ...(scope ? { scope } : {}), impact: combine(impacts), details
+  };
+}
+
+/** Per-field direction: which way is more permissive. */
+const SCOPE_FIELDS: [keyof ScopeDefinition, (from: number, to: number) => boolean][] = [
+  ['pre_approved_token', (from, to) => to < from],
+  ['blocked_in_strict', (from, to) => to < from],
+  ['approvals', (from, to) => to < from],
+  ['token_ttl', (from, to) => to > from]
+];
+
+function compareScopes(before: Policy, after: Policy): ScopeChange[] {
+  const out: ScopeChange[] = [];
+  const names = [...new Set([...Object.keys(before.scopes), ...Object.keys(after.scopes)])].sort();
+  for (const name of names) {
+    const from = before.scopes[name];
+    const to = after.scopes[name];
+    if (!from || !to) {
+      out.push({
+        kind: from ? 'removed' : 'added', name, impact: 'none',
+        details: [`scope \`${name}\` ${from ? 'no longer declared' : 'declared'}`]
+      });
+      continue;
+    }
+    const details: string[] = [];
+    const impacts: ChangeImpact[] = [];
+    for (const [field, loosens] of SCOPE_FIELDS) {
+      if (from[field] === to[field]) continue;
+      details.push(`scope \`${name}\` ${field} changed from ${String(from[field])} to ${String(to[field])}`);
+      impacts.push(loosens(Number(from[field]), Number(to[field])) ? 'more_permissive' : 'less_permissive');
+    }
+    if (details.length > 0) out.push({ kind: 'modified', name, impact: combine(impacts), details });
+  }
+  return out;
+}
+
+/** Pair rules: by id, then identical body, then in order per effect + command. */
+function pairRules(before: PolicyRule[], after: PolicyRule[]): {
+  pairs: [number, number][];
+  removed: number[];
+  added: number[];
+} {
+  const pairs: [number, number][] = [];
+  const freeBefore = new Set(before.keys());
+  const freeAfter = new Set(after.keys());
+  const take = (bi: number, ai: number) => {
+    pairs.push([bi, ai]);
+    freeBefore.delete(bi);
+    freeAfter.delete(ai);
+  };
+
+  for (const [ai, rule] of after.entries()) {
+    if (rule.id === undefined) continue;
+    const bi = before.findIndex((r) => r.id === rule.id);
+    if (bi >= 0) take(bi, ai);
+  }
+  const group = (r: PolicyRule) => `${effectOf(r)}\u0000${r.command}`;
+  for (const ai of [...freeAfter]) {
+    const bi = [...freeBefore].find((b) => bodyKey(before[b]!) === bodyKey(after[ai]!));
+    if (bi !== undefined) take(bi, ai);
+  }
+  for (const ai of [...freeAfter]) {
+    const bi = [...freeBefore].find((b) =>
+      group(before[b]!) === group(after[ai]!) && (before[b]!.id === undefined || after[ai]!.id === undefined));
+    if (bi !== undefined) take(bi, ai);
+  }
+  return { pairs, removed: [...freeBefore], added: [...freeAfter] };
+}
+
+function loadOrThrow(path: string): Policy {
+  const { policy, diagnostics } = loadPolicySet(path);
+  if (!policy || hasErrors(diagnostics)) throw new InvalidPolicyError(path, diagnostics);
+  return policy;
+}
+
+/**
+ * Compare two policy revisions.
+ * @throws InvalidPolicyError if either side does not load
+ */
+export function diffPolicies(beforePath: string, afterPath: string): PolicyDiff {
+  const before = loadOrThrow(beforePath);
+  const after = loadOrThrow(afterPath);
+  const { pairs, removed, added } = pairRules(before.rules, after.rules);
+  const changes: PolicyChange[] = [];
+
+  for (const bi of removed) {
+    const rule = before.rules[bi]!;
+    const effect = effectOf(rule);
+    changes.push({
+      kind: 'removed', command: rule.command, effect, ...(rule.id !== undefined ? { id: rule.id } : {}),
+      before_index: bi,
+      impact: effect === 'ALLOW' ? 'less_permissive' : 'more_permissive',
+      details: [`${effect} rule ${label(rule)} removed: args ${describeArgs(rule)}` +
+        (effect === 'ALLOW' ? `, scope ${scopeOf(rule)}` : '')]
+    });
+  }
+  for (const ai of added) {
+    const rule = after.rules[ai]!;
+    const effect = effectOf(rule);
+    changes.push({
+      kind: 'added', command: rule.command, effect, ...(rule.id !== undefined ? { id: rule.id } : {}),
+      after_index: ai,
+      impact: effect === 'ALLOW' ? 'more_permissive' : 'less_permissive',
+      details: [`${effect} rule ${label(rule)} added: args ${describeArgs(rule)}` +
+        (effect === 'ALLOW' ? `, scope ${scopeOf(rule)}` : '') +
+        (rule.when !== undefined ? `, when ${describeWhen(rule)}` : '')]
+    });
+  }
+  for (const [bi, ai] of pairs) {
+    const change = compareRules(before, bi, after, ai);
+    if (change) changes.push(change);
+  }
+  changes.sort((x, y) =>
+    (x.after_index ?? x.before_index ?? 0) - (y.after_index ?? y.before_index ?? 0) ||
+    x.command.localeCompare(y.command));
+
+  const defaultChanged = before.default !== after.default;
+  const scopeChanges = compareScopes(before, after);
+  return {
+    before: { path: beforePath, default: before.default, rules: before.rules.length },
+    after: { path: afterPath, default: after.default, rules: after.rules.length },
+    default_changed: defaultChanged,
+    changes,
+    scope_changes: scopeChanges,
+    more_permissive: (defaultChanged && after.default === 'ALLOW') ||
+      [...changes, ...scopeChanges].some((c) => c.impact === 'more_permissive' || c.impact === 'mixed')
+  };
+}
+
+// ─── Reporting ────────────────────────────────────────────────────────────────
+
+const IMPACT_LABEL: Record<ChangeImpact, string> = {
+  more_permissive: '⬆ more permissive',
+  less_permissive: '⬇ less permissive',
+  mixed: '↕ review',
+  none: '— none'
+};
+
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/** Markdown for PR comments and job summaries. */
+export function formatDiffMarkdown(diff: PolicyDiff): string {
+  const name = (p: string) => relative(process.cwd(), p) || p;
+  const lines = [`### Policy diff: \`${name(diff.before.path)}\` → \`${name(diff.after.path)}\``, ''];
+  if (diff.default_changed) {
+    lines.push(`**Default changed:** ${diff.before.default} → ${diff.after.default}`, '');
+  }
+  if (diff.changes.length === 0 && diff.scope_changes.length === 0) {
+    lines.push(diff.default_changed ? '_No rule changes._' : '_No effective changes._');
+    return lines.join('\n') + '\n';
+  }
+  if (diff.changes.length > 0) {
+    lines.push('| Impact | Change | Effect |', '| --- | --- | --- |');
+    for (const change of diff.changes) {
+      for (const detail of change.details) {
+        lines.push(`| ${IMPACT_LABEL[change.impact]} | ${cell(detail)} | ${change.effect} |`);
+      }
+    }
+  }
+  if (diff.scope_changes.length > 0) {
+    if (diff.changes.length > 0) lines.push('');
+    lines.push('| Impact | Scope change |', '| --- | --- |');
+    for (const change of diff.scope_changes) {
+      for (const detail of change.details) lines.push(`| ${IMPACT_LABEL[change.impact]} | ${cell(detail)} |`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function formatDiffJson(diff: PolicyDiff): string {
+  return JSON.stringify(diff, null, 2) + '\n';
+}
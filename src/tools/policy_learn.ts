@@ -0,0 +1,291 @@
+/**
+ * Policy Learning — candidate policy from an observation log.
+ *
+ * Input: the JSONL log learning mode writes (see observation_log.ts) — every
+ * PERMISSIVE proposal no rule allowed. Output: a minimal `policy.yaml` that
+ * would allow exactly those proposals, generalized only where the log itself
+ * varies:
+ *
+ *   git fetch --tags          ─┐
+ *   git fetch --prune          ├─→  git [fetch, { enum: [--prune, --tags] }]
+ *   git fetch --tags           ┘
+ *   cat docs/a.md, cat docs/guide/b.md  →  cat [{ glob: 'docs/**' }]
+ *   echo one, echo one two               →  echo [one, { zero_or_more: two }]
+ *
+ * Grouping: one rule per command — per (command, subcommand) for commands
+ * the catalog lists subcommands for (git, npm, docker, ...). Within a group:
+ *   - a position with one observed value stays a literal
+ *   - differing option flags (-x, --y) become an enum of those flags
+ *   - differing paths under a common directory become { glob: 'dir/**' }
+ *   - anything else becomes '*'
+ *   - positions only some lists reach become a variadic tail of their
+ *     generalized values ({ zero_or_more: ... }, '**' for '*')
+ *
+ * Scope comes from the command catalog (built-in, overridable with a YAML
+ * mapping of "command" or "command subcommand" to scope). Commands not in
+ * the catalog get `fs` — a human-approved token — until someone looks.
+ * Each rule is annotated with its observation counts and time range.
+ *
+ * The output is a starting point for review, never applied automatically.
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { Document, isSeq, parse, type YAMLMap, type YAMLSeq } from 'yaml';
+import type { ArgMatcher } from '../core/arg_matchers.js';
+import type { ArgPatternElement } from '../core/arg_pattern.js';
+import type { ObservedDecision, Observation } from '../observation_log.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** "command" or "command subcommand" → scope name */
+export type CommandCatalog = Record<string, string>;
+
+export interface CandidateRule {
+  id: string;
+  command: string;
+  args: ArgPatternElement[];
+  scope: string;
+  /** Catalog key the scope came from — null when the command is not catalogued */
+  catalog_entry: string | null;
+  observations: number;
+  decisions: Record<ObservedDecision, number>;
+  /** Distinct argument lists the rule was generalized from */
+  variants: number;
+  first_seen: string;
+  last_seen: string;
+}
+
+export interface CandidatePolicy {
+  observations: number;
+  rules: CandidateRule[];
+}
+
+/** The observation log or catalog is malformed — nothing was generated. */
+export class LearnInputError extends Error {
+  public readonly file: string;
+
+  constructor(file: string, message: string) {
+    super(`${file}: ${message}`);
+    this.name = 'LearnInputError';
+    this.file = file;
+  }
+}
+
+// ─── Catalog ──────────────────────────────────────────────────────────────────
+
+/** Scope for an uncatalogued command: needs a human-approved token. */
+export const UNKNOWN_COMMAND_SCOPE = 'fs';
+
+export const DEFAULT_COMMAND_CATALOG: CommandCatalog = {
+  // read-only / build
+  echo: 'safe', ls: 'safe', cat: 'safe', pwd: 'safe', date: 'safe', head: 'safe', tail: 'safe',
+  wc: 'safe', grep: 'safe', jq: 'safe', tsc: 'safe',
+  'git status': 'safe', 'git log': 'safe', 'git diff': 'safe', 'git show': 'safe',
+  'git rev-parse': 'safe', 'git branch': 'safe',
+  'npm run': 'safe', 'npm test': 'safe', 'npm ci': 'safe',
+  // network
+  curl: 'net', wget: 'net', ping: 'net', ssh: 'net', scp: 'net', rsync: 'net', gh: 'net',
+  'git fetch': 'net', 'git pull': 'net', 'git push': 'net', 'git clone': 'net',
+  'npm install': 'net', 'npm publish': 'net', 'docker pull': 'net', 'docker push': 'net',
+  // filesystem mutation
+  cp: 'fs', mv: 'fs', rm: 'fs', mkdir: 'fs', touch: 'fs', ln: 'fs', tar: 'fs', unzip: 'fs', make: 'fs',
+  'git add': 'fs', 'git commit': 'fs', 'git checkout': 'fs', 'docker build': 'fs',
+  // run arbitrary code (npx also downloads it) — never auto-ALLOW
+  node: 'fs', npx: 'fs',
+  // elevated
+  sudo: 'admin', chmod: 'admin', chown: 'admin', kill: 'admin', systemctl: 'admin', 'docker run': 'admin'
+};
+
+/**
+ * Read a catalog override file: a YAML mapping of command → scope.
+ * @throws LearnInputError on unreadable or malformed files
+ */
+export function loadCommandCatalog(catalogPath: string): CommandCatalog {
+  const file = resolve(catalogPath);
+  let raw: unknown;
+  try {
+    raw = parse(readFileSync(file, 'utf8'));
+  } catch (err) {
+    throw new LearnInputError(file, err instanceof Error ? err.message.split('\n')[0]! : String(err));
+  }
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new LearnInputError(file, 'catalog must be a mapping of command to scope');
+  }
+  for (const [key, value] of Object.entries(raw)) {
+    if (typeof value !== 'string' || value === '') throw new LearnInputError(file, `"${key}" must map to a scope name`);
+  }
+  return raw as CommandCatalog;
+}
+
+// ─── Loading ──────────────────────────────────────────────────────────────────
+
+const DECISIONS: readonly ObservedDecision[] = ['HOLD', 'AUDITED_PERMIT'];
+
+/**
+ * Read an observation log. Blank lines are skipped.
+ * @throws LearnInputError naming the first malformed line
+ */
+export function loadObservations(logPath: string): Observation[] {
+  const file = resolve(logPath);
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf8');
+  } catch (err) {
+    throw new LearnInputError(file, err instanceof Error ? err.message : String(err));
+  }
+  const out: Observation[] = [];
+  for (const [i, line] of text.split('\n').entries()) {
+    if (line.trim() === '') continue;
+    let raw: Record<string, unknown>;
+    try {
+      raw = JSON.parse(line) as Record<string, unknown>;
+    } catch {
+      throw new LearnInputError(file, `line ${i + 1}: not valid JSON`);
+    }
+    const { command, args, decision, timestamp } = raw ?? {};
+    if (typeof command !== 'string' || command === '' ||
+        !Array.isArray(args) || !args.every((a) => typeof a === 'string') ||
+        !DECISIONS.includes(decision as ObservedDecision) || typeof timestamp !== 'string') {
+      throw new LearnInputError(file, `line ${i + 1}: expected an observation (command, args, decision, timestamp)`);
+    }
+    out.push(raw as unknown as Observation);
+  }
+  return out;
+}
+
+// ─── Generalization ───────────────────────────────────────────────────────────
+
+const SUBCOMMAND = /^[a-z][a-z0-9-]*$/;
+
+/** Commands the catalog lists "command subcommand" entries for. */
+function subcommandTools(catalog: CommandCatalog): Set<string> {
+  return new Set(Object.keys(catalog).filter((k) => k.includes(' ')).map((k) => k.split(' ')[0]!));
+}
+
+function commonDirectory(values: string[]): string | null {
+  if (!values.every((v) => v.includes('/') && !v.split('/').includes('..'))) return null;
+  const dirs = values.map((v) => v.split('/').slice(0, -1));
+  const common: string[] = [];
+  for (let i = 0; dirs.every((d) => i < d.length && d[i] === dirs[0]![i]); i++) common.push(dirs[0]![i]!);
+  const prefix = common.join('/');
+  return prefix === '' ? null : prefix; // '' = only '/' in common: no narrower than '*'
+}
+
+/** Observed values that would read as wildcards if written as literals. */
+const WILDCARD_SPELLINGS = ['*', '*?', '**', '*+'];
+
+/** One matcher covering every observed value at a position. */
+function generalizeValues(values: string[]): ArgMatcher {
+  const distinct = [...new Set(values)].sort();
+  if (distinct.length === 1) return WILDCARD_SPELLINGS.includes(distinct[0]!) ? { enum: distinct } : distinct[0]!;
+  if (distinct.every((v) => v.startsWith('-'))) return { enum: distinct };
+  const dir = commonDirectory(distinct);
+  return dir !== null ? { glob: `${dir}/**` } : '*';
+}
+
+/** The narrowest pattern (per the rules above) matching every observed list. */
+export function generalizeArgLists(lists: string[][]): ArgPatternElement[] {
+  const minLen = Math.min(...lists.map((l) => l.length));
+  const maxLen = Math.max(...lists.map((l) => l.length));
+  const out: ArgPatternElement[] = [];
+  for (let i = 0; i < minLen; i++) out.push(generalizeValues(lists.map((l) => l[i]!)));
+  if (maxLen > minLen) {
+    const tail = generalizeValues(lists.flatMap((l) => l.slice(minLen)));
+    // '*' must not stand alone for the variadic: ['*'] is the legacy any-args spelling
+    out.push(tail === '*' ? '**' : { zero_or_more: tail });
+  }
+  return out;
+}
+
+// ─── Generation ───────────────────────────────────────────────────────────────
+
+interface Group {
+  command: string;
+  subcommand: string | null;
+  observations: Observation[];
+}
+
+function ruleId(command: string, subcommand: string | null, taken: Set<string>): string {
+  const base = ['learned', command, ...(subcommand ? [subcommand] : [])]
+    .join('-').toLowerCase().replace(/[^a-z0-9-]+/g, '-');
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  taken.add(id);
+  return id;
+}
+
+/** Group, generalize and scope the observations. Deterministic for a given log. */
+export function generateCandidatePolicy(
+  observations: Observation[],
+  catalog: CommandCatalog = DEFAULT_COMMAND_CATALOG
+): CandidatePolicy {
+  const tools = subcommandTools(catalog);
+  const groups = new Map<string, Group>();
+  for (const o of observations) {
+    const first = o.args[0];
+    const subcommand = tools.has(o.command) && first !== undefined && SUBCOMMAND.test(first) ? first : null;
+    const key = JSON.stringify([o.command, subcommand]);
+    let group = groups.get(key);
+    if (!group) groups.set(key, group = { command: o.command, subcommand, observations: [] });
+    group.observations.push(o);
+  }
+
+  const taken = new Set<string>();
+  const rules = [...groups.values()]
+    .sort((a, b) => a.command.localeCompare(b.command) || (a.subcommand ?? '').localeCompare(b.subcommand ?? ''))
+    .map((g): CandidateRule => {
+      const lists = [...new Map(g.observations.map((o) => [JSON.stringify(o.args), o.args])).values()];
+      const entry = g.subcommand !== null && `${g.command} ${g.subcommand}` in catalog
+        ? `${g.command} ${g.subcommand}`
+        : g.command in catalog ? g.command : null;
+      const times = g.observations.map((o) => o.timestamp).sort();
+      return {
+        id: ruleId(g.command, g.subcommand, taken),
+        command: g.command,
+        args: generalizeArgLists(lists),
+        scope: entry !== null ? catalog[entry]! : UNKNOWN_COMMAND_SCOPE,
+        catalog_entry: entry,
+        observations: g.observations.length,
+        decisions: {
+          HOLD: g.observations.filter((o) => o.decision === 'HOLD').length,
+          AUDITED_PERMIT: g.observations.filter((o) => o.decision === 'AUDITED_PERMIT').length
+        },
+        variants: lists.length,
+        first_seen: times[0]!,
+        last_seen: times[times.length - 1]!
+      };
+    });
+  return { observations: observations.length, rules };
+}
+
+// ─── Output ───────────────────────────────────────────────────────────────────
+
+function annotation(rule: CandidateRule): string {
+  const decisions = DECISIONS.filter((d) => rule.decisions[d] > 0).map((d) => `${d} ${rule.decisions[d]}`).join(', ');
+  const lines = [
+    ` observed ${rule.observations}× (${decisions}), ${rule.variants} distinct argument list(s)`,
+    ` first ${rule.first_seen}, last ${rule.last_seen}`
+  ];
+  if (rule.catalog_entry === null) lines.push(` "${rule.command}" not in catalog — scope ${rule.scope} until reviewed`);
+  return lines.join('\n');
+}
+
+/** Candidate policy as YAML, each rule preceded by its observation counts. */
+export function formatCandidatePolicy(candidate: CandidatePolicy, source: string): string {
+  const doc = new Document({
+    default: 'DENY',
+    rules: candidate.rules.map((r) => ({ id: r.id, command: r.command, args: r.args, scope: r.scope }))
+  });
+  doc.commentBefore =
+    ` Candidate policy — generated by \`policy learn\` from ${candidate.observations} observation(s) in ${source}.\n` +
+    ' Review every rule before use: arguments are generalized from what was seen,\n' +
+    ' scopes are suggestions from the command catalog.';
+  const rules = doc.get('rules', true) as YAMLSeq<YAMLMap>;
+  rules.items.forEach((item, i) => {
+    item.commentBefore = annotation(candidate.rules[i]!);
+    const args = item.get('args', true);
+    if (isSeq(args)) args.flow = true;
+  });
+  return doc.toString({ lineWidth: 0 });
+}
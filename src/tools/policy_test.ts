@@ -0,0 +1,307 @@
+/**
+ * Policy Tests — assert verdicts and scopes for a policy, like code tests.
+ *
+ * Test file format (YAML):
+ *
+ *   policy: ./policy.yaml            # relative to the test file
+ *   cases:
+ *     - name: git status -s stays allowed
+ *       command: git
+ *       args: [status, -s]
+ *       expect: { verdict: ALLOW, scope: safe }
+ *     - name: git push stays denied
+ *       command: git
+ *       args: [push]
+ *       mode: PERMISSIVE               # STRICT (default) | PERMISSIVE
+ *       allow_with_audit: false        # optional, PERMISSIVE only
+ *       context: { event: push, ref: refs/heads/main }   # optional, `when:` fields
+ *       expect: { verdict: HOLD }
+ *     - name: cat stays in the workspace
+ *       command: cat
+ *       args: [../secret]
+ *       paths: { cwd: ./src, GITHUB_WORKSPACE: ., RUNNER_TEMP: ./tmp }   # optional, `path:` matchers
+ *       expect: { verdict: STOP }
+ *
+ * paths: directories relative to the test file. `cwd` and GITHUB_WORKSPACE
+ * default to the test file's directory; RUNNER_TEMP is unset unless given.
+ *
+ * expect:
+ *   verdict  ALLOW | STOP | HOLD — the pipeline decision (mode applied)
+ *   scope    scope name (built-in or declared in `scopes:`) | null — the scope
+ *            of the rule that matched these arguments
+ *   rule     id of the rule that must decide (decided_by.id)
+ *
+ * Cases run through runAuthorityPipeline() — the real evaluate() behind its
+ * seal, which also enforces the matched rule's scope — so a test passes
+ * exactly when the action would decide the same way. Context fields not
+ * given are empty (unknown) and `path:` roots come from `paths`, never from
+ * the environment: results do not depend on where tests run. Each case is a dry run against its own
+ * quota counters — a rule's `max_executions` is never used up by another case.
+ */
+
+import { readFileSync } from 'fs';
+import { dirname, relative, resolve } from 'path';
+import { parse } from 'yaml';
+import { runAuthorityPipeline, type PipelineDecision } from '../authority_pipeline.js';
+import { GateMode } from '../config/mode.js';
+import { CONDITION_FIELDS, EMPTY_CONTEXT, type ConditionField, type EvaluationContext } from '../core/conditions.js';
+import { PATH_ROOT_NAMES, type PathRoots } from '../core/path_matcher.js';
+import type { CommandScope } from '../adapters/openclaw/openclaw_proposal.js';
+import { MemoryCounterStore } from '../stores/memory_counter_store.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface PolicyTestExpectation {
+  verdict: PipelineDecision;
+  /** null = no ALLOW rule matched the arguments */
+  scope?: CommandScope | null;
+  rule?: string;
+}
+
+export interface PolicyTestCase {
+  name: string;
+  command: string;
+  args: string[];
+  mode: GateMode;
+  allow_with_audit: boolean;
+  context: EvaluationContext;
+  /** Working directory and roots for `path:` matchers — absolute */
+  paths: PathRoots;
+  expect: PolicyTestExpectation;
+}
+
+export interface PolicyTestSuite {
+  /** Absolute path of the test file */
+  file: string;
+  /** Absolute path of the policy under test */
+  policy: string;
+  cases: PolicyTestCase[];
+}
+
+export interface PolicyTestOutcome {
+  case: PolicyTestCase;
+  passed: boolean;
+  /** One line per failed expectation */
+  failures: string[];
+  actual: { verdict: PipelineDecision; scope: CommandScope | null; rule: string | null; reason: string };
+}
+
+export interface PolicyTestReport {
+  suite: PolicyTestSuite;
+  outcomes: PolicyTestOutcome[];
+  passed: number;
+  failed: number;
+}
+
+/** The test file itself is malformed — no case was run. */
+export class PolicyTestFileError extends Error {
+  public readonly file: string;
+
+  constructor(file: string, message: string) {
+    super(`${file}: ${message}`);
+    this.name = 'PolicyTestFileError';
+    this.file = file;
+  }
+}
+
+// ─── Loading ──────────────────────────────────────────────────────────────────
+
+const VERDICTS: readonly PipelineDecision[] = ['ALLOW', 'STOP', 'HOLD'];
+const CASE_KEYS = ['name', 'command', 'args', 'mode', 'allow_with_audit', 'context', 'paths', 'expect'];
+const PATHS_KEYS = ['cwd', ...PATH_ROOT_NAMES];
+const EXPECT_KEYS = ['verdict', 'scope', 'rule'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseContext(raw: unknown, where: string, fail: (msg: string) => never): EvaluationContext {
+  if (raw === undefined) return { ...EMPTY_CONTEXT };
+  if (!isRecord(raw)) fail(`${where}.context must be a mapping`);
+  const context = { ...EMPTY_CONTEXT };
+  for (const [key, value] of Object.entries(raw)) {
+    if (!(key in CONDITION_FIELDS)) {
+      fail(`${where}.context: unknown field "${key}" (allowed: ${Object.keys(CONDITION_FIELDS).join(', ')})`);
+    }
+    if (typeof value !== 'string') fail(`${where}.context.${key} must be a string`);
+    context[CONDITION_FIELDS[key as ConditionField]] = value;
+  }
+  return context;
+}
+
+function parsePaths(raw: unknown, dir: string, where: string, fail: (msg: string) => never): PathRoots {
+  if (raw === undefined) raw = {};
+  if (!isRecord(raw)) fail(`${where}.paths must be a mapping`);
+  for (const [key, value] of Object.entries(raw)) {
+    if (!PATHS_KEYS.includes(key)) fail(`${where}.paths: unknown key "${key}" (allowed: ${PATHS_KEYS.join(', ')})`);
+    if (typeof value !== 'string' || value === '') fail(`${where}.paths.${key} must be a directory`);
+  }
+  const at = (key: string): string | undefined =>
+    typeof raw[key] === 'string' ? resolve(dir, raw[key] as string) : undefined;
+  const temp = at('RUNNER_TEMP');
+  return {
+    cwd: at('cwd') ?? dir,
+    roots: { GITHUB_WORKSPACE: at('GITHUB_WORKSPACE') ?? dir, ...(temp ? { RUNNER_TEMP: temp } : {}) }
+  };
+}
+
+function parseCase(raw: unknown, index: number, dir: string, fail: (msg: string) => never): PolicyTestCase {
+  const where = `cases[${index}]`;
+  if (!isRecord(raw)) fail(`${where} must be a mapping`);
+  for (const key of Object.keys(raw)) {
+    if (!CASE_KEYS.includes(key)) fail(`${where}: unknown key "${key}" (allowed: ${CASE_KEYS.join(', ')})`);
+  }
+
+  const { command, args = [], mode = 'STRICT', allow_with_audit = false, expect } = raw;
+  if (typeof command !== 'string' || command === '') fail(`${where}.command must be a non-empty string`);
+  if (!Array.isArray(args) || !args.every((a) => typeof a === 'string')) {
+    fail(`${where}.args must be a list of strings`);
+  }
+  if (mode !== GateMode.STRICT && mode !== GateMode.PERMISSIVE) fail(`${where}.mode must be STRICT or PERMISSIVE`);
+  if (typeof allow_with_audit !== 'boolean') fail(`${where}.allow_with_audit must be a boolean`);
+
+  if (!isRecord(expect)) fail(`${where}.expect must be a mapping`);
+  for (const key of Object.keys(expect)) {
+    if (!EXPECT_KEYS.includes(key)) fail(`${where}.expect: unknown key "${key}" (allowed: ${EXPECT_KEYS.join(', ')})`);
+  }
+  if (!VERDICTS.includes(expect['verdict'] as PipelineDecision)) {
+    fail(`${where}.expect.verdict must be one of ${VERDICTS.join(', ')}`);
+  }
+  const scope = expect['scope'];
+  if (scope !== undefined && scope !== null && (typeof scope !== 'string' || scope === '')) {
+    fail(`${where}.expect.scope must be a scope name or null`);
+  }
+  if (expect['rule'] !== undefined && typeof expect['rule'] !== 'string') fail(`${where}.expect.rule must be a string`);
+
+  const name = typeof raw['name'] === 'string' ? raw['name'] : [command, ...(args as string[])].join(' ');
+  return {
+    name,
+    command,
+    args: [...(args as string[])],
+    mode: mode as GateMode,
+    allow_with_audit,
+    context: parseContext(raw['context'], where, fail),
+    paths: parsePaths(raw['paths'], dir, where, fail),
+    expect: {
+      verdict: expect['verdict'] as PipelineDecision,
+      ...(scope !== undefined ? { scope: scope as CommandScope | null } : {}),
+      ...(expect['rule'] !== undefined ? { rule: expect['rule'] as string } : {})
+    }
+  };
+}
+
+/**
+ * Read and validate a policy test file.
+ * @throws PolicyTestFileError on unreadable or malformed files
+ */
+export function loadPolicyTestFile(testPath: string): PolicyTestSuite {
+  const file = resolve(testPath);
+  const fail = (message: string): never => {
+    throw new PolicyTestFileError(file, message);
+  };
+
+  let raw: unknown;
+  try {
+    raw = parse(readFileSync(file, 'utf8'));
+  } catch (err) {
+    fail(err instanceof Error ? err.message.split('\n')[0]! : String(err));
+  }
+  if (!isRecord(raw)) return fail('test file must be a mapping');
+  if (typeof raw['policy'] !== 'string') fail('policy must be a path to the policy under test');
+  if (!Array.isArray(raw['cases']) || raw['cases'].length === 0) fail('cases must be a non-empty list');
+
+  return {
+    file,
+    policy: resolve(dirname(file), raw['policy'] as string),
+    cases: (raw['cases'] as unknown[]).map((c, i) => parseCase(c, i, dirname(file), fail))
+  };
+}
+
+// ─── Running ──────────────────────────────────────────────────────────────────
+
+async function runCase(policy: string, testCase: PolicyTestCase): Promise<PolicyTestOutcome> {
+  // A fresh counter store per case: a quota is never used up by another case
+  const result = await runAuthorityPipeline(
+    testCase.command, testCase.args, policy, testCase.mode, testCase.allow_with_audit,
+    { context: testCase.context, paths: testCase.paths, dry_run: true, quota: { store: new MemoryCounterStore() } }
+  );
+  const actual = {
+    verdict: result.decision,
+    scope: result.scope?.name ?? null,
+    rule: result.decided_by?.id ?? null,
+    reason: result.reason
+  };
+
+  const failures: string[] = [];
+  const { expect } = testCase;
+  if (actual.verdict !== expect.verdict) {
+    failures.push(`verdict: expected ${expect.verdict}, got ${actual.verdict} (${actual.reason})`);
+  }
+  if (expect.scope !== undefined && actual.scope !== expect.scope) {
+    failures.push(`scope: expected ${expect.scope}, got ${actual.scope}`);
+  }
+  if (expect.rule !== undefined && actual.rule !== expect.rule) {
+    failures.push(`rule: expected "${expect.rule}", got ${actual.rule === null ? 'none' : `"${actual.rule}"`}`);
+  }
+  return { case: testCase, passed: failures.length === 0, failures, actual };
+}
+
+/** Run every case in order. Cases are independent — one failure does not stop the rest. */
+export async function runPolicyTests(suite: PolicyTestSuite): Promise<PolicyTestReport> {
+  const outcomes: PolicyTestOutcome[] = [];
+  for (const testCase of suite.cases) {
+    outcomes.push(await runCase(suite.policy, testCase));
+  }
+  const passed = outcomes.filter((o) => o.passed).length;
+  return { suite, outcomes, passed, failed: outcomes.length - passed };
+}
+
+// ─── Reporting ────────────────────────────────────────────────────────────────
+
+/** TAP version 13, one stream for all reports. */
+export function formatTap(reports: PolicyTestReport[]): string {
+  const outcomes = reports.flatMap((r) => r.outcomes);
+  const lines = ['TAP version 13', `1..${outcomes.length}`];
+  outcomes.forEach((o, i) => {
+    lines.push(`${o.passed ? 'ok' : 'not ok'} ${i + 1} - ${o.case.name.replace(/#/g, '\\#')}`);
+    if (!o.passed) {
+      lines.push('  ---');
+      for (const failure of o.failures) lines.push(`  - ${JSON.stringify(failure)}`);
+      lines.push('  ...');
+    }
+  });
+  return lines.join('\n') + '\n';
+}
+
+function xml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+/** JUnit XML — one <testsuite> per test file, named relative to cwd. */
+export function formatJUnit(reports: PolicyTestReport[]): string {
+  const total = reports.reduce((n, r) => n + r.outcomes.length, 0);
+  const failed = reports.reduce((n, r) => n + r.failed, 0);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="policy" tests="${total}" failures="${failed}">`
+  ];
+  for (const report of reports) {
+    const suiteName = xml(relative(process.cwd(), report.suite.file));
+    lines.push(`  <testsuite name="${suiteName}" tests="${report.outcomes.length}" failures="${report.failed}">`);
+    for (const o of report.outcomes) {
+      const open = `    <testcase name="${xml(o.case.name)}" classname="${suiteName}"`;
+      if (o.passed) {
+        lines.push(`${open}/>`);
+      } else {
+        lines.push(`${open}>`);
+        lines.push(`      <failure message="${xml(o.failures[0]!)}">${xml(o.failures.join('\n'))}</failure>`);
+        lines.push('    </testcase>');
+      }
+    }
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,447 @@
+/**
+ * Action Entry Tests — run() end to end (src/main.ts)
+ *
+ * Drives the action exactly as the runner does: INPUT_* environment in,
+ * GITHUB_OUTPUT / GITHUB_STEP_SUMMARY files and an exit code out.
+ *
+ * Tests:
+ *   E1: Defaults — STRICT, policy match executes; gate_mode output declared and set
+ *   E2: gate_mode PERMISSIVE — policy miss is HOLD; fail_on_hold decides the exit code
+ *   E3: allow_with_audit — PERMISSIVE miss executes with an audited ALLOW token
+ *   E4: explain — trace written to the job summary
+ *   E5: Unknown gate_mode / boolean values and allow_with_audit without PERMISSIVE fail before any decision
+ *   E6: Command tokenizer — quotes and escapes group arguments; shell syntax and unbalanced quotes rejected
+ *   E7: command/args inputs through run() — quoted arguments reach the kernel intact; JSON args input
+ *   E8: commands batch — per-command results, aggregate verdict, on_failure stop vs continue
+ *   E9: dry_run — verdict, verification steps and token reported; nothing spawned, consumed or counted
+ *   E10: Job summary table per command; STOP/HOLD annotations on the deciding rule's or default's line
+ *   E11: Path escape STOP annotated on the escaped rule's line, not on `default:`
+ *
+ * Run: npx tsx --test tests/action_run.spec.ts
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { parse } from 'yaml';
+import { run } from '../src/main.js';
+import { CommandSyntaxError, tokenizeCommand } from '../src/command_tokenizer.js';
+import { isTokenUsed, setAuditLog } from '../src/token_registry.js';
+
+const DIR = mkdtempSync(join(tmpdir(), 'guard-action-'));
+
+interface ActionRun {
+  code: number;
+  outputs: Record<string, string>;
+  summary: string;
+}
+
+/** GITHUB_OUTPUT file → name/value map (`name<<delimiter` blocks). */
+function parseOutputs(content: string): Record<string, string> {
+  const outputs: Record<string, string> = {};
+  const re = /^(.+)<<(ghadelimiter_[^\n]+)\n([\s\S]*?)\n\2$/gm;
+  for (const m of content.matchAll(re)) outputs[m[1]!] = m[3]!;
+  return outputs;
+}
+
+let runs = 0;
+/** One file for every run: core.summary resolves GITHUB_STEP_SUMMARY once and caches it. */
+const SUMMARY_FILE = join(DIR, 'step-summary');
+
+/** Run the action with the given inputs (input name → value) and nothing else set. */
+async function runAction(inputs: Record<string, string>): Promise<ActionRun> {
+  const saved = { ...process.env };
+  const outputFile = join(DIR, `output-${++runs}`);
+  writeFileSync(outputFile, '');
+  writeFileSync(SUMMARY_FILE, '');
+  for (const key of Object.keys(process.env)) {
+    if (key.startsWith('INPUT_')) delete process.env[key];
+  }
+  process.env['GITHUB_OUTPUT'] = outputFile;
+  process.env['GITHUB_STEP_SUMMARY'] = SUMMARY_FILE;
+  for (const [name, value] of Object.entries(inputs)) process.env[`INPUT_${name.toUpperCase()}`] = value;
+  try {
+    const code = await run();
+    return {
+      code,
+      outputs: parseOutputs(readFileSync(outputFile, 'utf8')),
+      summary: readFileSync(SUMMARY_FILE, 'utf8')
+    };
+  } finally {
+    process.env = saved;
+    process.exitCode = undefined; // core.setFailed marks the process failed
+  }
+}
+
+/** Run the action, capturing what it writes to stdout (log lines, workflow commands). */
+async function runCaptured(inputs: Record<string, string>): Promise<ActionRun & { lines: string[] }> {
+  const lines: string[] = [];
+  const write = process.stdout.write.bind(process.stdout);
+  // Log lines and workflow commands are strings; the test runner's own reports are buffers
+  process.stdout.write = ((chunk: string | Uint8Array, ...rest: never[]) => {
+    if (typeof chunk !== 'string') return write(chunk, ...rest);
+    lines.push(chunk);
+    return true;
+  }) as typeof process.stdout.write;
+  try {
+    return { ...await runAction(inputs), lines };
+  } finally {
+    process.stdout.write = write;
+  }
+}
+
+/** Run with inputs that must fail validation: exit 1, no outputs, `Invalid input:` annotation. */
+async function assertInvalidInput(inputs: Record<string, string>, message: RegExp): Promise<void> {
+  const { lines, ...result } = await runCaptured(inputs);
+  assert.equal(result.code, 1, JSON.stringify(inputs));
+  assert.deepEqual(result.outputs, {}, 'no decision, no outputs');
+  assert.ok(lines.some((line) => line.startsWith('::error::Invalid input: ') && message.test(line)),
+    `${JSON.stringify(inputs)}: ${lines.join('')}`);
+}
+
+// ─── E1: defaults ───────────────────────────────────────────────────────────
+test('E1: defaults — STRICT gate, matching command executes, gate_mode output', async () => {
+  const result = await runAction({ command: 'echo e1-run' });
+  assert.equal(result.code, 0);
+  assert.equal(result.outputs['verdict'], 'ALLOW');
+  assert.equal(result.outputs['gate_mode'], 'STRICT');
+  assert.ok(result.outputs['token_id'], 'token_id output set on ALLOW');
+
+  const miss = await runAction({ command: 'whoami' });
+  assert.equal(miss.code, 1);
+  assert.equal(miss.outputs['verdict'], 'STOP');
+  assert.equal(miss.outputs['token_id'], '');
+
+  // Every output run() sets is declared in action.yml
+  const action = parse(readFileSync('action.yml', 'utf8')) as { inputs: object; outputs: object };
+  assert.deepEqual(Object.keys(result.outputs).sort(), Object.keys(action.outputs).sort());
+  for (const input of ['gate_mode', 'allow_with_audit', 'explain', 'fail_on_hold']) {
+    assert.ok(input in action.inputs, `action.yml declares input ${input}`);
+  }
+});
+
+// ─── E2: PERMISSIVE ─────────────────────────────────────────────────────────
+test('E2: gate_mode PERMISSIVE — miss is HOLD, fail_on_hold decides the exit code', async () => {
+  const held = await runAction({ command: 'whoami', gate_mode: 'permissive' });
+  assert.equal(held.code, 1, 'fail_on_hold defaults to true');
+  assert.equal(held.outputs['verdict'], 'HOLD');
+  assert.equal(held.outputs['gate_mode'], 'PERMISSIVE');
+  assert.ok(held.outputs['token_id'], 'HOLD token issued');
+
+  const warned = await runAction({ command: 'whoami', gate_mode: 'PERMISSIVE', fail_on_hold: 'false' });
+  assert.equal(warned.code, 0);
+  assert.equal(warned.outputs['verdict'], 'HOLD');
+});
+
+// ─── E3: allow_with_audit ───────────────────────────────────────────────────
+test('E3: allow_with_audit — PERMISSIVE miss executes through the kernel', async () => {
+  const result = await runAction({ command: 'true', gate_mode: 'PERMISSIVE', allow_with_audit: 'true' });
+  assert.equal(result.code, 0);
+  assert.equal(result.outputs['verdict'], 'ALLOW');
+  assert.ok(result.outputs['audit_ref']);
+
+  const off = await runAction({ command: 'true', gate_mode: 'PERMISSIVE', allow_with_audit: 'false' });
+  assert.equal(off.outputs['verdict'], 'HOLD');
+});
+
+// ─── E4: explain ────────────────────────────────────────────────────────────
+test('E4: explain — trace written to the job summary', async () => {
+  const result = await runAction({ command: 'echo e4-run', explain: 'True' });
+  assert.equal(result.code, 0);
+  assert.match(result.summary, /### Execution Guard — explain: `echo e4-run`/);
+
+  const quiet = await runAction({ command: 'echo e4-run' });
+  assert.doesNotMatch(quiet.summary, /explain/);
+});
+
+// ─── E5: validation ─────────────────────────────────────────────────────────
+test('E5: unknown input values fail the step before any decision', async () => {
+  const cases: Array<[Record<string, string>, RegExp]> = [
+    [{ gate_mode: 'permisive' }, /gate_mode must be one of STRICT, PERMISSIVE, got "permisive"/],
+    [{ explain: 'yes' }, /explain must be true or false, got "yes"/],
+    [{ allow_with_audit: '1', gate_mode: 'PERMISSIVE' }, /allow_with_audit must be true or false/],
+    [{ fail_on_hold: 'off' }, /fail_on_hold must be true or false/],
+    [{ allow_with_audit: 'true' }, /allow_with_audit requires gate_mode PERMISSIVE \(gate_mode is STRICT\)/]
+  ];
+  for (const [inputs, message] of cases) {
+    await assertInvalidInput({ command: 'echo e5-run', ...inputs }, message);
+  }
+});
+
+// ─── E6: tokenizer ──────────────────────────────────────────────────────────
+test('E6: tokenizer — quotes and escapes group arguments, shell syntax is rejected', () => {
+  const ok: Array<[string, string[]]> = [
+    ['echo hello   world', ['echo', 'hello', 'world']],
+    ['echo "hello world"', ['echo', 'hello world']],
+    ["cat 'my file.txt' \\t", ['cat', 'my file.txt', 't']],
+    ['touch a\\ b', ['touch', 'a b']],
+    ['echo "a|b" \'x;y $z\' \\;', ['echo', 'a|b', 'x;y $z', ';']],
+    ['echo "say \\"hi\\" \\$5 \\n"', ['echo', 'say "hi" $5 \\n']],
+    ["echo '' \"\" pre'mid'\"post\"", ['echo', '', '', 'premidpost']],
+    ["echo \"it's\"", ['echo', "it's"]]
+  ];
+  for (const [input, argv] of ok) assert.deepEqual(tokenizeCommand(input), argv, input);
+
+  const rejected: Array<[string, RegExp]> = [
+    ['echo "oops', /unbalanced double quote \(column 6\)/],
+    ["echo 'oops", /unbalanced single quote \(column 6\)/],
+    ['npm test | tee out', /shell operator "\|" .* \(column 10\)/],
+    ['make && make install', /shell operator "&"/],
+    ['echo a;rm -rf /', /shell operator ";" .* \(column 7\)/],
+    ['cat < /etc/passwd', /shell operator "<"/],
+    ['echo $(id)', /shell expansion "\$"/],
+    ['echo "$HOME"', /shell expansion "\$" .* \(column 7\)/],
+    ['echo `id`', /shell expansion "`"/],
+    ['echo a\nrm b', /line break in command/],
+    ['echo "a\nb"', /line break in command .* \(column 8\)/],
+    ['echo trailing\\', /dangling backslash/],
+    ['   ', /empty command/],
+    ['"" arg', /empty command/],
+    ['"a|b" arg', /command contains shell metacharacters: "a\|b"/]
+  ];
+  for (const [input, message] of rejected) {
+    assert.throws(() => tokenizeCommand(input),
+      (err: unknown) => err instanceof CommandSyntaxError && message.test(err.message), input);
+  }
+});
+
+// ─── E7: command / args inputs ──────────────────────────────────────────────
+test('E7: quoted arguments and the JSON args input reach the pipeline as argv', async () => {
+  const log = join(DIR, 'audit.jsonl');
+  setAuditLog(log);
+  try {
+    assert.equal((await runAction({ command: 'echo "hello world" \'a|b\'' })).code, 0);
+    assert.equal((await runAction({ command: 'echo', args: '["from args", "$HOME", ""]' })).code, 0);
+  } finally {
+    setAuditLog(null);
+  }
+  const issued = readFileSync(log, 'utf8').trim().split('\n').map((line) => JSON.parse(line) as { event: string; args: string[] })
+    .filter((r) => r.event === 'TOKEN_ISSUED_ALLOW');
+  assert.deepEqual(issued.map((r) => r.args), [['hello world', 'a|b'], ['from args', '$HOME', '']]);
+
+  await assertInvalidInput({ command: 'echo "unterminated' }, /unbalanced double quote \(column 6\)/);
+  await assertInvalidInput({ command: 'npm test && rm -rf /' }, /shell operator "&"/);
+  await assertInvalidInput({ command: 'echo hi', args: '["x"]' }, /command must be a single executable when args is set/);
+  await assertInvalidInput({ command: 'echo', args: '"x"' }, /args must be a JSON array of strings\./);
+  await assertInvalidInput({ command: 'echo', args: '[1]' }, /args\[0\] must be a string, got 1/);
+  await assertInvalidInput({ command: 'echo', args: '[x' }, /args must be a JSON array of strings: /);
+  await assertInvalidInput({ command: '' }, /command \(or commands\) is required/);
+});
+
+// ─── E8: commands batch ─────────────────────────────────────────────────────
+interface Result {
+  index: number;
+  command: string;
+  args: string[];
+  verdict: string;
+  token_id: string;
+  exit_code: number | null;
+  failed: boolean;
+}
+
+test('E8: commands run in order with per-command results; on_failure stop or continue', async () => {
+  const results = (action: ActionRun): Array<[string, string, number | null, boolean]> =>
+    (JSON.parse(action.outputs['results']!) as Result[]).map((r) => [r.command, r.verdict, r.exit_code, r.token_id !== '']);
+
+  const passed = await runAction({ commands: '- echo "e8 one"\n- [echo, e8 two, "$X"]\n' });
+  assert.equal(passed.code, 0);
+  assert.equal(passed.outputs['verdict'], 'ALLOW');
+  assert.equal(passed.outputs['reason'], '2 commands: 2 ALLOW; 0 failed');
+  assert.equal(passed.outputs['token_id'], '', 'per-command tokens are in results');
+  const [first, second] = JSON.parse(passed.outputs['results']!) as Result[];
+  assert.deepEqual([first!.index, first!.args, second!.index, second!.args], [0, ['e8 one'], 1, ['e8 two', '$X']]);
+  assert.notEqual(first!.token_id, second!.token_id);
+
+  const batch = JSON.stringify(['echo e8-a', 'whoami', 'ls /nonexistent-e8', 'echo e8-d']);
+  const stopped = await runAction({ commands: batch });
+  assert.equal(stopped.code, 1);
+  assert.equal(stopped.outputs['verdict'], 'STOP');
+  assert.deepEqual(results(stopped), [
+    ['echo', 'ALLOW', 0, true],
+    ['whoami', 'STOP', null, false],
+    ['ls', 'SKIPPED', null, false],
+    ['echo', 'SKIPPED', null, false]
+  ]);
+  assert.equal(stopped.outputs['reason'], '4 commands: 1 ALLOW, 1 STOP, 2 SKIPPED; 1 failed');
+
+  const continued = await runAction({ commands: batch, on_failure: 'continue' });
+  assert.equal(continued.code, 1, 'first failure decides the exit code');
+  assert.deepEqual(results(continued), [
+    ['echo', 'ALLOW', 0, true],
+    ['whoami', 'STOP', null, false],
+    ['ls', 'ALLOW', 2, true],
+    ['echo', 'ALLOW', 0, true]
+  ]);
+  assert.equal(continued.outputs['reason'], '4 commands: 3 ALLOW, 1 STOP; 2 failed');
+
+  // A failing command's own exit code; HOLD without fail_on_hold is not a failure
+  const exitCode = await runAction({
+    commands: '["whoami", "ls /nonexistent-e8", "echo e8-c"]', gate_mode: 'PERMISSIVE', fail_on_hold: 'false'
+  });
+  assert.equal(exitCode.code, 2);
+  assert.equal(exitCode.outputs['verdict'], 'HOLD');
+  assert.deepEqual(results(exitCode).map((r) => r[1]), ['HOLD', 'ALLOW', 'SKIPPED']);
+
+  await assertInvalidInput({ commands: '- echo a', command: 'echo b' }, /commands cannot be combined with command or args/);
+  await assertInvalidInput({ commands: '- echo "a' }, /commands\[0\]: unbalanced double quote \(column 6\)/);
+  await assertInvalidInput({ commands: '[]' }, /commands must be a non-empty YAML list or JSON array/);
+  await assertInvalidInput({ commands: '- echo a\n- { run: x }' }, /commands\[1\] must be a command string or a non-empty array of strings/);
+  await assertInvalidInput({ commands: '- [echo a, b]' }, /commands\[0\]\[0\] must be a single executable/);
+  await assertInvalidInput({ commands: '- echo a', on_failure: 'halt' }, /on_failure must be one of stop, continue, got "halt"/);
+});
+
+// ─── E9: dry run ────────────────────────────────────────────────────────────
+test('E9: dry_run reports verdict, verification steps and token without executing', async () => {
+  const policy = join(DIR, 'dry-run-policy.yaml');
+  writeFileSync(policy, `
+default: DENY
+rules:
+  - id: touch
+    command: touch
+    args: ['*']
+    max_executions: { limit: 1, per: run }
+`);
+  const target = join(DIR, 'dry-run-target');
+  const log = join(DIR, 'dry-run-audit.jsonl');
+  const results = (action: ActionRun) => JSON.parse(action.outputs['results']!) as Array<Result & {
+    verification: Array<{ step: number; passed: boolean; error_type?: string }>;
+    token: { token_id: string; decision: string; proposal_hash: string };
+  }>;
+
+  setAuditLog(log);
+  let dry: ActionRun;
+  try {
+    dry = await runAction({ command: `touch ${target}`, policy_path: policy, dry_run: 'true' });
+    // Quota (limit 1) is not used by a dry run: a second dry run and a real run still pass
+    assert.equal((await runAction({ command: `touch ${target}`, policy_path: policy, dry_run: 'true' })).code, 0);
+  } finally {
+    setAuditLog(null);
+  }
+  assert.equal(dry.code, 0);
+  assert.equal(dry.outputs['verdict'], 'ALLOW');
+  const [result] = results(dry);
+  assert.equal(result!.exit_code, null);
+  assert.equal(existsSync(target), false, 'nothing spawned');
+  assert.deepEqual(result!.verification.map((s) => [s.step, s.passed]),
+    [[1, true], [2, true], [3, true], [4, true], [5, true], [6, true], [7, true], [8, true]]);
+  assert.equal(result!.token.token_id, dry.outputs['token_id']);
+  assert.equal(result!.token.proposal_hash, dry.outputs['proposal_hash']);
+  assert.equal(isTokenUsed(result!.token.token_id), false, 'replay registry untouched');
+  const issued = readFileSync(log, 'utf8').trim().split('\n').map((line) => JSON.parse(line) as Record<string, unknown>);
+  assert.ok(issued.length === 2 && issued.every((r) => r['event'] === 'TOKEN_ISSUED_ALLOW' && r['dry_run'] === true));
+
+  assert.equal((await runAction({ command: `touch ${target}`, policy_path: policy })).code, 0);
+  assert.equal(existsSync(target), true);
+  const exhausted = await runAction({ command: `touch ${target}`, policy_path: policy, dry_run: 'true' });
+  assert.equal(exhausted.code, 1, 'dry run reports the exhausted quota');
+  assert.equal(exhausted.outputs['verdict'], 'STOP');
+  assert.equal(results(exhausted)[0]!.verification, undefined, 'no token, no verification');
+
+  // HOLD: the token exists, the kernel would refuse it at step 2
+  const held = await runAction({ command: 'whoami', gate_mode: 'PERMISSIVE', dry_run: 'true' });
+  assert.equal(held.code, 1);
+  assert.equal(held.outputs['verdict'], 'HOLD');
+  const hold = results(held)[0]!;
+  assert.equal(hold.token.decision, 'HOLD');
+  assert.deepEqual(hold.verification.filter((s) => !s.passed).map((s) => [s.step, s.error_type]), [[2, 'DECISION_NOT_ALLOW']]);
+  const soft = await runAction({ command: 'whoami', gate_mode: 'PERMISSIVE', dry_run: 'true', fail_on_hold: 'false' });
+  assert.equal(soft.code, 0);
+
+  await assertInvalidInput({ command: 'echo x', dry_run: 'maybe' }, /dry_run must be true or false/);
+});
+
+// ─── E10: job summary and annotations ───────────────────────────────────────
+test('E10: job summary row per command; STOP/HOLD annotated on the deciding policy line', async () => {
+  const dir = mkdtempSync(join(DIR, 'summary-'));
+  writeFileSync(join(dir, 'base.yaml'), [
+    'default: DENY',
+    'rules:',
+    '  - command: ls',
+    "    args: ['**']"
+  ].join('\n'));
+  writeFileSync(join(dir, 'policy.yaml'), [
+    'extends: ./base.yaml',
+    'rules:',
+    '  - id: echo',
+    '    command: echo',
+    "    args: ['**']",
+    '    scope: safe',
+    '  - id: no-rm',
+    '    effect: DENY',
+    '    command: rm',
+    "    args: ['**']"
+  ].join('\n'));
+  const policy = join(dir, 'policy.yaml');
+  const rel = (file: string) => relative(process.cwd(), join(dir, file));
+
+  const run10 = await runCaptured({
+    commands: JSON.stringify(['echo e10', 'rm -rf /tmp/e10-nothing', 'whoami', 'ls /nonexistent-e10']),
+    policy_path: policy,
+    on_failure: 'continue'
+  });
+  assert.equal(run10.code, 1);
+  const results = JSON.parse(run10.outputs['results']!) as Array<{ rule: string; rule_source: string; scope: string; duration_ms: number }>;
+  assert.deepEqual(results.map((r) => [r.rule, r.rule_source, r.scope]), [
+    ['echo', `${rel('policy.yaml')}:3`, 'safe'],
+    ['no-rm', `${rel('policy.yaml')}:7`, ''],
+    ['', `${rel('base.yaml')}:1`, ''],
+    ['rules[0]', `${rel('base.yaml')}:3`, 'safe']
+  ]);
+  assert.ok(results.every((r) => Number.isInteger(r.duration_ms) && r.duration_ms >= 0));
+
+  const rows = run10.summary.split('\n').filter((line) => line.startsWith('| ') && !line.startsWith('| Verdict') && !line.startsWith('| ---'));
+  assert.equal(rows.length, 4);
+  const cells = rows.map((row) => row.slice(2, -2).split(' | '));
+  assert.deepEqual(cells.map((c) => [c[0], c[1], c[2], c[3], c[4], c[8]]), [
+    ['✅ ALLOW', '`echo e10`', `\`echo\` (${rel('policy.yaml')}:3)`, 'safe', 'STRICT', '0'],
+    ['⛔ STOP', '`rm -rf /tmp/e10-nothing`', `\`no-rm\` (${rel('policy.yaml')}:7)`, '—', 'STRICT', '—'],
+    ['⛔ STOP', '`whoami`', `default (${rel('base.yaml')}:1)`, '—', 'STRICT', '—'],
+    ['✅ ALLOW', '`ls /nonexistent-e10`', `\`rules[0]\` (${rel('base.yaml')}:3)`, 'safe', 'STRICT', '2']
+  ]);
+  assert.equal(cells[0]![5], JSON.parse(run10.outputs['results']!)[0].token_id);
+  assert.match(cells[0]![7]!, /^`[0-9a-f]{12}`$/);
+  assert.match(cells[0]![9]!, /^\d+ ms$/);
+
+  const annotations = run10.lines.filter((line) => /^::(error|warning) title=Execution Guard (STOP|HOLD)/.test(line));
+  assert.equal(annotations.length, 2);
+  assert.match(annotations[0]!, new RegExp(`^::error title=Execution Guard STOP \\(rule no-rm\\),file=${rel('policy.yaml')},line=7,col=5::Execution denied by policy: rm -rf /tmp/e10-nothing`));
+  assert.match(annotations[1]!, new RegExp(`^::error title=Execution Guard STOP \\(policy default\\),file=${rel('base.yaml')},line=1,col=1::Execution denied by policy: whoami`));
+
+  const held = await runCaptured({ command: 'whoami', policy_path: policy, gate_mode: 'PERMISSIVE', fail_on_hold: 'false' });
+  assert.ok(held.lines.some((line) => line.startsWith(
+    `::warning title=Execution Guard HOLD (policy default),file=${rel('base.yaml')},line=1,col=1::Execution held by policy`
+  )));
+  assert.match(held.summary, /\| ⚠️ HOLD \| `whoami` \| default/);
+});
+
+// ─── E11: path escape annotation ────────────────────────────────────────────
+test('E11: path escape STOP is annotated on the rule whose roots were escaped', async () => {
+  const dir = mkdtempSync(join(DIR, 'escape-'));
+  writeFileSync(join(dir, 'policy.yaml'), [
+    'default: DENY',
+    'rules:',
+    '  - command: echo',
+    '  - id: read-workspace',
+    '    command: cat',
+    '    args: [{ path: { roots: [GITHUB_WORKSPACE] } }]'
+  ].join('\n'));
+  const rel = relative(process.cwd(), join(dir, 'policy.yaml'));
+
+  const saved = process.env['GITHUB_WORKSPACE'];
+  process.env['GITHUB_WORKSPACE'] = dir;
+  try {
+    const escaped = await runCaptured({ command: 'cat /etc/hostname', policy_path: join(dir, 'policy.yaml') });
+    assert.equal(escaped.code, 1);
+    const [result] = JSON.parse(escaped.outputs['results']!) as Array<{ verdict: string; rule: string; rule_source: string }>;
+    assert.deepEqual([result!.verdict, result!.rule, result!.rule_source], ['STOP', 'read-workspace', `${rel}:4`]);
+    assert.ok(escaped.lines.some((line) => line.startsWith(
+      `::error title=Execution Guard STOP (rule read-workspace),file=${rel},line=4,col=5::Execution denied by policy: cat /etc/hostname`
+    )), escaped.lines.join(''));
+    assert.match(escaped.summary, new RegExp(`\\| ⛔ STOP \\| \`cat /etc/hostname\` \\| \`read-workspace\` \\(${rel}:4\\)`));
+  } finally {
+    if (saved === undefined) delete process.env['GITHUB_WORKSPACE'];
+    else process.env['GITHUB_WORKSPACE'] = saved;
+  }
+});
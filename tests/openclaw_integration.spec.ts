@@ -1,5 +1,5 @@
 /**
- * OpenClaw Integration Tests — DoD A-G
+ * OpenClaw Integration Tests — DoD A-J
  *
  * Tests:
  *   A: Canonicalization stable — same OpenClaw proposal → same proposal_hash
@@ -9,6 +9,9 @@
  *   E: STRICT + no token → spawn never reaches execution (POLICY_MISS_STOP)
  *   F: PERMISSIVE + allow_with_audit=true → executed=true, audit_ref+proposal_hash in result
  *   G: Spawn guard — adapter files do not import child_process directly
+ *   H: Policy-declared scopes drive elevation, STRICT block, approvals and token TTL
+ *   I: max_executions quotas per session / window → QUOTA_EXHAUSTED_STOP, remaining quota audited
+ *   J: Scope comes from the rule that matched the arguments, not the first rule for the command
  *
  * Run: npx tsx --test tests/openclaw_integration.spec.ts
  */
@@ -16,13 +19,21 @@
 import { test } from 'node:test';
 import assert from 'node:assert/strict';
 import { execSync } from 'child_process';  // ALLOWED: test file (not src/)
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { canonicalizeOpenClawProposal } from '../src/adapters/openclaw/canonicalize_openclaw.js';
 import { validateOpenClawProposal } from '../src/adapters/openclaw/openclaw_proposal.js';
 import { executeWithOpenClawAuthority } from '../src/adapters/openclaw/openclaw_adapter.js';
 import { GateMode } from '../src/config/mode.js';
 import { initRegistry } from '../src/token_registry.js';
+import { runAuthorityPipeline } from '../src/authority_pipeline.js';
+import { hasStoredToken, storeToken, deleteToken } from '../src/adapters/openclaw/token_store.js';
+import { MemoryCounterStore } from '../src/stores/memory_counter_store.js';
+import { loadPolicySet } from '../src/core/policy_loader.js';
 
 const POLICY_PATH = './policy.yaml';
+const CONTEXT = { event_name: 'push', ref: 'refs/heads/main', actor: 'octocat', repository: 'acme/app' };
 
 // ─── Shared fixture factory ────────────────────────────────────────────────
 
@@ -62,8 +73,8 @@ initRegistry();
 // ─── A: Canonicalization stable ────────────────────────────────────────────
 test('A: same OpenClaw proposal always produces same proposal_hash', () => {
   const p = makeEchoProposal();
-  const r1 = canonicalizeOpenClawProposal(p, POLICY_PATH);
-  const r2 = canonicalizeOpenClawProposal(p, POLICY_PATH);
+  const r1 = canonicalizeOpenClawProposal(p, POLICY_PATH, CONTEXT);
+  const r2 = canonicalizeOpenClawProposal(p, POLICY_PATH, CONTEXT);
 
   assert.equal(r1.proposal_hash, r2.proposal_hash, 'proposal_hash must be deterministic');
   assert.ok(r1.proposal_hash.length === 64, 'must be SHA256 hex (64 chars)');
@@ -71,8 +82,12 @@ test('A: same OpenClaw proposal always produces same proposal_hash', () => {
 
   // Different args → different hash
   const p2 = makeEchoProposal({ args: ['different-arg'] });
-  const r3 = canonicalizeOpenClawProposal(p2, POLICY_PATH);
+  const r3 = canonicalizeOpenClawProposal(p2, POLICY_PATH, CONTEXT);
   assert.notEqual(r1.proposal_hash, r3.proposal_hash, 'different args → different hash');
+
+  // Different run context → different hash (token bound to event/ref/actor/repository)
+  const r4 = canonicalizeOpenClawProposal(p, POLICY_PATH, { ...CONTEXT, ref: 'refs/heads/dev' });
+  assert.notEqual(r1.proposal_hash, r4.proposal_hash, 'different context → different hash');
 });
 
 // ─── B: Validation rejects shell strings ──────────────────────────────────
@@ -250,3 +265,155 @@ test('G: CI spawn guard passes — adapter files have no direct child_process im
   assert.equal(exitCode, 0, `Spawn guard failed:\n${output}`);
   assert.ok(output.includes('PASS'), 'spawn guard must print PASS');
 });
+
+// ─── H: policy-declared scopes ─────────────────────────────────────────────
+test('H: scopes declared in the policy replace the built-in elevation switch', async () => {
+  const policyPath = join(mkdtempSync(join(tmpdir(), 'guard-scopes-')), 'policy.yaml');
+  writeFileSync(policyPath, `
+default: DENY
+scopes:
+  deploy: { pre_approved_token: true, approvals: 2 }
+  vault: { pre_approved_token: true, blocked_in_strict: true }
+  quick: { token_ttl: 60 }
+  net: { pre_approved_token: false }
+rules:
+  - { command: ls, args: ['**'], scope: deploy }
+  - { command: cat, args: ['**'], scope: vault }
+  - { command: echo, args: ['**'], scope: quick }
+  - { command: 'true', scope: net }
+`, 'utf8');
+  const request = (command: string, args: string[]) => ({
+    openclaw_proposal: { ...makeEchoProposal(), command, args, policy_ref: policyPath },
+    policy_path: policyPath,
+    mode: GateMode.STRICT,
+    context: CONTEXT
+  });
+
+  const held = await executeWithOpenClawAuthority(request('ls', ['-l']));
+  assert.equal(held.reason_code, 'SCOPE_ELEVATION_HOLD');
+  assert.match(held.reason, /deploy scope — requires human-approved token \(2 approvals\)/);
+
+  // The pipeline itself holds it: HOLD token, nothing to execute
+  const pending = await runAuthorityPipeline('ls', ['-l'], policyPath, GateMode.STRICT, false, { context: CONTEXT });
+  assert.equal(pending.decision, 'HOLD');
+  assert.equal(pending.scope_elevation, 'PRE_APPROVED_TOKEN');
+  assert.equal(pending.token!.decision, 'HOLD');
+
+  // One approver is not enough; the token stays stored for the second
+  const issued = await runAuthorityPipeline('ls', ['-l'], policyPath, GateMode.STRICT, false, { context: CONTEXT, pre_approved: true });
+  const token = issued.token!;
+  assert.equal(token.decision, 'ALLOW');
+  storeToken(held.proposal_hash, {
+    ...token, scope: { ...token.scope, constraints: { ...token.scope.constraints, approved_by: 'alice' } as never }
+  });
+  const oneApproval = await executeWithOpenClawAuthority(request('ls', ['-l']));
+  assert.equal(oneApproval.reason_code, 'SCOPE_ELEVATION_HOLD');
+  assert.match(oneApproval.reason, /requires 2 approvals, token carries 1/);
+  assert.equal(hasStoredToken(held.proposal_hash), true);
+  deleteToken(held.proposal_hash);
+
+  const blocked = await executeWithOpenClawAuthority(request('cat', ['secrets']));
+  assert.equal(blocked.reason_code, 'SCOPE_ELEVATION_STOP');
+
+  const redefined = await runAuthorityPipeline('true', [], policyPath, GateMode.STRICT, false, { context: CONTEXT });
+  assert.equal(redefined.decision, 'ALLOW', 'built-in net redefined');
+  assert.equal(redefined.scope!.pre_approved_token, false);
+
+  const quick = await runAuthorityPipeline('echo', ['hi'], policyPath, GateMode.STRICT, false, { context: CONTEXT });
+  assert.equal(quick.scope!.name, 'quick');
+  assert.equal(Date.parse(quick.token!.expires_at) - Date.parse(quick.token!.issued_at), 60_000);
+});
+
+// ─── I: Execution quotas ──────────────────────────────────────────────────
+test('I: max_executions per session is STOP once used up, in every mode; audit records what is left', async () => {
+  const dir = mkdtempSync(join(tmpdir(), 'guard-quota-'));
+  const policyPath = join(dir, 'policy.yaml');
+  writeFileSync(policyPath, `
+default: DENY
+rules:
+  - id: echo-loop
+    command: echo
+    args: ['**']
+    max_executions: { limit: 2, per: session }
+  - id: ls-window
+    command: ls
+    max_executions: { limit: 1, per: window, window: 60 }
+`, 'utf8');
+  const request = (session_id: string, mode = GateMode.STRICT) => ({
+    openclaw_proposal: { ...makeEchoProposal({ session_id }), policy_ref: policyPath },
+    policy_path: policyPath,
+    mode,
+    allow_with_audit: true,
+    context: CONTEXT
+  });
+
+  const first = await executeWithOpenClawAuthority(request('sess-quota-a'));
+  assert.equal(first.reason_code, 'POLICY_MATCH_ALLOW');
+  assert.equal(first.audit_entry.quota_remaining, 1);
+  const second = await executeWithOpenClawAuthority(request('sess-quota-a'));
+  assert.equal(second.executed, true);
+  assert.equal(second.audit_entry.quota_remaining, 0);
+
+  const third = await executeWithOpenClawAuthority(request('sess-quota-a', GateMode.PERMISSIVE));
+  assert.equal(third.verdict, 'STOP', 'not softened by PERMISSIVE + allow_with_audit');
+  assert.equal(third.reason_code, 'QUOTA_EXHAUSTED_STOP');
+  assert.equal(third.executed, false);
+  assert.equal(third.audit_entry.quota_remaining, 0);
+  assert.match(third.reason, /rule echo-loop max_executions 2\/session \(2 used\)/);
+
+  const otherSession = await executeWithOpenClawAuthority(request('sess-quota-b'));
+  assert.equal(otherSession.audit_entry.quota_remaining, 1, 'counters are per session');
+
+  // Window quota, injected store: refused until the window ends
+  const store = new MemoryCounterStore();
+  const options = { context: CONTEXT, quota: { store, run_id: 'run-1' } };
+  const allowed = await runAuthorityPipeline('ls', [], policyPath, GateMode.STRICT, false, options);
+  assert.equal(allowed.decision, 'ALLOW');
+  assert.deepEqual({ ...allowed.quota, resets_at: undefined },
+    { rule: 'ls-window', limit: 1, per: 'window', used: 1, remaining: 0, exhausted: false, resets_at: undefined });
+  const refused = await runAuthorityPipeline('ls', [], policyPath, GateMode.STRICT, false, options);
+  assert.equal(refused.decision, 'STOP');
+  assert.equal(refused.token, undefined);
+  assert.equal(refused.quota!.exhausted, true);
+  assert.equal(refused.quota!.resets_at, allowed.quota!.resets_at);
+  assert.ok(Date.parse(refused.quota!.resets_at!) - Date.now() <= 60_000);
+
+  // A quota on a DENY rule is a policy error
+  writeFileSync(join(dir, 'deny.yaml'),
+    'default: DENY\nrules:\n  - { command: rm, effect: DENY, max_executions: { limit: 1, per: run } }\n', 'utf8');
+  assert.deepEqual(loadPolicySet(join(dir, 'deny.yaml')).diagnostics.map((d) => d.message),
+    ['max_executions applies to ALLOW rules only']);
+});
+
+// ─── J: scope of the matched rule ─────────────────────────────────────────
+test('J: two rules for one command — the scope is the matched rule\'s, never the first rule\'s', async () => {
+  const policyPath = join(mkdtempSync(join(tmpdir(), 'guard-rule-scope-')), 'policy.yaml');
+  writeFileSync(policyPath, `
+default: DENY
+rules:
+  - { id: echo-hello, command: echo, args: [hello], scope: safe }
+  - { id: echo-net, command: echo, args: [secret-net-op], scope: net }
+`, 'utf8');
+  const request = (args: string[]) => ({
+    openclaw_proposal: { ...makeEchoProposal({ args }), policy_ref: policyPath },
+    policy_path: policyPath,
+    mode: GateMode.STRICT,
+    context: CONTEXT
+  });
+
+  const safe = await executeWithOpenClawAuthority(request(['hello']));
+  assert.equal(safe.reason_code, 'POLICY_MATCH_ALLOW');
+  assert.equal(safe.executed, true);
+
+  const net = await executeWithOpenClawAuthority(request(['secret-net-op']));
+  assert.equal(net.verdict, 'HOLD');
+  assert.equal(net.reason_code, 'SCOPE_ELEVATION_HOLD');
+  assert.equal(net.executed, false);
+  assert.match(net.reason, /net scope — requires human-approved token/);
+
+  // Same decision on the action path, attributed to the matching rule
+  const piped = await runAuthorityPipeline('echo', ['secret-net-op'], policyPath, GateMode.PERMISSIVE, true, { context: CONTEXT });
+  assert.equal(piped.decision, 'HOLD');
+  assert.equal(piped.decided_by!.id, 'echo-net');
+  assert.equal(piped.scope!.name, 'net');
+});
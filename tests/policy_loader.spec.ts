@@ -0,0 +1,411 @@
+/**
+ * Policy Loader Tests — extends/include resolution and policy hashing
+ *
+ * Uses Node.js built-in test runner (node:test).
+ * Run with: npx tsx --test tests/policy_loader.spec.ts
+ *
+ * Tests:
+ *   L1: extends inherits default + rules; include adds rules; id overrides in place
+ *   L2: cycles fail closed
+ *   L3: editing an included file changes policy_hash → kernel POLICY_HASH_MISMATCH
+ *   L4: validator reports file/line/column/rule index for each problem
+ *   L5: invalid policy → STOP in PERMISSIVE too, diagnostics on the pipeline result
+ *   L6: signed policy — verified before any rule; bad signature → STOP; token binds the signature
+ *   L7: `scopes:` merge across the set; rule scopes must be declared somewhere in it
+ *   L8: JSON policies; schema_version gate + migrations; published schema matches the validator
+ *   L9: compiled policy cache — per root path, shared across callers, invalidated by any content change
+ *   L10: locations — every effective rule and the effective default point at the file/line that wrote them
+ *   L11: diamond extends — a file reached twice contributes its rules once, overrides made in between stand
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { evaluate } from '../src/core/evaluate.js';
+import { loadPolicySet } from '../src/core/policy_loader.js';
+import { hashPolicyFile } from '../src/canonical_proposal.js';
+import { runAuthorityPipeline } from '../src/authority_pipeline.js';
+import { executeWithAuthority } from '../src/execution_kernel.js';
+import { GateMode } from '../src/config/mode.js';
+import { initRegistry } from '../src/token_registry.js';
+import { ExecutionDeniedError } from '../src/errors.js';
+import { generateKeyPairSync } from 'crypto';
+import { signatureBinding, signPolicyDigest } from '../src/core/policy_signature.js';
+import { executeWithOpenClawAuthority } from '../src/adapters/openclaw/openclaw_adapter.js';
+import { parseDocument } from 'yaml';
+import { formatPolicySchema, migratePolicyDocument, POLICY_SCHEMA_VERSION } from '../src/core/policy_schema.js';
+import { compilePolicy, rulesForCommand } from '../src/core/policy_index.js';
+
+initRegistry();
+
+// ─── Helper: fresh fixture directory with the given files ───────────────────
+function fixture(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'guard-loader-'));
+  for (const [name, body] of Object.entries(files)) {
+    const path = join(dir, name);
+    mkdirSync(join(path, '..'), { recursive: true });
+    writeFileSync(path, body, 'utf8');
+  }
+  return dir;
+}
+
+// ─── L1: composition semantics ──────────────────────────────────────────────
+test('L1: extends + include resolve relative paths; rule id overrides in place', () => {
+  const dir = fixture({
+    'base/base.yaml': `
+default: DENY
+rules:
+  - id: echo
+    command: echo
+    args: ['**']
+  - id: cat
+    command: cat
+    args: ['**']
+`,
+    'base/net.yaml': `
+rules:
+  - command: curl
+    args: ['**']
+    scope: net
+`,
+    'policy.yaml': `
+extends: ./base/base.yaml
+include: [./base/net.yaml]
+rules:
+  - id: cat
+    command: cat
+    args: [{ glob: 'docs/**' }]
+`
+  });
+  const policyPath = join(dir, 'policy.yaml');
+
+  const { policy, sources } = loadPolicySet(policyPath);
+  assert.ok(policy);
+  assert.equal(policy.default, 'DENY');
+  assert.deepEqual(policy.rules.map((r) => r.command), ['echo', 'cat', 'curl']);
+  assert.equal(sources.length, 3);
+
+  assert.equal(evaluate({ command: 'curl', args: ['x'], policyPath }).verdict, 'ALLOW');
+  assert.equal(evaluate({ command: 'cat', args: ['docs/a.md'], policyPath }).verdict, 'ALLOW');
+  assert.equal(evaluate({ command: 'cat', args: ['/etc/passwd'], policyPath }).verdict, 'DENY',
+    'overriding rule replaced the inherited cat [**]');
+});
+
+// ─── L2: cycles ─────────────────────────────────────────────────────────────
+test('L2: extends cycle → policy rejected → DENY', () => {
+  const dir = fixture({
+    'a.yaml': 'default: ALLOW\nextends: ./b.yaml\nrules: []\n',
+    'b.yaml': 'extends: ./a.yaml\nrules: []\n'
+  });
+  const policyPath = join(dir, 'a.yaml');
+
+  const loaded = loadPolicySet(policyPath);
+  assert.equal(loaded.policy, null);
+  const cycle = loaded.diagnostics.find((d) => d.code === 'POLICY_CYCLE');
+  assert.ok(cycle, 'cycle must be reported');
+  assert.equal(cycle.file, join(dir, 'b.yaml'));
+  assert.equal(cycle.line, 1, 'points at the extends entry that closes the cycle');
+  assert.equal(evaluate({ command: 'echo', args: [], policyPath }).verdict, 'DENY');
+});
+
+// ─── L3: hash covers included files ─────────────────────────────────────────
+test('L3: editing an included file → POLICY_HASH_MISMATCH at kernel step 5', async () => {
+  const dir = fixture({
+    'rules.yaml': 'rules:\n  - command: echo\n    args: [\'**\']\n',
+    'policy.yaml': 'default: DENY\ninclude: ./rules.yaml\n'
+  });
+  const policyPath = join(dir, 'policy.yaml');
+
+  const before = hashPolicyFile(policyPath);
+  const result = await runAuthorityPipeline('echo', ['l3'], policyPath, GateMode.STRICT);
+  assert.equal(result.decision, 'ALLOW');
+  assert.equal(result.token!.policy_hash, before);
+
+  writeFileSync(join(dir, 'rules.yaml'), 'rules:\n  - command: echo\n    args: [\'*\']\n', 'utf8');
+  assert.notEqual(hashPolicyFile(policyPath), before, 'included file is part of the hash');
+
+  await assert.rejects(
+    () => executeWithAuthority('echo', ['l3'], result.proposal!, result.token!),
+    (err: unknown) => {
+      assert.ok(err instanceof ExecutionDeniedError, 'must be ExecutionDeniedError');
+      assert.equal(err.error_type, 'POLICY_HASH_MISMATCH');
+      return true;
+    }
+  );
+});
+
+// ─── L4: line-numbered diagnostics ──────────────────────────────────────────
+test('L4: unknown keys, bad scope, wrong types and duplicates are located', () => {
+  const dir = fixture({
+    'policy.yaml': [
+      'default: DENY',              // 1
+      'rulez: []',                  // 2
+      'rules:',                     // 3
+      '  - command: echo',          // 4
+      '    args: [\'**\']',         // 5
+      '    scope: safe-ish',        // 6
+      '  - command: ls',            // 7
+      '    arg: [\'-l\']',          // 8
+      '  - command: 42',            // 9
+      '  - command: echo',          // 10
+      '    args: [\'**\']',         // 11
+      '    scope: safe-ish',        // 12
+      ''
+    ].join('\n')
+  });
+  const policyPath = join(dir, 'policy.yaml');
+
+  const { policy, diagnostics } = loadPolicySet(policyPath);
+  assert.equal(policy, null);
+  const summary = diagnostics.map((d) => [d.code, d.line, d.column, d.rule_index ?? null]);
+  assert.deepEqual(summary, [
+    ['UNKNOWN_KEY', 2, 1, null],
+    ['INVALID_SCOPE', 6, 12, 0],
+    ['UNKNOWN_KEY', 8, 5, 1],
+    ['INVALID_TYPE', 9, 14, 2],
+    ['INVALID_SCOPE', 12, 12, 3],
+    ['DUPLICATE_RULE', 10, 5, 3]
+  ]);
+  assert.ok(diagnostics.every((d) => d.file === policyPath && d.severity === 'error'));
+
+  const result = evaluate({ command: 'echo', args: [], policyPath });
+  assert.equal(result.verdict, 'DENY');
+  assert.equal(result.failure, 'POLICY_INVALID');
+  assert.match(result.reason, /policy\.yaml:2:1 UNKNOWN_KEY/);
+});
+
+// ─── L5: invalid policy is never softened ───────────────────────────────────
+test('L5: YAML syntax error → STOP in PERMISSIVE + allow_with_audit, diagnostics returned', async () => {
+  const dir = fixture({ 'policy.yaml': 'default: DENY\nrules:\n  - command: [echo\n' });
+  const policyPath = join(dir, 'policy.yaml');
+
+  const result = await runAuthorityPipeline('echo', ['x'], policyPath, GateMode.PERMISSIVE, true);
+  assert.equal(result.decision, 'STOP');
+  assert.equal(result.token, undefined);
+  assert.equal(result.policy_failure, 'POLICY_INVALID');
+  assert.equal(result.diagnostics?.[0]?.code, 'YAML_SYNTAX');
+  assert.ok(result.diagnostics![0]!.line >= 3);
+});
+
+// ─── L6: signed policy ──────────────────────────────────────────────────────
+test('L6: policy signature verified before any rule; tampering → STOP; token binds the signed digest', async () => {
+  const dir = fixture({
+    'rules.yaml': 'rules:\n  - command: echo\n    args: [\'**\']\n',
+    'policy.yaml': 'default: DENY\ninclude: ./rules.yaml\n'
+  });
+  const policyPath = join(dir, 'policy.yaml');
+  const keyPair = () => generateKeyPairSync('ed25519', {
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  });
+  const trusted = keyPair();
+  const other = keyPair();
+  writeFileSync(`${policyPath}.sig`, signPolicyDigest(hashPolicyFile(policyPath), trusted.privateKey));
+  const signature = { publicKey: trusted.publicKey };
+
+  const ok = await runAuthorityPipeline('echo', ['l6'], policyPath, GateMode.STRICT, false, { signature });
+  assert.equal(ok.decision, 'ALLOW', ok.reason);
+  const binding = signatureBinding(policyPath, signature);
+  assert.equal(ok.token!.policy_hash, hashPolicyFile(policyPath, binding));
+  assert.notEqual(ok.token!.policy_hash, hashPolicyFile(policyPath), 'signed hash ≠ unsigned digest');
+  assert.deepEqual(ok.proposal!.policy_signature, binding);
+
+  // Wrong key, even in PERMISSIVE + allow_with_audit
+  const wrongKey = await runAuthorityPipeline('echo', ['l6'], policyPath, GateMode.PERMISSIVE, true, {
+    signature: { publicKey: other.publicKey, signaturePath: `${policyPath}.sig` }, explain: true
+  });
+  assert.equal(wrongKey.decision, 'STOP');
+  assert.equal(wrongKey.policy_failure, 'POLICY_SIGNATURE_INVALID');
+  assert.equal(wrongKey.token, undefined);
+  assert.deepEqual(wrongKey.trace!.rules, [], 'no rule considered');
+
+  // Editing an included file invalidates the signature
+  writeFileSync(join(dir, 'rules.yaml'), 'rules:\n  - command: echo\n    args: [\'*\']\n', 'utf8');
+  const tampered = await runAuthorityPipeline('echo', ['l6'], policyPath, GateMode.STRICT, false, { signature });
+  assert.equal(tampered.policy_failure, 'POLICY_SIGNATURE_INVALID');
+  assert.match(tampered.reason, /signature does not match policy/);
+
+  await assert.rejects(
+    () => executeWithAuthority('echo', ['l6'], ok.proposal!, ok.token!),
+    (err: unknown) => err instanceof ExecutionDeniedError && err.error_type === 'POLICY_HASH_MISMATCH'
+  );
+
+  const adapter = await executeWithOpenClawAuthority({
+    openclaw_proposal: {
+      source: 'openclaw', session_id: 's', turn_id: 't', agent_id: 'a', command: 'echo', args: ['l6']
+    },
+    policy_path: policyPath,
+    policy_signature: signature
+  });
+  assert.equal(adapter.verdict, 'STOP');
+  assert.equal(adapter.reason_code, 'POLICY_SIGNATURE_STOP');
+});
+
+// ─── L7: scope declarations ─────────────────────────────────────────────────
+test('L7: scopes declared anywhere in the set are usable by every file; unknown scopes located', () => {
+  const dir = fixture({
+    'base.yaml': 'default: DENY\nscopes:\n  deploy: { pre_approved_token: true }\n',
+    'rules.yaml': 'rules:\n  - command: make\n    scope: deploy\n  - command: kubectl\n    scope: release\n',
+    'policy.yaml': 'extends: ./base.yaml\ninclude: ./rules.yaml\nscopes:\n  release: { approvals: 2 }\n  deploy: { token_ttl: 60 }\n'
+  });
+  const { policy, diagnostics } = loadPolicySet(join(dir, 'policy.yaml'));
+  assert.deepEqual(diagnostics, []);
+  assert.deepEqual(policy!.scopes['deploy'],
+    { pre_approved_token: false, blocked_in_strict: false, token_ttl: 60, approvals: 1 },
+    'later declaration replaces the earlier one by name');
+  assert.equal(policy!.scopes['release']!.approvals, 2);
+  assert.equal(policy!.scopes['admin']!.blocked_in_strict, true, 'built-ins remain');
+
+  const bad = fixture({
+    'policy.yaml': 'default: DENY\nscopes:\n  ops: { approvals: 0 }\nrules:\n  - command: make\n    scope: deploy\n'
+  });
+  const loaded = loadPolicySet(join(bad, 'policy.yaml'));
+  assert.equal(loaded.policy, null);
+  assert.deepEqual(loaded.diagnostics.map((d) => [d.code, d.line, d.message]), [
+    ['INVALID_VALUE', 3, 'scopes.ops.approvals must be a positive integer'],
+    ['INVALID_SCOPE', 6, 'scope must be one of safe, net, fs, admin, ops, got "deploy"']
+  ]);
+});
+
+// ─── L8: JSON policies + schema versioning ──────────────────────────────────
+test('L8: JSON policies load like YAML; newer schema_version fails closed; schema file is current', () => {
+  const dir = fixture({
+    'base.yaml': 'default: DENY\nrules:\n  - id: echo\n    command: echo\n',
+    'policy.json': JSON.stringify({
+      $schema: '../schemas/policy.v1.schema.json',
+      schema_version: 1,
+      extends: './base.yaml',
+      rules: [{ command: 'ls', args: [{ optional: '-l' }] }]
+    }, null, 2),
+    'broken.json': '{\n  "default": "DENY",\n  "rules": [],\n}\n',
+    'future.json': '{\n  "schema_version": 2,\n  "default": "DENY",\n  "rulez": []\n}\n'
+  });
+
+  const { policy, diagnostics } = loadPolicySet(join(dir, 'policy.json'));
+  assert.deepEqual(diagnostics, []);
+  assert.deepEqual(policy!.rules.map((r) => r.command), ['echo', 'ls'], 'a JSON policy may extend a YAML one');
+  assert.equal(evaluate({ command: 'ls', args: ['-l'], policyPath: join(dir, 'policy.json') }).verdict, 'ALLOW');
+
+  const broken = loadPolicySet(join(dir, 'broken.json'));
+  assert.equal(broken.policy, null);
+  assert.deepEqual(broken.diagnostics.map((d) => [d.code, d.line]), [['JSON_SYNTAX', 4]],
+    'trailing comma is YAML-valid but not JSON');
+
+  const future = loadPolicySet(join(dir, 'future.json'));
+  assert.equal(future.policy, null);
+  assert.deepEqual(future.diagnostics.map((d) => [d.code, d.line]), [['UNSUPPORTED_SCHEMA_VERSION', 2]],
+    'a newer format is reported alone, not as a list of unknown keys');
+
+  // Migrations run on the AST, one version step at a time
+  const doc = parseDocument('default: DENY\nallow: [echo]\n');
+  assert.deepEqual(migratePolicyDocument(doc, POLICY_SCHEMA_VERSION, []), [], 'current version: nothing to do');
+  assert.throws(() => migratePolicyDocument(doc, 0, []), /no migration from policy schema_version 0/);
+  const renamed = migratePolicyDocument(doc, 0, [{
+    from: 0,
+    description: 'allow: [cmd] → rules: [{command}]',
+    migrate: (d) => {
+      const commands = d.get('allow') as { toJSON(): string[] };
+      d.set('rules', commands.toJSON().map((command) => ({ command })));
+      d.delete('allow');
+    }
+  }]);
+  assert.deepEqual(renamed.map((m) => m.from), [0]);
+  assert.deepEqual(doc.toJSON(), { default: 'DENY', rules: [{ command: 'echo' }] });
+
+  assert.equal(readFileSync(join(__dirname, '..', 'schemas', 'policy.v1.schema.json'), 'utf8'), formatPolicySchema(),
+    'schemas/policy.v1.schema.json is stale — regenerate with `npm run policy -- schema --output ...`');
+});
+
+// ─── L9: compiled policy index ──────────────────────────────────────────────
+test('L9: compiled policy is shared until any file of the set changes', () => {
+  const dir = fixture({
+    'base.yaml': 'default: DENY\nrules:\n  - { id: ls, command: ls }\n  - { command: echo, args: [a] }\n',
+    'policy.yaml': 'extends: ./base.yaml\nrules:\n  - { command: echo, args: [b] }\n'
+  });
+  const policyPath = join(dir, 'policy.yaml');
+
+  const first = compilePolicy(policyPath);
+  assert.equal(compilePolicy(policyPath), first, 'unchanged files → same compiled object');
+  assert.equal(first.hash, hashPolicyFile(policyPath));
+  assert.deepEqual(rulesForCommand(first, 'echo'), [1, 2]);
+  assert.deepEqual(rulesForCommand(first, 'rm'), []);
+  assert.ok(Object.isFrozen(first.policy!.rules[0]), 'shared policy is frozen');
+
+  // Indexed and traced (every rule) evaluation agree
+  for (const args of [['a'], ['b'], ['c']]) {
+    const plain = evaluate({ command: 'echo', args, policyPath });
+    const traced = evaluate({ command: 'echo', args, policyPath, explain: true });
+    assert.equal(plain.verdict, traced.verdict);
+    assert.equal(plain.reason, traced.reason);
+  }
+
+  // Same-size edit of the extended file: no mtime/size heuristics
+  writeFileSync(join(dir, 'base.yaml'), 'default: DENY\nrules:\n  - { id: ls, command: ls }\n  - { command: echo, args: [c] }\n', 'utf8');
+  const second = compilePolicy(policyPath);
+  assert.notEqual(second, first);
+  assert.notEqual(second.hash, first.hash);
+  assert.equal(evaluate({ command: 'echo', args: ['c'], policyPath }).verdict, 'ALLOW');
+
+  // Invalid sets are never cached: fixing the file takes effect immediately
+  writeFileSync(join(dir, 'policy.yaml'), 'extends: ./base.yaml\nrulez: []\n', 'utf8');
+  assert.equal(compilePolicy(policyPath).policy, null);
+  writeFileSync(join(dir, 'policy.yaml'), 'extends: ./base.yaml\n', 'utf8');
+  assert.deepEqual(compilePolicy(policyPath).policy!.rules.map((r) => r.command), ['ls', 'echo']);
+
+  // Same content at two roots: one entry each, neither evicts nor answers for the other
+  const body = 'default: DENY\nrules:\n  - { command: ls }\n';
+  const [pathA, pathB] = [fixture({ 'policy.yaml': body }), fixture({ 'policy.yaml': body })].map((d) => join(d, 'policy.yaml'));
+  const a = compilePolicy(pathA!);
+  const b = compilePolicy(pathB!);
+  assert.equal(a.hash, b.hash);
+  assert.notEqual(b, a);
+  assert.equal(b.sources[0]!.path, pathB);
+  assert.equal(compilePolicy(pathA!), a, 'compiling B did not replace A');
+  assert.equal(compilePolicy(pathB!), b);
+});
+
+// ─── L10: source locations ──────────────────────────────────────────────────
+test('L10: rule and default locations follow extends, include and id overrides', () => {
+  const dir = fixture({
+    'base.yaml': 'default: DENY\nrules:\n  - id: echo\n    command: echo\n  - id: cat\n    command: cat\n',
+    'net.yaml': 'rules:\n  - { command: curl, scope: net }\n',
+    'policy.yaml': 'extends: ./base.yaml\ninclude: [./net.yaml]\nrules:\n  - id: cat\n    command: cat\n    args: [README.md]\n'
+  });
+  const at = (file: string, line: number, column: number) => ({ file: join(dir, file), line, column });
+
+  const { policy, locations } = loadPolicySet(join(dir, 'policy.yaml'));
+  assert.deepEqual(policy!.rules.map((r) => r.command), ['echo', 'cat', 'curl']);
+  assert.deepEqual(locations, {
+    rules: [at('base.yaml', 3, 5), at('policy.yaml', 4, 5), at('net.yaml', 2, 5)],
+    default: at('base.yaml', 1, 1)
+  });
+  assert.equal(compilePolicy(join(dir, 'policy.yaml')).locations, compilePolicy(join(dir, 'policy.yaml')).locations);
+
+  // A default written by the extending file takes effect there
+  writeFileSync(join(dir, 'policy.yaml'), 'extends: ./base.yaml\n\ndefault: ALLOW\n', 'utf8');
+  assert.deepEqual(loadPolicySet(join(dir, 'policy.yaml')).locations!.default, at('policy.yaml', 3, 1));
+
+  // No policy → no locations
+  writeFileSync(join(dir, 'policy.yaml'), 'extends: ./base.yaml\nrulez: []\n', 'utf8');
+  assert.equal(loadPolicySet(join(dir, 'policy.yaml')).locations, null);
+});
+
+// ─── L11: diamond extends ───────────────────────────────────────────────────
+test('L11: a base extended along two paths contributes its rules once', () => {
+  const dir = fixture({
+    'base.yaml': 'default: DENY\nrules:\n  - { command: ls }\n  - { id: cat, command: cat }\n',
+    'a.yaml': 'extends: ./base.yaml\nrules:\n  - { id: cat, command: cat, args: [README.md] }\n',
+    'b.yaml': 'extends: ./base.yaml\nrules:\n  - { command: echo }\n',
+    'policy.yaml': 'extends: [./a.yaml, ./b.yaml]\n'
+  });
+  const { policy, locations, sources, diagnostics } = loadPolicySet(join(dir, 'policy.yaml'));
+  assert.deepEqual(diagnostics, []);
+  assert.deepEqual(policy!.rules.map((r) => [r.command, r.args ?? null]), [
+    ['ls', null], ['cat', ['README.md']], ['echo', null]
+  ], 'ls once; b does not bring back base\'s cat');
+  assert.deepEqual(locations!.rules.map((l) => l.file), ['base.yaml', 'a.yaml', 'b.yaml'].map((f) => join(dir, f)));
+  assert.equal(policy!.default, 'DENY');
+  assert.equal(sources.length, 4);
+});
@@ -0,0 +1,425 @@
+/**
+ * Policy Rule Tests — evaluate() rule matching
+ *
+ * Uses Node.js built-in test runner (node:test).
+ * Run with: npx tsx --test tests/policy_rules.spec.ts
+ *
+ * Tests:
+ *   P1: glob matcher confines arguments to a directory
+ *   P2: regex, enum and range matchers
+ *   P3: malformed matcher → whole policy invalid → fail-closed DENY
+ *   P4: variadic and optional elements; mismatch names the failing element
+ *   P5: variadic element not at the tail → policy invalid
+ *   P6: DENY rule overrides ALLOW rules regardless of order, names itself in reason
+ *   P7: DENY rule match → pipeline STOP even in PERMISSIVE + allow_with_audit
+ *   P8: `when:` conditions on event/ref/actor; context bound into the token
+ *   P9: explain mode traces every rule considered and the deciding rule
+ *   P10: valid_from/valid_until — enforced, expired rules warned, token clamped to valid_until
+ *   P11: path matcher — realpath confinement to allowed roots; escapes STOP in every mode
+ *   P12: path matcher — option-shaped arguments are never paths, for either intent
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { evaluate } from '../src/core/evaluate.js';
+import { loadPolicySet } from '../src/core/policy_loader.js';
+import { formatTraceMarkdown } from '../src/core/explain.js';
+import { runAuthorityPipeline } from '../src/authority_pipeline.js';
+import { GateMode } from '../src/config/mode.js';
+
+const FIXTURE_DIR = mkdtempSync(join(tmpdir(), 'guard-policy-'));
+let fixtureCount = 0;
+
+// ─── Helper: write a policy fixture and return its path ─────────────────────
+function writePolicy(body: string): string {
+  const path = join(FIXTURE_DIR, `policy-${++fixtureCount}.yaml`);
+  writeFileSync(path, body, 'utf8');
+  return path;
+}
+
+// ─── P1: glob ───────────────────────────────────────────────────────────────
+test('P1: glob matcher allows docs/** and rejects paths outside it', () => {
+  const policyPath = writePolicy(`
+default: DENY
+rules:
+  - command: cat
+    args: [{ glob: 'docs/**' }]
+`);
+
+  assert.equal(evaluate({ command: 'cat', args: ['docs/guide/intro.md'], policyPath }).verdict, 'ALLOW');
+  assert.equal(evaluate({ command: 'cat', args: ['/etc/shadow'], policyPath }).verdict, 'DENY');
+  assert.equal(evaluate({ command: 'cat', args: ['docs/../../etc/shadow'], policyPath }).verdict, 'DENY');
+  assert.equal(evaluate({ command: 'cat', args: ['docs/a', 'docs/b'], policyPath }).verdict, 'DENY');
+});
+
+// ─── P2: regex / enum / range ───────────────────────────────────────────────
+test('P2: regex, enum and range matchers match per position', () => {
+  const policyPath = writePolicy(`
+default: DENY
+rules:
+  - command: git
+    args: ['log', { enum: ['--oneline', '--stat'] }, '-n', { range: { min: 1, max: 50 } }]
+  - command: git
+    args: ['show', { regex: '[0-9a-f]{7,40}' }]
+`);
+
+  const allowed = [
+    ['log', '--oneline', '-n', '10'],
+    ['log', '--stat', '-n', '50'],
+    ['show', 'abc1234']
+  ];
+  for (const args of allowed) {
+    assert.equal(evaluate({ command: 'git', args, policyPath }).verdict, 'ALLOW', args.join(' '));
+  }
+
+  const denied = [
+    ['log', '--patch', '-n', '10'],
+    ['log', '--oneline', '-n', '51'],
+    ['log', '--oneline', '-n', '1e2'],
+    ['show', 'abc1234; rm'],
+    ['show', 'HEAD']
+  ];
+  for (const args of denied) {
+    assert.equal(evaluate({ command: 'git', args, policyPath }).verdict, 'DENY', args.join(' '));
+  }
+});
+
+// ─── P3: malformed matcher → fail-closed ────────────────────────────────────
+test('P3: matcher with two kinds is invalid → policy rejected → DENY', () => {
+  const policyPath = writePolicy(`
+default: ALLOW
+rules:
+  - command: echo
+    args: [{ glob: '*', regex: '.*' }]
+`);
+
+  const result = evaluate({ command: 'echo', args: ['hi'], policyPath });
+  assert.equal(result.verdict, 'DENY');
+  assert.match(result.reason, /No valid policy/);
+});
+
+// ─── P4: variadic / optional ────────────────────────────────────────────────
+test('P4: variadic and optional elements follow explicit semantics', () => {
+  const policyPath = writePolicy(`
+default: DENY
+rules:
+  - command: git
+    args: ['status', '**']
+  - command: rm
+    args: ['-v', '*+']
+  - command: ls
+    args: [{ optional: { enum: ['-l', '-la'] } }, '*?']
+`);
+
+  const cases: [string, string[], 'ALLOW' | 'DENY'][] = [
+    ['git', ['status'], 'ALLOW'],
+    ['git', ['status', '-s', '--branch'], 'ALLOW'],
+    ['rm', ['-v'], 'DENY'],
+    ['rm', ['-v', 'a', 'b'], 'ALLOW'],
+    ['ls', [], 'ALLOW'],
+    ['ls', ['-la'], 'ALLOW'],
+    ['ls', ['-l', 'src'], 'ALLOW'],
+    ['ls', ['src'], 'ALLOW'],
+    ['ls', ['-l', 'src', 'extra'], 'DENY']
+  ];
+  for (const [command, args, verdict] of cases) {
+    assert.equal(evaluate({ command, args, policyPath }).verdict, verdict, `${command} ${args.join(' ')}`);
+  }
+
+  const missing = evaluate({ command: 'rm', args: ['-v'], policyPath });
+  assert.deepEqual(
+    { rule: missing.mismatch?.rule_index, element: missing.mismatch?.element_index, arg: missing.mismatch?.arg_index },
+    { rule: 1, element: 1, arg: 1 }
+  );
+
+  const extra = evaluate({ command: 'ls', args: ['-l', 'src', 'extra'], policyPath });
+  assert.equal(extra.mismatch?.element_index, null, 'extra argument has no element left');
+  assert.equal(extra.mismatch?.arg_index, 2);
+  assert.match(extra.reason, /rules\[2\]/);
+
+  const wrong = evaluate({ command: 'git', args: ['push'], policyPath });
+  assert.equal(wrong.mismatch?.element_index, 0);
+  assert.match(wrong.mismatch!.reason, /"push" does not match "status"/);
+});
+
+// ─── P5: layout validation ──────────────────────────────────────────────────
+test('P5: variadic element before the tail → policy invalid → DENY', () => {
+  const policyPath = writePolicy(`
+default: ALLOW
+rules:
+  - command: git
+    args: ['**', 'status']
+`);
+
+  const result = evaluate({ command: 'git', args: ['status'], policyPath });
+  assert.equal(result.verdict, 'DENY');
+  assert.match(result.reason, /No valid policy/);
+});
+
+// ─── P6: deny-overrides ─────────────────────────────────────────────────────
+test('P6: matching DENY rule wins over earlier ALLOW rules', () => {
+  const policyPath = writePolicy(`
+default: DENY
+rules:
+  - command: rm
+    args: ['-v', '*+']
+  - command: npx
+    args: ['**']
+  - id: no-rm-root
+    effect: DENY
+    command: rm
+    any_arg: '/'
+    description: never rm /
+  - effect: DENY
+    command: npx
+    args: ['some-remote-pkg', '**']
+`);
+
+  assert.equal(evaluate({ command: 'rm', args: ['-v', 'build'], policyPath }).verdict, 'ALLOW');
+  assert.equal(evaluate({ command: 'npx', args: ['tsc'], policyPath }).verdict, 'ALLOW');
+
+  const rmRoot = evaluate({ command: 'rm', args: ['-v', 'build', '/'], policyPath });
+  assert.equal(rmRoot.verdict, 'DENY');
+  assert.deepEqual(rmRoot.decided_by, { rule_index: 2, id: 'no-rm-root', effect: 'DENY' });
+  assert.match(rmRoot.reason, /rules\[2\] id="no-rm-root" \(rm\): never rm \//);
+
+  const npx = evaluate({ command: 'npx', args: ['some-remote-pkg', '--yes'], policyPath });
+  assert.equal(npx.verdict, 'DENY');
+  assert.equal(npx.decided_by?.rule_index, 3);
+});
+
+// ─── P7: explicit deny is never softened by gate mode ───────────────────────
+test('P7: DENY rule → STOP in PERMISSIVE + allow_with_audit, no token', async () => {
+  const policyPath = writePolicy(`
+default: DENY
+rules:
+  - effect: DENY
+    command: echo
+    args: ['secret', '**']
+`);
+
+  const denied = await runAuthorityPipeline('echo', ['secret'], policyPath, GateMode.PERMISSIVE, true);
+  assert.equal(denied.decision, 'STOP');
+  assert.equal(denied.token, undefined);
+  assert.equal(denied.decided_by?.effect, 'DENY');
+
+  const missed = await runAuthorityPipeline('echo', ['public'], policyPath, GateMode.PERMISSIVE);
+  assert.equal(missed.decision, 'HOLD', 'a plain miss still HOLDs in PERMISSIVE');
+});
+
+// ─── P8: context-conditional rules ──────────────────────────────────────────
+test('P8: when: binds rules to event, ref and actor; context is part of the proposal', async () => {
+  const policyPath = writePolicy(`
+default: DENY
+rules:
+  - command: echo
+    args: ['publish']
+    when:
+      event: push
+      ref: ['refs/heads/main', 'refs/tags/**']
+  - command: echo
+    args: ['release']
+    when:
+      actor: release-*
+`);
+  const push = { event_name: 'push', ref: 'refs/heads/main', actor: 'octocat', repository: 'acme/app' };
+
+  const cases: [string, typeof push | undefined, 'ALLOW' | 'DENY'][] = [
+    ['publish', push, 'ALLOW'],
+    ['publish', { ...push, ref: 'refs/tags/v1.2.0' }, 'ALLOW'],
+    ['publish', { ...push, ref: 'refs/heads/dev' }, 'DENY'],
+    ['publish', { ...push, event_name: 'pull_request' }, 'DENY'],
+    ['publish', undefined, 'DENY'],
+    ['release', { ...push, actor: 'release-bot' }, 'ALLOW'],
+    ['release', push, 'DENY']
+  ];
+  for (const [arg, context, verdict] of cases) {
+    assert.equal(evaluate({ command: 'echo', args: [arg], policyPath, context }).verdict, verdict,
+      `${arg} ${JSON.stringify(context)}`);
+  }
+
+  const result = await runAuthorityPipeline('echo', ['publish'], policyPath, GateMode.STRICT, false, { context: push });
+  assert.equal(result.decision, 'ALLOW');
+  assert.deepEqual(result.proposal!.context, push, 'context is bound into the canonical proposal');
+});
+
+// ─── P9: explain mode ───────────────────────────────────────────────────────
+test('P9: explain traces command, condition and argument mismatches and the decider', async () => {
+  const policyPath = writePolicy(`
+default: DENY
+rules:
+  - command: ls
+  - command: echo
+    args: ['deploy']
+    when: { event: push }
+  - id: echo-hello
+    command: echo
+    args: ['hello', { enum: ['world'] }]
+  - id: no-secret
+    effect: DENY
+    command: echo
+    any_arg: { glob: 'secret*' }
+`);
+  const context = { event_name: 'pull_request', ref: '', actor: 'octocat', repository: '' };
+
+  assert.equal(evaluate({ command: 'echo', args: ['hello', 'mars'], policyPath, context }).trace, undefined,
+    'no trace unless requested');
+
+  const miss = await runAuthorityPipeline('echo', ['hello', 'mars'], policyPath, GateMode.STRICT, false,
+    { context, explain: true });
+  assert.equal(miss.decision, 'STOP');
+  const trace = miss.trace!;
+  assert.equal(trace.decision, 'DEFAULT');
+  assert.equal(trace.decided_by, undefined);
+  assert.deepEqual(trace.rules.map((r) => r.outcome),
+    ['COMMAND_MISMATCH', 'CONDITION_MISMATCH', 'ARGS_MISMATCH', 'ANY_ARG_MISMATCH']);
+  assert.deepEqual(trace.rules[1]!.condition, { field: 'event', actual: 'pull_request', expected: ['push'] });
+  assert.equal(trace.rules[2]!.id, 'echo-hello');
+  assert.equal(trace.rules[2]!.args!.element_index, 1);
+  assert.equal(trace.rules[2]!.args!.arg_index, 1);
+  assert.match(formatTraceMarkdown(trace), /\| rules\[2\] id="echo-hello" \| ALLOW \| `echo` \| ARGS_MISMATCH \|/);
+
+  const denied = evaluate({ command: 'echo', args: ['hello', 'secret-token'], policyPath, context, explain: true });
+  assert.equal(denied.trace!.decision, 'RULE');
+  assert.deepEqual(denied.trace!.decided_by, { rule_index: 3, id: 'no-secret', effect: 'DENY' });
+  assert.equal(denied.trace!.rules[3]!.outcome, 'MATCHED');
+});
+
+// ─── P10: rule lifetimes ────────────────────────────────────────────────────
+test('P10: rules apply only within valid_from/valid_until; tokens never outlive the rule', async () => {
+  const soon = new Date(Date.now() + 90_000).toISOString();
+  const policyPath = writePolicy(`
+default: DENY
+rules:
+  - id: migration
+    command: curl
+    args: ['**']
+    valid_from: 2026-03-02
+    valid_until: 2026-03-09T18:00:00+02:00
+  - id: hotfix
+    command: echo
+    args: ['**']
+    valid_until: '${soon}'
+`);
+  const at = (iso: string) => evaluate({ command: 'curl', args: ['x'], policyPath, now: new Date(iso), explain: true });
+
+  assert.equal(at('2026-03-01T23:59:59Z').verdict, 'DENY');
+  assert.equal(at('2026-03-01T23:59:59Z').trace!.rules[0]!.outcome, 'NOT_YET_VALID');
+  const inside = at('2026-03-05T12:00:00Z');
+  assert.equal(inside.verdict, 'ALLOW');
+  assert.deepEqual(inside.decided_by, {
+    rule_index: 0, id: 'migration', effect: 'ALLOW', valid_until: '2026-03-09T16:00:00.000Z'
+  });
+  assert.equal(at('2026-03-09T16:00:00Z').verdict, 'DENY', 'valid_until is exclusive');
+  assert.equal(at('2026-03-09T16:00:00Z').trace!.rules[0]!.outcome, 'EXPIRED');
+
+  const { diagnostics } = loadPolicySet(policyPath);
+  assert.deepEqual(diagnostics.map((d) => [d.code, d.severity, d.rule_index]), [['RULE_EXPIRED', 'warning', 0]]);
+  assert.equal(diagnostics[0]!.line, 8);
+
+  // Token TTL is 5 minutes; the rule ends in 90s
+  const result = await runAuthorityPipeline('echo', ['hi'], policyPath, GateMode.STRICT);
+  assert.equal(result.decision, 'ALLOW');
+  assert.equal(result.token!.expires_at, soon);
+
+  const invalid = loadPolicySet(writePolicy(`
+default: DENY
+rules:
+  - command: ls
+    valid_from: 2026-03-09
+    valid_until: 2026-03-02
+  - command: cat
+    valid_until: '2026-03-09T18:00:00'
+`));
+  assert.equal(invalid.policy, null);
+  assert.deepEqual(invalid.diagnostics.map((d) => d.message), [
+    'valid_from must be before valid_until',
+    'valid_until must be an ISO 8601 date or date-time with Z/offset, got "2026-03-09T18:00:00"'
+  ]);
+});
+
+// ─── P11: path matcher ──────────────────────────────────────────────────────
+test('P11: path args are confined to allowed roots after realpath; escapes are STOP with a reason', async () => {
+  const base = mkdtempSync(join(tmpdir(), 'guard-paths-'));
+  const workspace = join(base, 'workspace');
+  const temp = join(base, 'temp');
+  mkdirSync(join(workspace, 'docs'), { recursive: true });
+  mkdirSync(temp);
+  writeFileSync(join(workspace, 'docs', 'a.md'), 'a');
+  writeFileSync(join(base, 'secret'), 's');
+  symlinkSync(join(base, 'secret'), join(workspace, 'leak'));
+  symlinkSync(base, join(workspace, 'up'));
+  symlinkSync(join(base, 'missing'), join(workspace, 'dangling'));
+  const paths = { cwd: workspace, roots: { GITHUB_WORKSPACE: workspace, RUNNER_TEMP: temp } };
+
+  const policyPath = writePolicy(`
+default: DENY
+rules:
+  - command: cat
+    args: [{ one_or_more: { path: { roots: [GITHUB_WORKSPACE] } } }]
+  - command: rm
+    args: ['-v', { one_or_more: { path: { roots: [GITHUB_WORKSPACE, RUNNER_TEMP], intent: write } } }]
+`);
+  const run = (command: string, args: string[]) => evaluate({ command, args, policyPath, paths });
+  const violation = (command: string, args: string[]) => run(command, args).mismatch?.path_violation?.code;
+
+  assert.equal(run('cat', ['docs/a.md', `${workspace}/docs/a.md`]).verdict, 'ALLOW');
+  assert.equal(run('rm', ['-v', 'build/out.js', join(temp, 'cache')]).verdict, 'ALLOW', 'write: may not exist yet');
+
+  const traversal = run('cat', ['../secret']);
+  assert.equal(traversal.verdict, 'DENY');
+  assert.equal(traversal.path_violation?.code, 'PATH_TRAVERSAL');
+  assert.equal(traversal.reason,
+    `Path escape: rules[0] args[0]: "../secret" resolves to ${join(base, 'secret')}, outside GITHUB_WORKSPACE (PATH_TRAVERSAL)`);
+  assert.equal(violation('cat', ['/etc/passwd']), 'OUTSIDE_ROOTS');
+  assert.equal(violation('cat', ['leak']), 'SYMLINK_ESCAPE');
+  assert.equal(violation('rm', ['-v', 'up/new-file']), 'SYMLINK_ESCAPE', 'write: ancestor symlink resolved');
+  assert.equal(violation('rm', ['-v', 'dangling']), 'SYMLINK_ESCAPE', 'write: dangling link target unknowable');
+  assert.equal(violation('cat', ['docs/none.md']), 'PATH_NOT_FOUND');
+  assert.equal(violation('rm', ['-v', '.']), 'ROOT_WRITE');
+  assert.equal(run('cat', ['docs/none.md']).path_violation, undefined, 'a miss is not an escape');
+  assert.equal(evaluate({ command: 'cat', args: ['docs/a.md'], policyPath }).mismatch?.path_violation?.code,
+    'ROOTS_UNAVAILABLE', 'no roots → never matches');
+
+  // An escape is STOP even where a miss would be HOLD or an audited permit
+  const stopped = await runAuthorityPipeline('cat', ['../secret'], policyPath, GateMode.PERMISSIVE, true, { paths });
+  assert.equal(stopped.decision, 'STOP');
+  assert.equal(stopped.path_violation?.code, 'PATH_TRAVERSAL');
+  assert.equal(stopped.token, undefined);
+  const held = await runAuthorityPipeline('cat', ['docs/none.md'], policyPath, GateMode.PERMISSIVE, false, { paths });
+  assert.equal(held.decision, 'HOLD');
+});
+
+// ─── P12: option-shaped path arguments ──────────────────────────────────────
+test('P12: an argument starting with "-" is never a path — --target-directory=/etc and -t/etc are escapes', async () => {
+  const workspace = mkdtempSync(join(tmpdir(), 'guard-path-options-'));
+  writeFileSync(join(workspace, 'a.txt'), 'a');
+  const paths = { cwd: workspace, roots: { GITHUB_WORKSPACE: workspace } };
+  const policyPath = writePolicy(`
+default: DENY
+rules:
+  - command: cp
+    args: [{ path: { roots: [GITHUB_WORKSPACE] } }, { path: { roots: [GITHUB_WORKSPACE], intent: write } }]
+  - command: cat
+    args: [{ path: { roots: [GITHUB_WORKSPACE] } }]
+`);
+  const run = (command: string, args: string[]) => evaluate({ command, args, policyPath, paths });
+
+  assert.equal(run('cp', ['a.txt', 'b.txt']).verdict, 'ALLOW');
+  for (const option of ['--target-directory=/etc', '-t/etc']) {
+    const result = run('cp', ['a.txt', option]);
+    assert.equal(result.verdict, 'DENY', option);
+    assert.equal(result.path_violation?.code, 'OPTION_ARGUMENT', option);
+    assert.equal(result.reason,
+      `Path escape: rules[0] args[1]: "${option}" is an option, not a path — its value is never checked against GITHUB_WORKSPACE (OPTION_ARGUMENT)`);
+  }
+  writeFileSync(join(workspace, '-n'), 'n');
+  assert.equal(run('cat', ['-n']).path_violation?.code, 'OPTION_ARGUMENT', 'read intent too, even when the file exists');
+
+  const stopped = await runAuthorityPipeline('cp', ['a.txt', '-t/etc'], policyPath, GateMode.PERMISSIVE, true, { paths });
+  assert.equal(stopped.decision, 'STOP');
+  assert.equal(stopped.token, undefined);
+});
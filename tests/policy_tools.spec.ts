@@ -0,0 +1,352 @@
+/**
+ * Policy Tooling Tests — policy maintenance tools (src/tools/)
+ *
+ * Uses Node.js built-in test runner (node:test).
+ * Run with: npx tsx --test tests/policy_tools.spec.ts
+ *
+ * Tests:
+ *   PT1: policy test file — passing and failing cases, TAP and JUnit output
+ *   PT2: malformed policy test file → PolicyTestFileError, no case run
+ *   PT3: policy diff — widened/narrowed args, scope moves, added/removed rules
+ *   PT4: learning mode — PERMISSIVE misses recorded; candidate policy allows exactly what was seen
+ *   PT5: coverage report — per-rule decisions from the audit log, dead rules, new-rule candidates
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { appendFileSync, mkdirSync, mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  formatJUnit,
+  formatTap,
+  loadPolicyTestFile,
+  PolicyTestFileError,
+  runPolicyTests
+} from '../src/tools/policy_test.js';
+import { diffPolicies, formatDiffMarkdown } from '../src/tools/policy_diff.js';
+import {
+  DEFAULT_COMMAND_CATALOG,
+  formatCandidatePolicy,
+  generateCandidatePolicy,
+  LearnInputError,
+  loadObservations
+} from '../src/tools/policy_learn.js';
+import {
+  buildCoverageReport,
+  CoverageInputError,
+  formatCoverageJson,
+  formatCoverageMarkdown,
+  loadAuditRecords
+} from '../src/tools/policy_coverage.js';
+import { runAuthorityPipeline } from '../src/authority_pipeline.js';
+import { setAuditLog } from '../src/token_registry.js';
+import { executeWithOpenClawAuthority } from '../src/adapters/openclaw/openclaw_adapter.js';
+import { evaluate } from '../src/core/evaluate.js';
+import { loadPolicySet } from '../src/core/policy_loader.js';
+import { GateMode } from '../src/config/mode.js';
+import { EMPTY_CONTEXT } from '../src/core/conditions.js';
+
+const FIXTURE_DIR = mkdtempSync(join(tmpdir(), 'guard-tools-'));
+
+// ─── Helper: write a fixture file and return its path ───────────────────────
+function fixture(name: string, body: string): string {
+  const path = join(FIXTURE_DIR, name);
+  writeFileSync(path, body, 'utf8');
+  return path;
+}
+
+const POLICY = `
+default: DENY
+rules:
+  - id: git-status
+    command: git
+    args: ['status', '**']
+    scope: safe
+  - command: curl
+    args: ['**']
+    scope: net
+    when: { event: push }
+`;
+
+// ─── PT1: policy test runner ────────────────────────────────────────────────
+test('PT1: policy test cases run through the pipeline; failures reported as TAP and JUnit', async () => {
+  fixture('pt1-policy.yaml', POLICY);
+  const suite = loadPolicyTestFile(fixture('pt1.test.yaml', `
+policy: ./pt1-policy.yaml
+cases:
+  - name: git status -s allowed
+    command: git
+    args: [status, -s]
+    expect: { verdict: ALLOW, scope: safe, rule: git-status }
+  - name: git push held in PERMISSIVE
+    command: git
+    args: [push]
+    mode: PERMISSIVE
+    expect: { verdict: HOLD }
+  - name: curl on push
+    command: curl
+    args: [https://example.com]
+    context: { event: push }
+    expect: { verdict: HOLD, scope: net }
+  - name: curl without context (wrong on purpose)
+    command: curl
+    args: [https://example.com]
+    expect: { verdict: ALLOW, scope: fs }
+`));
+
+  const report = await runPolicyTests(suite);
+  assert.equal(report.passed, 3);
+  assert.equal(report.failed, 1);
+  const failing = report.outcomes[3]!;
+  assert.equal(failing.actual.verdict, 'STOP', 'context is never read from the environment');
+  assert.equal(failing.failures.length, 2);
+  assert.match(failing.failures[0]!, /^verdict: expected ALLOW, got STOP/);
+  assert.equal(failing.failures[1], 'scope: expected fs, got null', 'no rule matched, so no scope');
+
+  const tap = formatTap([report]);
+  assert.match(tap, /^TAP version 13\n1\.\.4\n/);
+  assert.match(tap, /^ok 1 - git status -s allowed$/m);
+  assert.match(tap, /^not ok 4 - curl without context \(wrong on purpose\)$/m);
+
+  const junit = formatJUnit([report]);
+  assert.match(junit, /<testsuites name="policy" tests="4" failures="1">/);
+  assert.match(junit, /<failure message="verdict: expected ALLOW, got STOP/);
+
+  // Cases are independent: a quota is not used up by the cases before
+  fixture('pt1-quota.yaml', 'default: DENY\nrules:\n  - { id: once, command: ls, max_executions: { limit: 1, per: run } }\n');
+  const quota = await runPolicyTests(loadPolicyTestFile(fixture('pt1-quota.test.yaml', `
+policy: ./pt1-quota.yaml
+cases:
+  - { command: ls, expect: { verdict: ALLOW, rule: once } }
+  - { command: ls, expect: { verdict: ALLOW, rule: once } }
+`)));
+  assert.deepEqual(quota.outcomes.map((o) => o.actual.verdict), ['ALLOW', 'ALLOW']);
+
+  // path: roots come from the case (relative to the test file), never the runner
+  mkdirSync(join(FIXTURE_DIR, 'pt1-sub'), { recursive: true });
+  fixture('pt1-data.txt', 'data\n');
+  fixture('pt1-path.yaml', 'default: DENY\nrules:\n  - { id: read, command: cat, args: [{ path: { roots: [GITHUB_WORKSPACE] } }] }\n');
+  const paths = await runPolicyTests(loadPolicyTestFile(fixture('pt1-path.test.yaml', `
+policy: ./pt1-path.yaml
+cases:
+  - { command: cat, args: [pt1-data.txt], expect: { verdict: ALLOW, rule: read } }
+  - { command: cat, args: [../pt1-data.txt], paths: { cwd: ./pt1-sub }, expect: { verdict: ALLOW, rule: read } }
+  - { command: cat, args: [pt1-data.txt], paths: { GITHUB_WORKSPACE: ./pt1-sub }, expect: { verdict: STOP } }
+`)));
+  assert.equal(paths.failed, 0, paths.outcomes.flatMap((o) => o.failures).join('; '));
+  assert.equal(paths.outcomes[0]!.case.paths.roots.GITHUB_WORKSPACE, FIXTURE_DIR);
+  assert.equal(paths.outcomes[0]!.case.paths.roots.RUNNER_TEMP, undefined);
+});
+
+// ─── PT2: malformed test file ───────────────────────────────────────────────
+test('PT2: malformed test file → PolicyTestFileError naming the case and key', () => {
+  const cases: [string, RegExp][] = [
+    ['policy: ./p.yaml\ncases: []\n', /cases must be a non-empty list/],
+    ['policy: ./p.yaml\ncases:\n  - command: ls\n    expect: { verdict: MAYBE }\n', /cases\[0\]\.expect\.verdict/],
+    ['policy: ./p.yaml\ncases:\n  - command: ls\n    argz: []\n    expect: { verdict: STOP }\n', /cases\[0\]: unknown key "argz"/],
+    ['policy: ./p.yaml\ncases:\n  - command: ls\n    context: { branch: main }\n    expect: { verdict: STOP }\n',
+      /unknown field "branch"/],
+    ['policy: ./p.yaml\ncases:\n  - command: ls\n    paths: { HOME: . }\n    expect: { verdict: STOP }\n',
+      /cases\[0\]\.paths: unknown key "HOME"/]
+  ];
+  cases.forEach(([body, message], i) => {
+    const path = fixture(`pt2-${i}.test.yaml`, body);
+    assert.throws(() => loadPolicyTestFile(path), (err: unknown) => {
+      assert.ok(err instanceof PolicyTestFileError);
+      assert.match(err.message, message);
+      return true;
+    });
+  });
+});
+
+// ─── PT3: policy diff ───────────────────────────────────────────────────────
+test('PT3: policy diff reports widened, narrowed, moved, added and removed rules', () => {
+  const before = fixture('pt3-before.yaml', `
+default: DENY
+rules:
+  - command: cat
+    args: [{ glob: 'docs/*' }]
+  - command: git
+    args: ['log', '**']
+  - command: curl
+    args: ['**']
+    scope: net
+  - command: touch
+    args: ['**']
+    scope: fs
+  - id: deploy
+    command: make
+    args: ['deploy']
+    when: { ref: 'refs/heads/*' }
+  - id: build
+    command: npm
+    max_executions: { limit: 5, per: run }
+`);
+  const after = fixture('pt3-after.yaml', `
+default: DENY
+rules:
+  - command: cat
+    args: ['*']
+  - command: git
+    args: ['log', { enum: ['--oneline'] }]
+  - command: curl
+    args: ['**']
+    scope: safe
+  - id: deploy
+    command: make
+    args: ['deploy']
+    when: { ref: refs/heads/main }
+  - id: build
+    command: npm
+    max_executions: { limit: 20, per: run }
+  - id: no-secrets
+    effect: DENY
+    command: cat
+    any_arg: { glob: '**/.env' }
+`);
+
+  const diff = diffPolicies(before, after);
+  const byCommand = (command: string, kind?: string) =>
+    diff.changes.find((c) => c.command === command && (kind === undefined || c.kind === kind))!;
+
+  assert.equal(byCommand('cat', 'modified').match, 'widened');
+  assert.equal(byCommand('cat', 'modified').impact, 'more_permissive');
+  assert.equal(byCommand('git').match, 'narrowed');
+  assert.equal(byCommand('git').impact, 'less_permissive');
+  assert.deepEqual(byCommand('curl').scope, { from: 'net', to: 'safe' });
+  assert.equal(byCommand('curl').impact, 'more_permissive');
+  assert.equal(byCommand('touch').kind, 'removed');
+  assert.equal(byCommand('make').id, 'deploy');
+  assert.equal(byCommand('make').match, 'narrowed');
+  assert.equal(byCommand('cat', 'added').effect, 'DENY');
+  assert.equal(byCommand('cat', 'added').impact, 'less_permissive');
+  assert.equal(byCommand('npm').impact, 'more_permissive');
+  assert.deepEqual(byCommand('npm').details, ['`npm` (id "build") max_executions changed from 5/run to 20/run']);
+  assert.equal(diff.default_changed, false);
+  assert.equal(diff.more_permissive, true);
+
+  const markdown = formatDiffMarkdown(diff);
+  assert.match(markdown, /`cat` args widened from \[glob\("docs\/\*"\)\] to \["\*"\]/);
+  assert.match(markdown, /`curl` moved from net to safe/);
+
+  assert.equal(diffPolicies(before, before).changes.length, 0, 'identical policies → no changes');
+});
+
+// ─── PT4: learning mode ─────────────────────────────────────────────────────
+test('PT4: learning mode records PERMISSIVE misses; candidate policy generalizes and allows them', async () => {
+  const policy = fixture('learn-policy.yaml', POLICY);
+  const log = join(FIXTURE_DIR, 'observations.jsonl');
+  const learn = { context: EMPTY_CONTEXT, learn: log };
+  const seen: Array<[string, string[]]> = [
+    ['git', ['fetch', '--tags']], ['git', ['fetch', '--prune']],
+    ['cat', ['docs/a.md']], ['cat', ['docs/guide/b.md']],
+    ['terraform', ['plan']]
+  ];
+  for (const [command, args] of seen) {
+    await runAuthorityPipeline(command, args, policy, GateMode.PERMISSIVE, command === 'cat', learn);
+  }
+  await runAuthorityPipeline('git', ['status'], policy, GateMode.PERMISSIVE, false, learn);   // ALLOW: not a miss
+  await runAuthorityPipeline('git', ['push'], policy, GateMode.STRICT, false, learn);         // STRICT: STOP, not learned
+
+  const observations = loadObservations(log);
+  assert.deepEqual(observations.map((o) => [o.command, o.decision]), [
+    ['git', 'HOLD'], ['git', 'HOLD'], ['cat', 'AUDITED_PERMIT'], ['cat', 'AUDITED_PERMIT'], ['terraform', 'HOLD']
+  ]);
+
+  const candidate = generateCandidatePolicy(observations);
+  assert.deepEqual(candidate.rules.map((r) => [r.id, r.args, r.scope, r.observations]), [
+    ['learned-cat', [{ glob: 'docs/**' }], 'safe', 2],
+    ['learned-git-fetch', ['fetch', { enum: ['--prune', '--tags'] }], 'net', 2],
+    ['learned-terraform', ['plan'], 'fs', 1]
+  ]);
+
+  const yaml = formatCandidatePolicy(candidate, 'observations.jsonl');
+  assert.match(yaml, /# observed 2× \(AUDITED_PERMIT 2\), 2 distinct argument list\(s\)\n\s+# first .+\n\s+- id: learned-cat/);
+  assert.match(yaml, /"terraform" not in catalog — scope fs until reviewed/);
+  assert.deepEqual([DEFAULT_COMMAND_CATALOG['node'], DEFAULT_COMMAND_CATALOG['npx']], ['fs', 'fs'], 'arbitrary code is never safe');
+  const generated = fixture('learned.yaml', yaml);
+  assert.deepEqual(loadPolicySet(generated).diagnostics, []);
+  for (const [command, args] of seen) {
+    assert.equal(evaluate({ command, args, policyPath: generated }).verdict, 'ALLOW', `${command} ${args.join(' ')}`);
+  }
+  assert.equal(evaluate({ command: 'git', args: ['fetch', '--all'], policyPath: generated }).verdict, 'DENY');
+
+  appendFileSync(log, '{"command":"ls"}\n');
+  assert.throws(() => loadObservations(log), (err: unknown) =>
+    err instanceof LearnInputError && /line 6: expected an observation/.test(err.message));
+});
+
+// ─── PT5: coverage report ───────────────────────────────────────────────────
+test('PT5: coverage counts decisions per rule, flags unused rules and frequent misses', async () => {
+  const policy = fixture('coverage-policy.yaml', `
+default: DENY
+rules:
+  - id: echo
+    command: echo
+    args: ['**']
+  - id: no-force-push
+    effect: DENY
+    command: git
+    args: [push, --force]
+  - command: git
+    args: [status]
+  - command: ls
+    scope: fs
+  - id: unused
+    command: make
+`);
+  const log = join(FIXTURE_DIR, 'audit.jsonl');
+  setAuditLog(log);
+  try {
+    const options = { context: EMPTY_CONTEXT };
+    await runAuthorityPipeline('echo', ['a'], policy, GateMode.STRICT, false, options);
+    await runAuthorityPipeline('echo', ['b'], policy, GateMode.PERMISSIVE, false, options);
+    await runAuthorityPipeline('git', ['push', '--force'], policy, GateMode.PERMISSIVE, false, options);
+    await runAuthorityPipeline('git', ['status'], policy, GateMode.STRICT, false, options);
+    for (const args of [['plan'], ['plan', '-out=tf'], ['apply']]) {
+      await runAuthorityPipeline('terraform', args, policy, GateMode.PERMISSIVE, false, options);
+    }
+    await runAuthorityPipeline('whoami', [], policy, GateMode.STRICT, false, options);
+    // Scope elevation: the pipeline's HOLD names the ls rule; the adapter's copy is not counted again
+    await executeWithOpenClawAuthority({
+      openclaw_proposal: {
+        source: 'openclaw', session_id: 's', turn_id: 't', agent_id: 'a', command: 'ls', args: [], policy_ref: policy
+      },
+      policy_path: policy,
+      context: EMPTY_CONTEXT
+    });
+  } finally {
+    setAuditLog(null);
+  }
+
+  const records = loadAuditRecords(log);
+  const report = buildCoverageReport(policy, records, { min_misses: 3 });
+  const counts = report.rules.map((r) => [r.id ?? r.command, r.decisions.ALLOW, r.decisions.HOLD, r.decisions.STOP, r.never_matched]);
+  assert.deepEqual(counts, [
+    ['echo', 2, 0, 0, false],
+    ['no-force-push', 0, 0, 1, false],
+    ['git', 1, 0, 0, false],
+    ['ls', 0, 1, 0, false],
+    ['unused', 0, 0, 0, true]
+  ]);
+  assert.equal(report.decisions, 9);
+  assert.equal(report.misses, 4);
+  assert.deepEqual(report.new_rule_candidates.map((c) => [c.command, c.misses, c.variants, c.decisions.HOLD]),
+    [['terraform', 3, 3, 3]], 'whoami missed once: below min_misses');
+  assert.deepEqual(report.new_rule_candidates[0]!.args, ['*', { zero_or_more: '-out=tf' }]);
+
+  // Deterministic: same input, same bytes; the window narrows what is counted
+  assert.equal(formatCoverageJson(buildCoverageReport(policy, records, { min_misses: 3 })), formatCoverageJson(report));
+  const future = buildCoverageReport(policy, records, { since: '2999-01-01' });
+  assert.equal(future.decisions, 0);
+  assert.ok(future.rules.every((r) => r.never_matched));
+
+  const markdown = formatCoverageMarkdown(report);
+  assert.match(markdown, /\| ⚠️ rules\[4\] id="unused" \| `make` \| ALLOW \| 0 \| 0 \| 0 \| — \| — \|/);
+  assert.match(markdown, /\*\*Removal candidates\*\* \(no decisions in the window\):\n- rules\[4\] id="unused" `make`/);
+  assert.match(markdown, /\| `terraform` \| 3 \| 3 \| 0 \| 0 \| 3 \|/);
+
+  assert.throws(() => loadAuditRecords(fixture('bad-audit.jsonl', '{"event":"STOP"}\nnot json\n')),
+    (err: unknown) => err instanceof CoverageInputError && /line 2: not valid JSON/.test(err.message));
+});
@@ -4,7 +4,7 @@
  * Uses Node.js built-in test runner (node:test).
  * Run with: npx tsx --test tests/runtime_enforced.spec.ts
  *
- * Tests (T1–T7): Concept verification for the Execution Contract gate.
+ * Tests (T1–T8): Concept verification for the Execution Contract gate.
  *
  *   T1: Valid ALLOW + valid token → execution succeeds
  *   T2: Signature tampered → ExecutionDeniedError (SIGNATURE_INVALID)
@@ -13,6 +13,8 @@
  *   T5: Same token replayed → second call fails (TOKEN_REPLAYED)
  *   T6: STRICT mode, rule miss → STOP, no token issued
  *   T7: PERMISSIVE mode, rule miss → HOLD token issued, kernel blocks (DECISION_NOT_ALLOW)
+ *   T8: Binary replaced or shadowed on PATH after issuance → EXECUTABLE_DRIFT
+ *   T9: Cached executable hash — reused while unchanged, re-hashed after a same-size rewrite with mtime restored
  *
  * Note: Environment fingerprint mismatch tests (runner identity binding,
  * cross-workflow replay, cross-commit replay) are in the production kernel.
@@ -25,6 +27,9 @@ import { executeWithAuthority, type VerifiedToken } from '../src/execution_kerne
 import { GateMode } from '../src/config/mode.js';
 import { initRegistry } from '../src/token_registry.js';
 import { ExecutionDeniedError } from '../src/errors.js';
+import { chmodSync, mkdirSync, mkdtempSync, realpathSync, statSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 const POLICY_PATH = './policy.yaml';
 const ALLOW_CMD = 'echo';
@@ -49,7 +54,7 @@ async function freshAllowToken(args: string[]): Promise<{
 // ────────────────────────────────────────────────────────────────────────────
 // T1: Valid ALLOW + valid token → execution succeeds
 // ────────────────────────────────────────────────────────────────────────────
-test('T1: valid ALLOW token → kernel passes all 7 steps, exits 0', async () => {
+test('T1: valid ALLOW token → kernel passes all 8 steps, exits 0', async () => {
   const { token, proposal } = await freshAllowToken(['t1-run']);
 
   assert.equal(token.decision, 'ALLOW');
@@ -180,3 +185,90 @@ test('T7: PERMISSIVE mode + rule miss → HOLD token issued, kernel blocks (DECI
     }
   );
 });
+
+// ────────────────────────────────────────────────────────────────────────────
+// T8: Executable drift between issuance and spawn → EXECUTABLE_DRIFT
+// ────────────────────────────────────────────────────────────────────────────
+test('T8: binary replaced or shadowed on PATH after issuance → EXECUTABLE_DRIFT', async () => {
+  const dir = realpathSync(mkdtempSync(join(tmpdir(), 'eg-exec-')));
+  const binA = join(dir, 'a');
+  const binB = join(dir, 'b');
+  mkdirSync(binA);
+  mkdirSync(binB);
+  const tool = join(binA, 'drift-tool');
+  writeFileSync(tool, '#!/bin/sh\nexit 0\n');
+  chmodSync(tool, 0o755);
+  const policyPath = join(dir, 'policy.yaml');
+  writeFileSync(policyPath, 'default: DENY\nrules:\n  - command: drift-tool\n    scope: safe\n');
+
+  const expectDrift = (err: unknown) => {
+    assert.ok(err instanceof ExecutionDeniedError, 'must be ExecutionDeniedError');
+    assert.equal(err.error_type, 'EXECUTABLE_DRIFT');
+    return true;
+  };
+
+  const savedPath = process.env['PATH'];
+  try {
+    process.env['PATH'] = binA;
+
+    // Bound to the absolute path and content of the binary
+    const replaced = await runAuthorityPipeline('drift-tool', [], policyPath, GateMode.STRICT);
+    assert.equal(replaced.decision, 'ALLOW');
+    assert.equal(replaced.proposal!.executable_path, tool);
+    assert.match(replaced.proposal!.executable_hash, /^[0-9a-f]{64}$/);
+    writeFileSync(tool, '#!/bin/sh\nexit 7\n');
+    await assert.rejects(
+      () => executeWithAuthority('drift-tool', [], replaced.proposal!, replaced.token!),
+      expectDrift
+    );
+
+    // Same name, different binary earlier on PATH
+    const shadowed = await runAuthorityPipeline('drift-tool', [], policyPath, GateMode.STRICT);
+    assert.equal(shadowed.decision, 'ALLOW');
+    const shim = join(binB, 'drift-tool');
+    writeFileSync(shim, '#!/bin/sh\nexit 7\n');
+    chmodSync(shim, 0o755);
+    process.env['PATH'] = [binB, binA].join(':');
+    await assert.rejects(
+      () => executeWithAuthority('drift-tool', [], shadowed.proposal!, shadowed.token!),
+      expectDrift
+    );
+  } finally {
+    process.env['PATH'] = savedPath;
+  }
+});
+
+// ────────────────────────────────────────────────────────────────────────────
+// T9: Executable hash cache — keyed by the file's identity, not its name
+// ────────────────────────────────────────────────────────────────────────────
+test('T9: cached executable hash is reused while unchanged and dropped on any rewrite', async () => {
+  const dir = realpathSync(mkdtempSync(join(tmpdir(), 'eg-exec-cache-')));
+  const tool = join(dir, 'cache-tool');
+  writeFileSync(tool, '#!/bin/sh\nexit 0\n');
+  chmodSync(tool, 0o755);
+  const policyPath = join(dir, 'policy.yaml');
+  writeFileSync(policyPath, 'default: DENY\nrules:\n  - command: cache-tool\n    scope: safe\n');
+
+  const savedPath = process.env['PATH'];
+  try {
+    process.env['PATH'] = dir;
+    const first = await runAuthorityPipeline('cache-tool', [], policyPath, GateMode.STRICT);
+    const second = await runAuthorityPipeline('cache-tool', [], policyPath, GateMode.STRICT);
+    assert.equal(second.proposal!.executable_hash, first.proposal!.executable_hash);
+
+    // Same size, mtime put back: ctime still moves, so the cache entry no longer matches
+    const { atime, mtime } = statSync(tool);
+    writeFileSync(tool, '#!/bin/sh\nexit 7\n');
+    utimesSync(tool, atime, mtime);
+    const rewritten = await runAuthorityPipeline('cache-tool', [], policyPath, GateMode.STRICT);
+    assert.notEqual(rewritten.proposal!.executable_hash, first.proposal!.executable_hash);
+    await assert.rejects(
+      () => executeWithAuthority('cache-tool', [], second.proposal!, second.token!),
+      (err: unknown) => err instanceof ExecutionDeniedError && err.error_type === 'EXECUTABLE_DRIFT'
+    );
+    const run = await executeWithAuthority('cache-tool', [], rewritten.proposal!, rewritten.token!);
+    assert.equal(run.exit_code, 7);
+  } finally {
+    process.env['PATH'] = savedPath;
+  }
+});
@@ -0,0 +1,243 @@
+/**
+ * Shell wrapper tests — `shell: execution-guard {0}` (src/shell.ts, src/shell_script.ts)
+ *
+ * Tests:
+ *   S1: Script → simple commands — line numbers, comments, blank lines, continuations, CRLF
+ *   S2: Compound constructs, assignments, shell-state builtins and operators rejected, every line reported
+ *   S3: Each line through pipeline + kernel — per-line verdicts, on_failure, combined exit code
+ *   S4: Rejected script, invalid settings and bad usage exit 2 before anything runs
+ *   S5: A trailing backslash in a comment or inside single quotes does not continue the line
+ *   S6: max_executions per run spans wrapped steps — counters in a file under RUNNER_TEMP
+ *   S7: Unquoted globs, tilde and braces rejected with line and column; quoted they are literal
+ *   S8: Builtins that only work inside a shell (read, wait, shift, command, let, ...) rejected
+ *
+ * Run: npx tsx --test tests/shell_wrapper.spec.ts
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseShellScript, ScriptSyntaxError } from '../src/shell_script.js';
+import { runShell } from '../src/shell.js';
+
+const DIR = mkdtempSync(join(tmpdir(), 'guard-shell-'));
+
+let scripts = 0;
+
+/** Run the wrapper on a script with the given EXECUTION_GUARD_* settings; captures stdout strings. */
+async function runScript(script: string, settings: Record<string, string> = {}): Promise<{ code: number; lines: string[] }> {
+  const path = join(DIR, `script-${++scripts}.sh`);
+  writeFileSync(path, script);
+  const saved = { ...process.env };
+  for (const key of Object.keys(process.env)) {
+    if (key.startsWith('EXECUTION_GUARD_') || key === 'GITHUB_STEP_SUMMARY') delete process.env[key];
+  }
+  for (const [name, value] of Object.entries(settings)) process.env[`EXECUTION_GUARD_${name.toUpperCase()}`] = value;
+
+  const lines: string[] = [];
+  const write = process.stdout.write.bind(process.stdout);
+  // Log lines and workflow commands are strings; the test runner's own reports are buffers
+  process.stdout.write = ((chunk: string | Uint8Array, ...rest: never[]) => {
+    if (typeof chunk !== 'string') return write(chunk, ...rest);
+    lines.push(chunk);
+    return true;
+  }) as typeof process.stdout.write;
+  try {
+    return { code: await runShell([path]), lines };
+  } finally {
+    process.stdout.write = write;
+    process.env = saved;
+  }
+}
+
+/** `line N: VERDICT text` report lines → [line, verdict] */
+function verdicts(lines: string[]): Array<[number, string]> {
+  return lines.join('').split('\n')
+    .map((line) => /^ {3}line (\d+): (\w+)/.exec(line))
+    .filter((m): m is RegExpExecArray => m !== null)
+    .map((m) => [Number(m[1]), m[2]!]);
+}
+
+// ─── S1: parsing ────────────────────────────────────────────────────────────
+test('S1: script lines become simple commands; comments, blanks and continuations handled', () => {
+  const { commands, errors } = parseShellScript([
+    '#!/usr/bin/env execution-guard',
+    '# install',
+    'npm ci',
+    '',
+    '   npm test -- --reporter "dot"  # trailing comment\r',
+    'terraform plan \\',
+    "  -out 'my plan' \\",
+    '  -input=false',
+    'echo a#b \\\\',
+    'echo "# not a comment"'
+  ].join('\n'));
+
+  assert.deepEqual(errors, []);
+  assert.deepEqual(commands.map((c) => [c.line, c.command, c.args]), [
+    [3, 'npm', ['ci']],
+    [5, 'npm', ['test', '--', '--reporter', 'dot']],
+    [6, 'terraform', ['plan', '-out', 'my plan', '-input=false']],
+    [9, 'echo', ['a#b', '\\']],
+    [10, 'echo', ['# not a comment']]
+  ]);
+  assert.equal(commands[1]!.text, 'npm test -- --reporter "dot"  # trailing comment');
+  assert.deepEqual(parseShellScript('\n# nothing to do\n'), { commands: [], errors: [] });
+});
+
+// ─── S2: rejection ──────────────────────────────────────────────────────────
+test('S2: compound constructs, assignments, builtins and operators are rejected with line and column', () => {
+  const { commands, errors } = parseShellScript([
+    'npm ci',
+    'if [ -f package.json ]; then',
+    '  npm test',
+    'fi',
+    'for f in a b; do echo $f; done',
+    'FOO=1 npm test',
+    'cd app',
+    'npm test && npm run lint',
+    'echo "$HOME"',
+    '{ echo grouped; }',
+    "echo 'unbalanced"
+  ].join('\n'));
+
+  assert.equal(commands.length, 2, 'npm ci and the indented npm test parse');
+  assert.ok(errors.every((e) => e instanceof ScriptSyntaxError));
+  assert.deepEqual(errors.map((e) => [e.line, e.column]), [
+    [2, 1], [4, 1], [5, 1], [6, 1], [7, 1], [8, 10], [9, 7], [10, 1], [11, 6]
+  ]);
+  assert.match(errors[0]!.message, /^line 2: compound shell construct "if" is not supported .* \(column 1\)$/);
+  assert.match(errors[3]!.message, /variable assignment "FOO=1"/);
+  assert.match(errors[4]!.message, /shell builtin "cd"/);
+  assert.match(errors[5]!.message, /^line 8: shell operator "&"/);
+  assert.match(errors[6]!.message, /shell expansion "\$"/);
+  assert.match(errors[8]!.message, /unbalanced single quote/);
+});
+
+// ─── S3: guarded execution ──────────────────────────────────────────────────
+test('S3: every line is decided and run by the kernel; exit code is the first failure', async () => {
+  const script = '# smoke\necho s3-one\nls /nonexistent-s3\nwhoami\necho s3-two\n';
+
+  const stopped = await runScript(script);
+  assert.equal(stopped.code, 2, 'exit code of ls, the first failed line');
+  assert.deepEqual(verdicts(stopped.lines), [[2, 'ALLOW'], [3, 'ALLOW'], [4, 'SKIPPED'], [5, 'SKIPPED']]);
+  assert.ok(stopped.lines.some((l) => l.includes('4 commands: 2 ALLOW, 2 SKIPPED; 1 failed (on_failure: stop)')));
+
+  const all = await runScript(script, { on_failure: 'continue' });
+  assert.equal(all.code, 2);
+  assert.deepEqual(verdicts(all.lines), [[2, 'ALLOW'], [3, 'ALLOW'], [4, 'STOP'], [5, 'ALLOW']]);
+  const logged = all.lines.filter((l) => l.startsWith('{"index"')).map((l) => JSON.parse(l) as { index: number; token_id: string | null });
+  assert.deepEqual(logged.map((l) => l.index), [0, 1, 2, 3]);
+  assert.equal(new Set(logged.map((l) => l.token_id).filter(Boolean)).size, 3, 'one token per executed line');
+  assert.ok(all.lines.some((l) => l.startsWith('::error title=Execution Guard STOP (policy default),file=policy.yaml')));
+
+  const held = await runScript('echo s3-held\nwhoami\n', { gate_mode: 'permissive', fail_on_hold: 'false' });
+  assert.equal(held.code, 0);
+  assert.deepEqual(verdicts(held.lines), [[1, 'ALLOW'], [2, 'HOLD']]);
+  assert.equal((await runScript('# only comments\n')).code, 0);
+});
+
+// ─── S4: refused before anything runs ───────────────────────────────────────
+test('S4: rejected script, invalid settings and bad usage exit 2 without running anything', async () => {
+  const marker = join(DIR, 's4-marker');
+  const rejected = await runScript(`touch ${marker}\nnpm test | tee out.txt\nexport CI=1\n`);
+  assert.equal(rejected.code, 2);
+  assert.equal(existsSync(marker), false, 'the valid first line did not run either');
+  assert.deepEqual(rejected.lines.filter((l) => l.startsWith('::error')).map((l) => /::line (\d+):/.exec(l)?.[1]), ['2', '3']);
+
+  const invalid = await runScript(`touch ${marker}\n`, { gate_mode: 'strikt' });
+  assert.equal(invalid.code, 2);
+  assert.ok(invalid.lines.some((l) => l.startsWith('::error::Invalid EXECUTION_GUARD_* setting: gate_mode must be one of')));
+  assert.equal((await runScript(`touch ${marker}\n`, { allow_with_audit: 'true' })).code, 2);
+  assert.equal(existsSync(marker), false);
+
+  assert.equal(await runShell([]), 2);
+  assert.equal(await runShell([join(DIR, 'missing.sh')]), 2);
+});
+
+// ─── S5: where a backslash does not continue ────────────────────────────────
+test('S5: backslash-newline joins lines only outside comments and single quotes', () => {
+  const inComment = parseShellScript([
+    'npm ci  # install deps \\',
+    'npm test',
+    '# note \\',
+    'npm run lint'
+  ].join('\n'));
+  assert.deepEqual(inComment.errors, []);
+  assert.deepEqual(inComment.commands.map((c) => [c.line, c.command, c.args]), [
+    [1, 'npm', ['ci']],
+    [2, 'npm', ['test']],
+    [4, 'npm', ['run', 'lint']]
+  ]);
+
+  const inSingleQuotes = parseShellScript([
+    "echo 'a \\",
+    "b'",
+    "echo '\\' \\",
+    '  "c \\',
+    'd"'
+  ].join('\n'));
+  assert.deepEqual(inSingleQuotes.errors.map((e) => [e.line, e.message.replace(/^line \d+: /, '')]), [
+    [1, 'unbalanced single quote (column 6)'],
+    [2, 'unbalanced single quote (column 2)']
+  ], 'a newline inside single quotes is not joined away');
+  assert.deepEqual(inSingleQuotes.commands.map((c) => [c.line, c.args]), [[3, ['\\', 'c d']]],
+    'after the quote closes, and inside double quotes, it still continues');
+});
+
+// ─── S6: quotas across steps ────────────────────────────────────────────────
+test('S6: a per-run quota is counted across guarded steps of the job', async () => {
+  const temp = mkdtempSync(join(tmpdir(), 'guard-runner-temp-'));
+  const policy = join(temp, 'policy.yaml');
+  writeFileSync(policy, 'default: DENY\nrules:\n  - { id: once, command: echo, args: [s6], max_executions: { limit: 1, per: run } }\n');
+  process.env['RUNNER_TEMP'] = temp;
+  try {
+    const first = await runScript('echo s6\n', { policy_path: policy });
+    assert.equal(first.code, 0);
+    // Persisted for the next step's process, not only held in this one
+    const counters = JSON.parse(readFileSync(join(temp, 'execution-guard-quotas.json'), 'utf8')) as Record<string, { count: number }>;
+    assert.deepEqual(Object.values(counters).map((c) => c.count), [1]);
+    const second = await runScript('echo s6\n', { policy_path: policy });
+    assert.equal(second.code, 1, 'second step: quota used up by the first');
+    assert.deepEqual(verdicts(second.lines), [[1, 'STOP']]);
+  } finally {
+    delete process.env['RUNNER_TEMP'];
+  }
+});
+
+// ─── S7: patterns sh would expand ───────────────────────────────────────────
+test('S7: unquoted globs, tilde and braces are rejected; quoted they are literal', () => {
+  const { commands, errors } = parseShellScript([
+    'rm -f *.log',
+    'ls dist/?',
+    'cat [ab].txt',
+    'cat ~/.npmrc',
+    'cp config.{yml,bak}',
+    'echo {1..3}',
+    "rm -f '*.log' \\? \"~\" 'a{b,c}'",
+    'git diff HEAD~1 -- [ x ]',
+    'find . -name x -exec echo {} +'
+  ].join('\n'));
+
+  assert.deepEqual(errors.map((e) => [e.line, e.column]), [[1, 7], [2, 9], [3, 5], [4, 5], [5, 11], [6, 6]]);
+  assert.match(errors[0]!.message, /^line 1: shell glob "\*" is not supported .*quote it for a literal argument \(column 7\)$/);
+  assert.match(errors[2]!.message, /shell glob "\["/);
+  assert.match(errors[3]!.message, /shell tilde expansion "~"/);
+  assert.match(errors[4]!.message, /shell brace expansion "\{"/);
+  assert.deepEqual(commands.map((c) => [c.line, c.args]), [
+    [7, ['-f', '*.log', '?', '~', 'a{b,c}']],
+    [8, ['diff', 'HEAD~1', '--', '[', 'x', ']']],
+    [9, ['.', '-name', 'x', '-exec', 'echo', '{}', '+']]
+  ], 'quoted, mid-word ~, a lone [ and {} are what sh passes literally too');
+});
+
+// ─── S8: shell-only builtins ────────────────────────────────────────────────
+test('S8: builtins that only work inside a shell are rejected', () => {
+  const builtins = ['read', 'wait', 'shift', 'getopts', 'hash', 'ulimit', 'command', 'builtin', 'let'];
+  const { commands, errors } = parseShellScript(builtins.map((b) => `  ${b} x`).join('\n'));
+  assert.deepEqual(commands, []);
+  assert.deepEqual(errors.map((e) => [e.line, e.column]), builtins.map((_, i) => [i + 1, 3]));
+  builtins.forEach((b, i) => assert.match(errors[i]!.message, new RegExp(`shell builtin "${b}" is not supported`)));
+});